@@ -0,0 +1,724 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { countEOL } from "./common/eolCounter";
+import { IDisposable } from "./common/event";
+import { Position } from "./common/position";
+import { Range } from "./common/range";
+import { escapeRegExpCharacters } from "./common/strings";
+import { IModelContentChangedEvent, PieceTreeBase } from "./pieceTreeBase";
+
+/**
+ * An open and a close bracket, e.g. `["{", "}"]`.
+ */
+export type BracketPair = [string, string];
+
+export const DEFAULT_BRACKET_PAIRS: BracketPair[] = [
+	["{", "}"],
+	["[", "]"],
+	["(", ")"],
+];
+
+export const enum BracketPairsConstants {
+	/**
+	 * Lines per block of the index.
+	 */
+	BlockSize = 256,
+}
+
+interface IBracketToken {
+	readonly column: number;
+	readonly length: number;
+	readonly pairIndex: number;
+	readonly isOpen: boolean;
+}
+
+/**
+ * Depth changes within a block, one entry per bracket pair. Opening brackets count +1 and closing
+ * brackets -1 when read forwards; the other way round when read backwards.
+ */
+interface IBlockSummary {
+	readonly delta: number[];
+	/**
+	 * Lowest depth reached reading forwards from 0.
+	 */
+	readonly minPrefix: number[];
+	/**
+	 * Lowest depth reached reading backwards from 0.
+	 */
+	readonly minSuffix: number[];
+}
+
+interface IBracketPosition {
+	readonly lineNumber: number;
+	readonly token: IBracketToken;
+}
+
+const NO_BRACKETS: IBracketToken[] = [];
+
+class BracketBlock {
+	/**
+	 * The brackets of each line, `null` for lines that still have to be scanned.
+	 */
+	public lines: (IBracketToken[] | null)[];
+
+	public summary: IBlockSummary | null;
+
+	constructor(lines: (IBracketToken[] | null)[]) {
+		this.lines = lines;
+
+		this.summary = null;
+	}
+}
+
+/**
+ * An index of the brackets in a piece tree, kept per line in blocks of lines. Edits only rescan the
+ * lines they touch, and each block knows how it changes the nesting depth of every bracket pair, so
+ * finding a match skips blocks instead of reading them. Like the legacy bracket matching of VS Code,
+ * only brackets of the same pair count towards the nesting of a bracket.
+ */
+export class BracketPairsTree implements IDisposable {
+	private readonly _tree: PieceTreeBase;
+
+	private readonly _brackets: BracketPair[];
+
+	private readonly _bracketRegex: RegExp;
+
+	private readonly _bracketInfo: Map<
+		string,
+		{ pairIndex: number; isOpen: boolean }
+	>;
+
+	private _blocks: BracketBlock[];
+
+	private _lineCount: number;
+
+	private readonly _listeners: IDisposable[];
+
+	constructor(
+		tree: PieceTreeBase,
+		brackets: BracketPair[] = DEFAULT_BRACKET_PAIRS,
+	) {
+		this._tree = tree;
+
+		this._brackets = brackets;
+
+		this._bracketInfo = new Map<
+			string,
+			{ pairIndex: number; isOpen: boolean }
+		>();
+
+		brackets.forEach(([open, close], pairIndex) => {
+			if (
+				open.length === 0 ||
+				close.length === 0 ||
+				open === close ||
+				this._bracketInfo.has(open) ||
+				this._bracketInfo.has(close)
+			) {
+				throw new Error(
+					`Invalid bracket pair ${JSON.stringify([open, close])}`,
+				);
+			}
+
+			this._bracketInfo.set(open, { pairIndex, isOpen: true });
+
+			this._bracketInfo.set(close, { pairIndex, isOpen: false });
+		});
+
+		// longest first, so `{{` wins over `{`
+		const sources = Array.from(this._bracketInfo.keys())
+			.sort((a, b) => b.length - a.length)
+			.map(escapeRegExpCharacters);
+
+		this._bracketRegex = new RegExp(sources.join("|"), "g");
+
+		this._blocks = [];
+
+		this._lineCount = 0;
+
+		this._rebuild();
+
+		this._listeners = [
+			tree.onDidChangeContent((e) => this._onDidChangeContent(e)),
+		];
+	}
+
+	public dispose(): void {
+		for (const listener of this._listeners) {
+			listener.dispose();
+		}
+
+		this._listeners.length = 0;
+	}
+
+	/**
+	 * Find the bracket matching the one touching `position`. A bracket ending at `position` wins over
+	 * one starting there.
+	 * @returns The bracket at `position` and its match, or `null` when there is no bracket or no match.
+	 */
+	public matchBracket(position: Position): [Range, Range] | null {
+		const lineNumber = position.lineNumber;
+
+		if (lineNumber < 1 || lineNumber > this._lineCount) {
+			return null;
+		}
+
+		const tokens = this._getLineBrackets(lineNumber);
+
+		let tokenIndex = -1;
+
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i];
+
+			if (
+				token.column < position.column &&
+				position.column <= token.column + token.length
+			) {
+				tokenIndex = i;
+
+				break;
+			}
+
+			if (token.column === position.column && tokenIndex === -1) {
+				tokenIndex = i;
+			}
+		}
+
+		if (tokenIndex === -1) {
+			return null;
+		}
+
+		const token = tokens[tokenIndex];
+
+		const match = token.isOpen
+			? this._findClosingBracket(
+					token.pairIndex,
+					lineNumber,
+					tokenIndex + 1,
+				)
+			: this._findOpeningBracket(token.pairIndex, lineNumber, tokenIndex);
+
+		if (!match) {
+			return null;
+		}
+
+		return [
+			this._toRange(lineNumber, token),
+			this._toRange(match.lineNumber, match.token),
+		];
+	}
+
+	/**
+	 * Find the closest pair of brackets around `position`.
+	 * @returns The ranges of the opening and the closing bracket, or `null` when no pair encloses `position`.
+	 */
+	public findEnclosingBrackets(position: Position): [Range, Range] | null {
+		let lineNumber = Math.min(position.lineNumber, this._lineCount);
+
+		if (lineNumber < 1) {
+			return null;
+		}
+
+		// closing minus opening brackets of each pair seen so far
+		const counts = this._brackets.map(() => 0);
+
+		let { blockIndex, index } = this._locate(lineNumber);
+
+		let block = this._blocks[blockIndex];
+
+		let blockStartLineNumber = lineNumber - index;
+
+		this._ensureScanned(block, blockStartLineNumber);
+
+		while (true) {
+			const tokens = block.lines[index]!;
+
+			for (let i = tokens.length - 1; i >= 0; i--) {
+				const token = tokens[i];
+
+				if (
+					lineNumber === position.lineNumber &&
+					token.column + token.length > position.column
+				) {
+					continue;
+				}
+
+				if (!token.isOpen) {
+					counts[token.pairIndex]++;
+				} else if (counts[token.pairIndex] > 0) {
+					counts[token.pairIndex]--;
+				} else {
+					const match = this._findClosingBracket(
+						token.pairIndex,
+						lineNumber,
+						i + 1,
+					);
+
+					if (match) {
+						return [
+							this._toRange(lineNumber, token),
+							this._toRange(match.lineNumber, match.token),
+						];
+					}
+					// an unclosed bracket encloses nothing, keep looking
+				}
+			}
+
+			if (index > 0) {
+				index--;
+
+				lineNumber--;
+
+				continue;
+			}
+
+			// skip blocks without an opening bracket left unclosed by what follows
+			do {
+				blockIndex--;
+
+				if (blockIndex < 0) {
+					return null;
+				}
+
+				block = this._blocks[blockIndex];
+
+				blockStartLineNumber -= block.lines.length;
+
+				const summary = this._getSummary(block, blockStartLineNumber);
+
+				let canSkip = true;
+
+				for (let p = 0; p < counts.length; p++) {
+					if (counts[p] + summary.minSuffix[p] < 0) {
+						canSkip = false;
+
+						break;
+					}
+				}
+
+				if (!canSkip) {
+					break;
+				}
+
+				for (let p = 0; p < counts.length; p++) {
+					counts[p] -= summary.delta[p];
+				}
+			} while (true);
+
+			index = block.lines.length - 1;
+
+			lineNumber = blockStartLineNumber + index;
+		}
+	}
+
+	private _findClosingBracket(
+		pairIndex: number,
+		lineNumber: number,
+		fromTokenIndex: number,
+	): IBracketPosition | null {
+		let depth = 1;
+
+		let { blockIndex, index } = this._locate(lineNumber);
+
+		let blockStartLineNumber = lineNumber - index;
+
+		let block = this._blocks[blockIndex];
+
+		this._ensureScanned(block, blockStartLineNumber);
+
+		let tokenIndex = fromTokenIndex;
+
+		while (true) {
+			for (; index < block.lines.length; index++) {
+				const tokens = block.lines[index]!;
+
+				for (; tokenIndex < tokens.length; tokenIndex++) {
+					const token = tokens[tokenIndex];
+
+					if (token.pairIndex !== pairIndex) {
+						continue;
+					}
+
+					depth += token.isOpen ? 1 : -1;
+
+					if (depth === 0) {
+						return {
+							lineNumber: blockStartLineNumber + index,
+							token,
+						};
+					}
+				}
+
+				tokenIndex = 0;
+			}
+
+			// skip blocks the depth cannot drop to 0 in
+			do {
+				blockStartLineNumber += block.lines.length;
+
+				blockIndex++;
+
+				if (blockIndex >= this._blocks.length) {
+					return null;
+				}
+
+				block = this._blocks[blockIndex];
+
+				const summary = this._getSummary(block, blockStartLineNumber);
+
+				if (depth + summary.minPrefix[pairIndex] <= 0) {
+					break;
+				}
+
+				depth += summary.delta[pairIndex];
+			} while (true);
+
+			index = 0;
+		}
+	}
+
+	private _findOpeningBracket(
+		pairIndex: number,
+		lineNumber: number,
+		beforeTokenIndex: number,
+	): IBracketPosition | null {
+		let depth = 1;
+
+		let { blockIndex, index } = this._locate(lineNumber);
+
+		let blockStartLineNumber = lineNumber - index;
+
+		let block = this._blocks[blockIndex];
+
+		this._ensureScanned(block, blockStartLineNumber);
+
+		let tokenIndex = beforeTokenIndex - 1;
+
+		while (true) {
+			for (; index >= 0; index--) {
+				const tokens = block.lines[index]!;
+
+				for (; tokenIndex >= 0; tokenIndex--) {
+					const token = tokens[tokenIndex];
+
+					if (token.pairIndex !== pairIndex) {
+						continue;
+					}
+
+					depth += token.isOpen ? -1 : 1;
+
+					if (depth === 0) {
+						return {
+							lineNumber: blockStartLineNumber + index,
+							token,
+						};
+					}
+				}
+
+				if (index > 0) {
+					tokenIndex = block.lines[index - 1]!.length - 1;
+				}
+			}
+
+			// skip blocks the depth cannot drop to 0 in
+			do {
+				blockIndex--;
+
+				if (blockIndex < 0) {
+					return null;
+				}
+
+				block = this._blocks[blockIndex];
+
+				blockStartLineNumber -= block.lines.length;
+
+				const summary = this._getSummary(block, blockStartLineNumber);
+
+				if (depth + summary.minSuffix[pairIndex] <= 0) {
+					break;
+				}
+
+				depth -= summary.delta[pairIndex];
+			} while (true);
+
+			index = block.lines.length - 1;
+
+			tokenIndex = block.lines[index]!.length - 1;
+		}
+	}
+
+	private _toRange(lineNumber: number, token: IBracketToken): Range {
+		return new Range(
+			lineNumber,
+			token.column,
+			lineNumber,
+			token.column + token.length,
+		);
+	}
+
+	private _scanLine(lineContent: string): IBracketToken[] {
+		let result: IBracketToken[] | null = null;
+
+		this._bracketRegex.lastIndex = 0;
+
+		let m: RegExpExecArray | null;
+
+		while ((m = this._bracketRegex.exec(lineContent))) {
+			const info = this._bracketInfo.get(m[0])!;
+
+			if (!result) {
+				result = [];
+			}
+
+			result.push({
+				column: m.index + 1,
+				length: m[0].length,
+				pairIndex: info.pairIndex,
+				isOpen: info.isOpen,
+			});
+		}
+
+		return result || NO_BRACKETS;
+	}
+
+	private _getLineBrackets(lineNumber: number): IBracketToken[] {
+		const { blockIndex, index } = this._locate(lineNumber);
+
+		const block = this._blocks[blockIndex];
+
+		let tokens = block.lines[index];
+
+		if (!tokens) {
+			tokens = this._scanLine(this._tree.getLineContent(lineNumber));
+
+			block.lines[index] = tokens;
+		}
+
+		return tokens;
+	}
+
+	/**
+	 * The block containing `lineNumber`, and the index of the line in it.
+	 */
+	private _locate(lineNumber: number): { blockIndex: number; index: number } {
+		let index = lineNumber - 1;
+
+		for (let i = 0; i < this._blocks.length; i++) {
+			const lineCount = this._blocks[i].lines.length;
+
+			if (index < lineCount) {
+				return { blockIndex: i, index };
+			}
+
+			index -= lineCount;
+		}
+
+		const lastIndex = this._blocks.length - 1;
+
+		return {
+			blockIndex: lastIndex,
+			index: this._blocks[lastIndex].lines.length,
+		};
+	}
+
+	private _ensureScanned(
+		block: BracketBlock,
+		blockStartLineNumber: number,
+	): void {
+		if (block.lines.indexOf(null) === -1) {
+			return;
+		}
+
+		const lines = this._tree.getLinesContent(
+			blockStartLineNumber,
+			blockStartLineNumber + block.lines.length - 1,
+		);
+
+		for (let i = 0; i < block.lines.length; i++) {
+			if (block.lines[i] === null) {
+				block.lines[i] = this._scanLine(lines[i]);
+			}
+		}
+	}
+
+	private _getSummary(
+		block: BracketBlock,
+		blockStartLineNumber: number,
+	): IBlockSummary {
+		if (block.summary) {
+			return block.summary;
+		}
+
+		this._ensureScanned(block, blockStartLineNumber);
+
+		const delta = this._brackets.map(() => 0);
+
+		const minPrefix = this._brackets.map(() => 0);
+
+		const minSuffix = this._brackets.map(() => 0);
+
+		for (const tokens of block.lines) {
+			for (const token of tokens!) {
+				const p = token.pairIndex;
+
+				delta[p] += token.isOpen ? 1 : -1;
+
+				minPrefix[p] = Math.min(minPrefix[p], delta[p]);
+			}
+		}
+
+		const suffix = this._brackets.map(() => 0);
+
+		for (let i = block.lines.length - 1; i >= 0; i--) {
+			const tokens = block.lines[i]!;
+
+			for (let j = tokens.length - 1; j >= 0; j--) {
+				const p = tokens[j].pairIndex;
+
+				suffix[p] += tokens[j].isOpen ? -1 : 1;
+
+				minSuffix[p] = Math.min(minSuffix[p], suffix[p]);
+			}
+		}
+
+		block.summary = { delta, minPrefix, minSuffix };
+
+		return block.summary;
+	}
+
+	/**
+	 * Forget all lines. They are scanned again when a query needs them.
+	 */
+	private _rebuild(): void {
+		this._lineCount = this._tree.getLineCount();
+
+		this._blocks = [];
+
+		for (
+			let i = 0;
+			i < this._lineCount;
+			i += BracketPairsConstants.BlockSize
+		) {
+			const lineCount = Math.min(
+				BracketPairsConstants.BlockSize,
+				this._lineCount - i,
+			);
+
+			this._blocks.push(
+				new BracketBlock(new Array(lineCount).fill(null)),
+			);
+		}
+	}
+
+	/**
+	 * Replace `deleteCount` lines from `lineNumber` on with `insertCount` lines to be scanned.
+	 */
+	private _replaceLines(
+		lineNumber: number,
+		deleteCount: number,
+		insertCount: number,
+	): void {
+		const { blockIndex, index } = this._locate(lineNumber);
+
+		let remaining = deleteCount;
+
+		let i = blockIndex;
+
+		let start = index;
+
+		while (remaining > 0 && i < this._blocks.length) {
+			const block = this._blocks[i];
+
+			const count = Math.min(remaining, block.lines.length - start);
+
+			block.lines.splice(start, count);
+
+			block.summary = null;
+
+			remaining -= count;
+
+			i++;
+
+			start = 0;
+		}
+
+		const block = this._blocks[blockIndex];
+
+		block.lines = block.lines
+			.slice(0, index)
+			.concat(
+				new Array(insertCount).fill(null),
+				block.lines.slice(index),
+			);
+
+		block.summary = null;
+
+		this._lineCount += insertCount - deleteCount;
+
+		this._normalizeBlocks(blockIndex, i);
+	}
+
+	/**
+	 * Cut the lines of the blocks `start` to `end` and their neighbours into blocks of `BlockSize`
+	 * lines again, which drops emptied blocks, splits grown ones and merges shrunk ones.
+	 */
+	private _normalizeBlocks(start: number, end: number): void {
+		const first = Math.max(0, start - 1);
+
+		const last = Math.min(end + 1, this._blocks.length - 1);
+
+		let lines: (IBracketToken[] | null)[] = [];
+
+		for (let i = first; i <= last; i++) {
+			lines = lines.concat(this._blocks[i].lines);
+		}
+
+		const blocks: BracketBlock[] = [];
+
+		for (
+			let i = 0;
+			i < lines.length;
+			i += BracketPairsConstants.BlockSize
+		) {
+			blocks.push(
+				new BracketBlock(
+					lines.slice(i, i + BracketPairsConstants.BlockSize),
+				),
+			);
+		}
+
+		this._blocks = this._blocks
+			.slice(0, first)
+			.concat(blocks, this._blocks.slice(last + 1));
+	}
+
+	private _onDidChangeContent(e: IModelContentChangedEvent): void {
+		if (e.isFlush) {
+			this._rebuild();
+
+			return;
+		}
+
+		const policy = this._tree.getLineBreakPolicy();
+
+		for (const change of e.changes) {
+			const { startLineNumber, endLineNumber } = change.range;
+
+			const [eolCount] = countEOL(change.text, policy);
+
+			this._replaceLines(
+				startLineNumber,
+				endLineNumber - startLineNumber + 1,
+				eolCount + 1,
+			);
+		}
+
+		if (this._lineCount !== this._tree.getLineCount()) {
+			// a \r and a \n became one line break, or stopped being one
+			this._rebuild();
+		}
+	}
+}
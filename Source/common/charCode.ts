@@ -338,6 +338,18 @@ export const enum CharCode {
 	 */
 	LINE_SEPARATOR_2028 = 8232,
 
+	/**
+	 * Unicode Character 'PARAGRAPH SEPARATOR' (U+2029)
+	 * http://www.fileformat.info/info/unicode/char/2029/index.htm
+	 */
+	PARAGRAPH_SEPARATOR_2029 = 8233,
+
+	/**
+	 * Unicode Character 'NEXT LINE' (U+0085)
+	 * http://www.fileformat.info/info/unicode/char/0085/index.htm
+	 */
+	NEXT_LINE_0085 = 0x0085,
+
 	// http://www.fileformat.info/info/unicode/category/Sk/list.htm
 	U_CIRCUMFLEX = 0x005e, // U+005E	CIRCUMFLEX
 	U_GRAVE_ACCENT = 0x0060, // U+0060	GRAVE ACCENT
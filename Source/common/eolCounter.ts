@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharCode } from "./charCode";
+
+/**
+ * Which characters end a line.
+ */
+export const enum LineBreakPolicy {
+	/**
+	 * `\r\n`, `\r` and `\n`.
+	 */
+	Standard = 0,
+	/**
+	 * Also U+0085 (NEL), U+2028 (LS) and U+2029 (PS).
+	 */
+	Unicode = 1,
+}
+
+const standardLineBreakRegex = /\r\n|\r|\n/g;
+
+const unicodeLineBreakRegex = /\r\n|\r|\n|\u0085|\u2028|\u2029/g;
+
+const standardTrailingLineBreakRegex = /(\r\n|\r|\n)$/;
+
+const unicodeTrailingLineBreakRegex = /(\r\n|\r|\n|\u0085|\u2028|\u2029)$/;
+
+/**
+ * Matches every line break. Only use it with methods that reset `lastIndex`, like `replace` and `split`.
+ */
+export function getLineBreakRegex(policy: LineBreakPolicy): RegExp {
+	return policy === LineBreakPolicy.Unicode
+		? unicodeLineBreakRegex
+		: standardLineBreakRegex;
+}
+
+/**
+ * Matches the line break at the end of a string.
+ */
+export function getTrailingLineBreakRegex(policy: LineBreakPolicy): RegExp {
+	return policy === LineBreakPolicy.Unicode
+		? unicodeTrailingLineBreakRegex
+		: standardTrailingLineBreakRegex;
+}
+
+/**
+ * Whether `charCode` is one of the line breaks only `LineBreakPolicy.Unicode` knows.
+ */
+export function isUnicodeLineBreak(charCode: number): boolean {
+	return (
+		charCode === CharCode.NEXT_LINE_0085 ||
+		charCode === CharCode.LINE_SEPARATOR_2028 ||
+		charCode === CharCode.PARAGRAPH_SEPARATOR_2029
+	);
+}
+
+export const enum StringEOL {
+	Unknown = 0,
+	Invalid = 3,
+	LF = 1,
+	CRLF = 2,
+}
+
+/**
+ * Returns the number of line breaks in `text`, the length of its first and last line and which kind of line breaks it uses.
+ */
+export function countEOL(
+	text: string,
+	policy: LineBreakPolicy = LineBreakPolicy.Standard,
+): [number, number, number, StringEOL] {
+	const isUnicode = policy === LineBreakPolicy.Unicode;
+
+	let eolCount = 0;
+
+	let firstLineLength = 0;
+
+	let lastLineStart = 0;
+
+	let eol: StringEOL = StringEOL.Unknown;
+
+	for (let i = 0, len = text.length; i < len; i++) {
+		const chr = text.charCodeAt(i);
+
+		if (chr === CharCode.CarriageReturn) {
+			if (eolCount === 0) {
+				firstLineLength = i;
+			}
+
+			eolCount++;
+
+			if (i + 1 < len && text.charCodeAt(i + 1) === CharCode.LineFeed) {
+				// \r\n... case
+				eol |= StringEOL.CRLF;
+
+				i++; // skip \n
+			} else {
+				// \r... case
+				eol |= StringEOL.Invalid;
+			}
+
+			lastLineStart = i + 1;
+		} else if (chr === CharCode.LineFeed) {
+			// \n... case
+			eol |= StringEOL.LF;
+
+			if (eolCount === 0) {
+				firstLineLength = i;
+			}
+
+			eolCount++;
+
+			lastLineStart = i + 1;
+		} else if (isUnicode && isUnicodeLineBreak(chr)) {
+			// like a lone \r, this is not a line break `_EOL` can be
+			eol |= StringEOL.Invalid;
+
+			if (eolCount === 0) {
+				firstLineLength = i;
+			}
+
+			eolCount++;
+
+			lastLineStart = i + 1;
+		}
+	}
+
+	if (eolCount === 0) {
+		firstLineLength = text.length;
+	}
+
+	return [eolCount, firstLineLength, text.length - lastLineStart, eol];
+}
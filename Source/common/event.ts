@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IDisposable {
+	dispose(): void;
+}
+
+/**
+ * To an event a function with one or zero parameters
+ * can be subscribed. The event is the subscriber function itself.
+ */
+export interface Event<T> {
+	(listener: (e: T) => unknown, thisArgs?: unknown): IDisposable;
+}
+
+export class Emitter<T> {
+	private _listeners: { callback: (e: T) => unknown; thisArgs: unknown }[];
+
+	private _event: Event<T> | null;
+
+	constructor() {
+		this._listeners = [];
+
+		this._event = null;
+	}
+
+	/**
+	 * For the public to allow to subscribe
+	 * to events from this Emitter
+	 */
+	get event(): Event<T> {
+		if (!this._event) {
+			this._event = (callback: (e: T) => unknown, thisArgs?: unknown) => {
+				const listener = { callback, thisArgs };
+
+				this._listeners.push(listener);
+
+				return {
+					dispose: () => {
+						const index = this._listeners.indexOf(listener);
+
+						if (index !== -1) {
+							this._listeners.splice(index, 1);
+						}
+					},
+				};
+			};
+		}
+
+		return this._event;
+	}
+
+	/**
+	 * To be kept private to fire an event to
+	 * subscribers
+	 */
+	fire(event: T): void {
+		// listeners may (un)subscribe while being called
+		const listeners = this._listeners.slice(0);
+
+		for (const listener of listeners) {
+			listener.callback.call(listener.thisArgs, event);
+		}
+	}
+
+	hasListeners(): boolean {
+		return this._listeners.length > 0;
+	}
+
+	dispose(): void {
+		this._listeners = [];
+	}
+}
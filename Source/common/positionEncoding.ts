@@ -0,0 +1,151 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { isHighSurrogate, isLowSurrogate } from "./strings";
+
+/**
+ * The unit columns are counted in, as negotiated through LSP's `positionEncoding`.
+ * The buffer itself always counts in UTF-16 code units.
+ */
+export type PositionEncodingKind = "utf-8" | "utf-16" | "utf-32";
+
+export namespace PositionEncodingKind {
+	/**
+	 * Columns count UTF-8 bytes.
+	 */
+	export const UTF8: PositionEncodingKind = "utf-8";
+	/**
+	 * Columns count UTF-16 code units.
+	 */
+	export const UTF16: PositionEncodingKind = "utf-16";
+	/**
+	 * Columns count Unicode code points.
+	 */
+	export const UTF32: PositionEncodingKind = "utf-32";
+}
+
+/**
+ * Length in `encoding` units of the character starting with `charCode`, which spans
+ * `charLength` UTF-16 code units. A lone surrogate counts as 3 UTF-8 bytes, like `getUTF8Length`.
+ */
+function getEncodedCharLength(
+	charCode: number,
+	charLength: number,
+	encoding: PositionEncodingKind,
+): number {
+	if (encoding === PositionEncodingKind.UTF32) {
+		return 1;
+	}
+
+	if (encoding === PositionEncodingKind.UTF16) {
+		return charLength;
+	}
+
+	if (charLength === 2) {
+		return 4;
+	}
+
+	if (charCode < 0x80) {
+		return 1;
+	}
+
+	if (charCode < 0x800) {
+		return 2;
+	}
+
+	// a lone surrogate encodes as U+FFFD
+	return 3;
+}
+
+function getCharLength(str: string, offset: number): number {
+	if (
+		isHighSurrogate(str.charCodeAt(offset)) &&
+		offset + 1 < str.length &&
+		isLowSurrogate(str.charCodeAt(offset + 1))
+	) {
+		return 2;
+	}
+
+	return 1;
+}
+
+/**
+ * Convert a UTF-16 `column` in `lineContent` to a column counted in `encoding` units.
+ * A column that splits a surrogate pair resolves to the start of the pair, and a column past
+ * the end of the line resolves to the end of the line.
+ */
+export function toEncodedColumn(
+	lineContent: string,
+	column: number,
+	encoding: PositionEncodingKind,
+): number {
+	const end = Math.min(Math.max(0, column - 1), lineContent.length);
+
+	if (encoding === PositionEncodingKind.UTF16) {
+		return end + 1;
+	}
+
+	let result = 0;
+
+	for (let i = 0; i < end;) {
+		const charLength = getCharLength(lineContent, i);
+
+		if (i + charLength > end) {
+			break;
+		}
+
+		result += getEncodedCharLength(
+			lineContent.charCodeAt(i),
+			charLength,
+			encoding,
+		);
+
+		i += charLength;
+	}
+
+	return result + 1;
+}
+
+/**
+ * Convert a `column` counted in `encoding` units in `lineContent` to a UTF-16 column.
+ * A column inside a multi-unit character resolves to the start of that character, and a column
+ * past the end of the line resolves to the end of the line. UTF-16 columns are only clamped,
+ * like in `toEncodedColumn`.
+ */
+export function fromEncodedColumn(
+	lineContent: string,
+	column: number,
+	encoding: PositionEncodingKind,
+): number {
+	const target = Math.max(0, column - 1);
+
+	if (encoding === PositionEncodingKind.UTF16) {
+		return Math.min(target, lineContent.length) + 1;
+	}
+
+	let units = 0;
+
+	let i = 0;
+
+	while (i < lineContent.length) {
+		const charLength = getCharLength(lineContent, i);
+
+		const unitLength = getEncodedCharLength(
+			lineContent.charCodeAt(i),
+			charLength,
+			encoding,
+		);
+
+		if (units + unitLength > target) {
+			break;
+		}
+
+		units += unitLength;
+
+		i += charLength;
+	}
+
+	return i + 1;
+}
@@ -0,0 +1,344 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharCode } from "./charCode";
+
+/**
+ * Escapes regular expression characters in a given string
+ */
+export function escapeRegExpCharacters(value: string): string {
+	return value.replace(/[\\\{\}\*\+\?\|\^\$\.\[\]\(\)]/g, "\\$&");
+}
+
+export interface RegExpOptions {
+	matchCase?: boolean;
+
+	wholeWord?: boolean;
+
+	multiline?: boolean;
+
+	global?: boolean;
+
+	unicode?: boolean;
+}
+
+export function createRegExp(
+	searchString: string,
+	isRegex: boolean,
+	options: RegExpOptions = {},
+): RegExp {
+	if (!searchString) {
+		throw new Error("Cannot create regex from empty string");
+	}
+
+	if (!isRegex) {
+		searchString = escapeRegExpCharacters(searchString);
+	}
+
+	if (options.wholeWord) {
+		if (!/\B/.test(searchString.charAt(0))) {
+			searchString = "\\b" + searchString;
+		}
+
+		if (!/\B/.test(searchString.charAt(searchString.length - 1))) {
+			searchString = searchString + "\\b";
+		}
+	}
+
+	let modifiers = "";
+
+	if (options.global) {
+		modifiers += "g";
+	}
+
+	if (!options.matchCase) {
+		modifiers += "i";
+	}
+
+	if (options.multiline) {
+		modifiers += "m";
+	}
+
+	if (options.unicode) {
+		modifiers += "u";
+	}
+
+	return new RegExp(searchString, modifiers);
+}
+
+/**
+ * See http://en.wikipedia.org/wiki/Surrogate_pair
+ */
+export function isHighSurrogate(charCode: number): boolean {
+	return 0xd800 <= charCode && charCode <= 0xdbff;
+}
+
+/**
+ * See http://en.wikipedia.org/wiki/Surrogate_pair
+ */
+export function isLowSurrogate(charCode: number): boolean {
+	return 0xdc00 <= charCode && charCode <= 0xdfff;
+}
+
+/**
+ * See http://en.wikipedia.org/wiki/Surrogate_pair
+ */
+export function computeCodePoint(
+	highSurrogate: number,
+	lowSurrogate: number,
+): number {
+	return ((highSurrogate - 0xd800) << 10) + (lowSurrogate - 0xdc00) + 0x10000;
+}
+
+/**
+ * get the code point that begins at offset `offset`
+ */
+export function getNextCodePoint(
+	str: string,
+	len: number,
+	offset: number,
+): number {
+	const charCode = str.charCodeAt(offset);
+
+	if (isHighSurrogate(charCode) && offset + 1 < len) {
+		const nextCharCode = str.charCodeAt(offset + 1);
+
+		if (isLowSurrogate(nextCharCode)) {
+			return computeCodePoint(charCode, nextCharCode);
+		}
+	}
+
+	return charCode;
+}
+
+/**
+ * Returns first index of the string that is not whitespace.
+ * If string is empty or contains only whitespaces, returns -1
+ */
+export function firstNonWhitespaceIndex(str: string): number {
+	for (let i = 0, len = str.length; i < len; i++) {
+		const chCode = str.charCodeAt(i);
+
+		if (chCode !== CharCode.Space && chCode !== CharCode.Tab) {
+			return i;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * The Grapheme_Cluster_Break property of UAX #29, as far as `breakBetweenGraphemeBreakType` uses it.
+ * Spacing marks are classified as `Extend`, since neither starts a new grapheme.
+ */
+export const enum GraphemeBreakType {
+	Other = 0,
+	Prepend = 1,
+	CR = 2,
+	LF = 3,
+	Control = 4,
+	Extend = 5,
+	RegionalIndicator = 6,
+	L = 7,
+	V = 8,
+	T = 9,
+	LV = 10,
+	LVT = 11,
+	ZWJ = 12,
+	ExtendedPictographic = 13,
+}
+
+// built at runtime: property escapes need ES2018, the target is ES2015
+const markRegex = new RegExp("^\\p{M}$", "u");
+
+const controlRegex = new RegExp("^[\\p{Cc}\\p{Cf}\\p{Zl}\\p{Zp}]$", "u");
+
+const extendedPictographicRegex = new RegExp(
+	"^\\p{Extended_Pictographic}$",
+	"u",
+);
+
+function isPrepend(codePoint: number): boolean {
+	return (
+		(codePoint >= 0x0600 && codePoint <= 0x0605) ||
+		codePoint === 0x06dd ||
+		codePoint === 0x070f ||
+		codePoint === 0x0890 ||
+		codePoint === 0x0891 ||
+		codePoint === 0x08e2 ||
+		codePoint === 0x0d4e ||
+		codePoint === 0x110bd ||
+		codePoint === 0x110cd ||
+		codePoint === 0x111c2 ||
+		codePoint === 0x111c3
+	);
+}
+
+export function getGraphemeBreakType(codePoint: number): GraphemeBreakType {
+	if (codePoint === CharCode.CarriageReturn) {
+		return GraphemeBreakType.CR;
+	}
+
+	if (codePoint === CharCode.LineFeed) {
+		return GraphemeBreakType.LF;
+	}
+
+	if (codePoint < 0x7f) {
+		return codePoint < CharCode.Space
+			? GraphemeBreakType.Control
+			: GraphemeBreakType.Other;
+	}
+
+	if (codePoint === 0x200d) {
+		return GraphemeBreakType.ZWJ;
+	}
+
+	if (codePoint >= 0x1f1e6 && codePoint <= 0x1f1ff) {
+		return GraphemeBreakType.RegionalIndicator;
+	}
+
+	if (
+		(codePoint >= 0x1100 && codePoint <= 0x115f) ||
+		(codePoint >= 0xa960 && codePoint <= 0xa97c)
+	) {
+		return GraphemeBreakType.L;
+	}
+
+	if (
+		(codePoint >= 0x1160 && codePoint <= 0x11a7) ||
+		(codePoint >= 0xd7b0 && codePoint <= 0xd7c6)
+	) {
+		return GraphemeBreakType.V;
+	}
+
+	if (
+		(codePoint >= 0x11a8 && codePoint <= 0x11ff) ||
+		(codePoint >= 0xd7cb && codePoint <= 0xd7fb)
+	) {
+		return GraphemeBreakType.T;
+	}
+
+	if (codePoint >= 0xac00 && codePoint <= 0xd7a3) {
+		return (codePoint - 0xac00) % 28 === 0
+			? GraphemeBreakType.LV
+			: GraphemeBreakType.LVT;
+	}
+
+	if (isPrepend(codePoint)) {
+		return GraphemeBreakType.Prepend;
+	}
+
+	const str = String.fromCodePoint(codePoint);
+
+	if (
+		markRegex.test(str) ||
+		codePoint === 0x200c ||
+		codePoint === 0xff9e ||
+		codePoint === 0xff9f ||
+		(codePoint >= 0x1f3fb && codePoint <= 0x1f3ff) ||
+		(codePoint >= 0xe0020 && codePoint <= 0xe007f)
+	) {
+		return GraphemeBreakType.Extend;
+	}
+
+	if (controlRegex.test(str)) {
+		return GraphemeBreakType.Control;
+	}
+
+	if (extendedPictographicRegex.test(str)) {
+		return GraphemeBreakType.ExtendedPictographic;
+	}
+
+	return GraphemeBreakType.Other;
+}
+
+/**
+ * Whether a grapheme boundary lies between two code points, judged by their pair alone.
+ * Callers apply the context of GB11 and GB12/13 themselves: `ZWJ × ExtendedPictographic` only
+ * joins after a pictograph, and regional indicators only join in pairs.
+ */
+export function breakBetweenGraphemeBreakType(
+	breakTypeA: GraphemeBreakType,
+	breakTypeB: GraphemeBreakType,
+): boolean {
+	// GB3: CR × LF
+	if (breakTypeA === GraphemeBreakType.CR) {
+		return breakTypeB !== GraphemeBreakType.LF;
+	}
+
+	// GB4 and GB5: break after and before controls
+	if (
+		breakTypeA === GraphemeBreakType.Control ||
+		breakTypeA === GraphemeBreakType.LF ||
+		breakTypeB === GraphemeBreakType.Control ||
+		breakTypeB === GraphemeBreakType.CR ||
+		breakTypeB === GraphemeBreakType.LF
+	) {
+		return true;
+	}
+
+	// GB6: L × (L | V | LV | LVT)
+	if (breakTypeA === GraphemeBreakType.L) {
+		if (
+			breakTypeB === GraphemeBreakType.L ||
+			breakTypeB === GraphemeBreakType.V ||
+			breakTypeB === GraphemeBreakType.LV ||
+			breakTypeB === GraphemeBreakType.LVT
+		) {
+			return false;
+		}
+	}
+
+	// GB7: (LV | V) × (V | T)
+	if (
+		(breakTypeA === GraphemeBreakType.LV ||
+			breakTypeA === GraphemeBreakType.V) &&
+		(breakTypeB === GraphemeBreakType.V ||
+			breakTypeB === GraphemeBreakType.T)
+	) {
+		return false;
+	}
+
+	// GB8: (LVT | T) × T
+	if (
+		(breakTypeA === GraphemeBreakType.LVT ||
+			breakTypeA === GraphemeBreakType.T) &&
+		breakTypeB === GraphemeBreakType.T
+	) {
+		return false;
+	}
+
+	// GB9 and GB9a: × (Extend | ZWJ | SpacingMark)
+	if (
+		breakTypeB === GraphemeBreakType.Extend ||
+		breakTypeB === GraphemeBreakType.ZWJ
+	) {
+		return false;
+	}
+
+	// GB9b: Prepend ×
+	if (breakTypeA === GraphemeBreakType.Prepend) {
+		return false;
+	}
+
+	// GB11: ZWJ × ExtendedPictographic
+	if (
+		breakTypeA === GraphemeBreakType.ZWJ &&
+		breakTypeB === GraphemeBreakType.ExtendedPictographic
+	) {
+		return false;
+	}
+
+	// GB12 and GB13: RegionalIndicator × RegionalIndicator
+	if (
+		breakTypeA === GraphemeBreakType.RegionalIndicator &&
+		breakTypeB === GraphemeBreakType.RegionalIndicator
+	) {
+		return false;
+	}
+
+	// GB999: break everywhere else
+	return true;
+}
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharacterClassifier } from "./characterClassifier";
+import { CharCode } from "./charCode";
+
+export const enum WordCharacterClass {
+	Regular = 0,
+	Whitespace = 1,
+	WordSeparator = 2,
+}
+
+/**
+ * The separators used when none are given: ASCII punctuation, except `_`.
+ */
+export const USUAL_WORD_SEPARATORS = "`~!@#$%^&*()-=+[{]}\\|;:'\",.<>/?";
+
+// built at runtime: property escapes need ES2018, the target is ES2015
+const unicodeWhitespaceRegex = new RegExp("^\\p{Z}$", "u");
+
+const unicodeSeparatorRegex = new RegExp("^(?!\\p{Pc})\\p{P}$", "u");
+
+export class WordCharacterClassifier extends CharacterClassifier<WordCharacterClass> {
+	constructor(wordSeparators: string) {
+		super(WordCharacterClass.Regular);
+
+		for (let i = 0, len = wordSeparators.length; i < len; i++) {
+			this.set(
+				wordSeparators.charCodeAt(i),
+				WordCharacterClass.WordSeparator,
+			);
+		}
+
+		this.set(CharCode.Space, WordCharacterClass.Whitespace);
+
+		this.set(CharCode.Tab, WordCharacterClass.Whitespace);
+	}
+
+	/**
+	 * Like `get`, but a non-ASCII code point that is not in the table is classified by its Unicode
+	 * category: spaces are whitespace, punctuation other than connectors separates words, and
+	 * letters, marks, numbers and everything else are part of words.
+	 */
+	public getCodePointClass(codePoint: number): WordCharacterClass {
+		const result = this.get(codePoint);
+
+		if (result !== WordCharacterClass.Regular || codePoint < 0x80) {
+			return result;
+		}
+
+		const str = String.fromCodePoint(codePoint);
+
+		if (unicodeWhitespaceRegex.test(str)) {
+			return WordCharacterClass.Whitespace;
+		}
+
+		if (unicodeSeparatorRegex.test(str)) {
+			return WordCharacterClass.WordSeparator;
+		}
+
+		return WordCharacterClass.Regular;
+	}
+}
+
+function once<R>(computeFn: (input: string) => R): (input: string) => R {
+	const cache: { [key: string]: R } = {}; // unbounded, but keyed by separator sets only
+
+	return (input: string): R => {
+		if (!cache.hasOwnProperty(input)) {
+			cache[input] = computeFn(input);
+		}
+
+		return cache[input];
+	};
+}
+
+export const getMapForWordSeparators = once<WordCharacterClassifier>(
+	(input) => new WordCharacterClassifier(input),
+);
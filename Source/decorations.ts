@@ -0,0 +1,376 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IDisposable } from "./common/event";
+import { Position } from "./common/position";
+import { Range } from "./common/range";
+import {
+	IntervalNode,
+	IntervalTree,
+	TrackedRangeStickiness,
+} from "./intervalTree";
+import { IModelContentChangedEvent, PieceTreeBase } from "./pieceTreeBase";
+
+export { TrackedRangeStickiness } from "./intervalTree";
+
+/**
+ * A decoration in the model.
+ */
+export interface IModelDecoration {
+	/**
+	 * Identifier for a decoration.
+	 */
+	readonly id: string;
+	/**
+	 * The range that this decoration covers.
+	 */
+	readonly range: Range;
+	/**
+	 * How the range behaves when typing at its edges.
+	 */
+	readonly stickiness: TrackedRangeStickiness;
+}
+
+/**
+ * New model decorations.
+ */
+export interface IModelDeltaDecoration {
+	/**
+	 * Range that this decoration covers.
+	 */
+	range: Range;
+	/**
+	 * Defaults to `TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges`.
+	 */
+	stickiness?: TrackedRangeStickiness;
+}
+
+/**
+ * Ranges tracked against a piece tree. Decorations are stored by offset in an interval tree
+ * and follow every insert, delete and `applyEdits` of the tree. When the tree's contents are
+ * replaced (`create`, `setEOL`), decorations keep their line/column positions where possible.
+ */
+export class DecorationsTree implements IDisposable {
+	private readonly _tree: PieceTreeBase;
+
+	private readonly _intervalTree: IntervalTree;
+
+	private readonly _decorations: Map<string, IntervalNode>;
+
+	private _lastDecorationId: number;
+
+	private _positionsBeforeFlush: Map<string, Range> | null;
+
+	private readonly _listeners: IDisposable[];
+
+	constructor(tree: PieceTreeBase) {
+		this._tree = tree;
+
+		this._intervalTree = new IntervalTree();
+
+		this._decorations = new Map<string, IntervalNode>();
+
+		this._lastDecorationId = 0;
+
+		this._positionsBeforeFlush = null;
+
+		this._listeners = [
+			tree.onWillFlush(() => this._onWillFlush()),
+			tree.onDidChangeContent((e) => this._onDidChangeContent(e)),
+		];
+	}
+
+	public dispose(): void {
+		for (const listener of this._listeners) {
+			listener.dispose();
+		}
+
+		this._listeners.length = 0;
+	}
+
+	/**
+	 * Remove `oldDecorations` and add `newDecorations`.
+	 * @returns The ids of the new decorations, in the same order as `newDecorations`.
+	 */
+	public deltaDecorations(
+		oldDecorations: string[],
+		newDecorations: IModelDeltaDecoration[],
+	): string[] {
+		for (const id of oldDecorations) {
+			this.removeDecoration(id);
+		}
+
+		let result: string[] = [];
+
+		for (const newDecoration of newDecorations) {
+			result.push(
+				this.addDecoration(
+					newDecoration.range,
+					newDecoration.stickiness,
+				),
+			);
+		}
+
+		return result;
+	}
+
+	public addDecoration(
+		range: Range,
+		stickiness: TrackedRangeStickiness = TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges,
+	): string {
+		const id = String(++this._lastDecorationId);
+
+		const node = new IntervalNode(id, 0, 0);
+
+		node.stickiness = stickiness;
+
+		this._setNodeRange(node, range);
+
+		this._intervalTree.insert(node);
+
+		this._decorations.set(id, node);
+
+		return id;
+	}
+
+	public changeDecoration(id: string, range: Range): void {
+		const node = this._decorations.get(id);
+
+		if (!node) {
+			return;
+		}
+
+		this._intervalTree.delete(node);
+
+		this._setNodeRange(node, range);
+
+		this._intervalTree.insert(node);
+	}
+
+	public removeDecoration(id: string): void {
+		const node = this._decorations.get(id);
+
+		if (!node) {
+			return;
+		}
+
+		this._intervalTree.delete(node);
+
+		this._decorations.delete(id);
+	}
+
+	public getDecorationRange(id: string): Range | null {
+		const node = this._decorations.get(id);
+
+		if (!node) {
+			return null;
+		}
+
+		const versionId = this._tree.getVersionId();
+
+		this._intervalTree.resolveNode(node, versionId);
+
+		return this._ensureNodeHasRange(node).range!;
+	}
+
+	/**
+	 * Get all decorations touching the lines `startLineNumber` to `endLineNumber` (inclusive).
+	 */
+	public getLinesDecorations(
+		startLineNumber: number,
+		endLineNumber: number,
+	): IModelDecoration[] {
+		const lineCount = this._tree.getLineCount();
+
+		startLineNumber = Math.min(lineCount, Math.max(1, startLineNumber));
+
+		endLineNumber = Math.min(lineCount, Math.max(1, endLineNumber));
+
+		return this.getDecorationsInRange(
+			new Range(
+				startLineNumber,
+				1,
+				endLineNumber,
+				this._tree.getLineLength(endLineNumber) + 1,
+			),
+		);
+	}
+
+	/**
+	 * Get all decorations intersecting or touching `range`.
+	 */
+	public getDecorationsInRange(range: Range): IModelDecoration[] {
+		range = this._validateRange(range);
+
+		const startOffset = this._tree.getOffsetAt(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		const endOffset = this._tree.getOffsetAt(
+			range.endLineNumber,
+			range.endColumn,
+		);
+
+		const versionId = this._tree.getVersionId();
+
+		return this._toDecorations(
+			this._intervalTree.intervalSearch(
+				startOffset,
+				endOffset,
+				versionId,
+			),
+		);
+	}
+
+	public getAllDecorations(): IModelDecoration[] {
+		const versionId = this._tree.getVersionId();
+
+		return this._toDecorations(this._intervalTree.search(versionId));
+	}
+
+	private _toDecorations(nodes: IntervalNode[]): IModelDecoration[] {
+		let result: IModelDecoration[] = [];
+
+		for (const node of nodes) {
+			this._ensureNodeHasRange(node);
+
+			result.push({
+				id: node.id,
+				range: node.range!,
+				stickiness: node.stickiness,
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Assumes the cached offsets of `node` are resolved for the current version.
+	 */
+	private _ensureNodeHasRange(node: IntervalNode): IntervalNode {
+		if (node.range === null) {
+			const startPosition = this._tree.getPositionAt(
+				node.cachedAbsoluteStart,
+			);
+
+			const endPosition = this._tree.getPositionAt(
+				node.cachedAbsoluteEnd,
+			);
+
+			node.range = new Range(
+				startPosition.lineNumber,
+				startPosition.column,
+				endPosition.lineNumber,
+				endPosition.column,
+			);
+		}
+
+		return node;
+	}
+
+	private _setNodeRange(node: IntervalNode, range: Range): void {
+		range = this._validateRange(range);
+
+		const startOffset = this._tree.getOffsetAt(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		const endOffset = this._tree.getOffsetAt(
+			range.endLineNumber,
+			range.endColumn,
+		);
+
+		node.reset(this._tree.getVersionId(), startOffset, endOffset, range);
+	}
+
+	private _validateRange(range: Range): Range {
+		const start = this._validatePosition(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		const end = this._validatePosition(
+			range.endLineNumber,
+			range.endColumn,
+		);
+
+		if (
+			start.lineNumber === range.startLineNumber &&
+			start.column === range.startColumn &&
+			end.lineNumber === range.endLineNumber &&
+			end.column === range.endColumn
+		) {
+			return range;
+		}
+
+		return new Range(
+			start.lineNumber,
+			start.column,
+			end.lineNumber,
+			end.column,
+		);
+	}
+
+	private _validatePosition(lineNumber: number, column: number): Position {
+		const lineCount = this._tree.getLineCount();
+
+		if (lineNumber < 1) {
+			return new Position(1, 1);
+		}
+
+		if (lineNumber > lineCount) {
+			return new Position(
+				lineCount,
+				this._tree.getLineLength(lineCount) + 1,
+			);
+		}
+
+		const maxColumn = this._tree.getLineLength(lineNumber) + 1;
+
+		return new Position(
+			lineNumber,
+			Math.min(maxColumn, Math.max(1, column)),
+		);
+	}
+
+	private _onWillFlush(): void {
+		if (this._decorations.size === 0) {
+			return;
+		}
+
+		this._positionsBeforeFlush = new Map<string, Range>();
+
+		for (const decoration of this.getAllDecorations()) {
+			this._positionsBeforeFlush.set(decoration.id, decoration.range);
+		}
+	}
+
+	private _onDidChangeContent(e: IModelContentChangedEvent): void {
+		if (e.isFlush) {
+			const positions = this._positionsBeforeFlush;
+
+			this._positionsBeforeFlush = null;
+
+			if (positions) {
+				for (const [id, range] of positions) {
+					this.changeDecoration(id, range);
+				}
+			}
+
+			return;
+		}
+
+		for (const change of e.changes) {
+			this._intervalTree.acceptReplace(
+				change.rangeOffset,
+				change.rangeLength,
+				change.text.length,
+				change.forceMoveMarkers,
+			);
+		}
+	}
+}
@@ -0,0 +1,239 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PieceTreeBase } from "./pieceTreeBase";
+
+/**
+ * Replaces `oldText` at `offset` with `newText`. Offsets are relative to the content right before the edit.
+ */
+interface SingleEdit {
+	offset: number;
+
+	oldText: string;
+
+	newText: string;
+
+	eolNormalized: boolean;
+}
+
+class EditStackElement {
+	public readonly edits: SingleEdit[];
+
+	constructor() {
+		this.edits = [];
+	}
+
+	public push(edit: SingleEdit): void {
+		const last =
+			this.edits.length > 0 ? this.edits[this.edits.length - 1] : null;
+
+		if (last && last.oldText.length === 0 && edit.oldText.length === 0) {
+			if (edit.offset === last.offset + last.newText.length) {
+				// typing
+				last.newText += edit.newText;
+
+				last.eolNormalized = last.eolNormalized && edit.eolNormalized;
+
+				return;
+			}
+		}
+
+		if (last && last.newText.length === 0 && edit.newText.length === 0) {
+			if (edit.offset + edit.oldText.length === last.offset) {
+				// backspace
+				last.offset = edit.offset;
+
+				last.oldText = edit.oldText + last.oldText;
+
+				return;
+			}
+
+			if (edit.offset === last.offset) {
+				// delete
+				last.oldText += edit.oldText;
+
+				return;
+			}
+		}
+
+		this.edits.push(edit);
+	}
+
+	public undo(tree: PieceTreeBase): void {
+		for (let i = this.edits.length - 1; i >= 0; i--) {
+			const edit = this.edits[i];
+
+			tree.delete(edit.offset, edit.newText.length);
+
+			if (edit.oldText.length > 0) {
+				// the text was in the buffer before, so it is as normalized as the buffer.
+				tree.insert(edit.offset, edit.oldText, true);
+			}
+		}
+	}
+
+	public redo(tree: PieceTreeBase): void {
+		for (let i = 0; i < this.edits.length; i++) {
+			const edit = this.edits[i];
+
+			tree.delete(edit.offset, edit.oldText.length);
+
+			if (edit.newText.length > 0) {
+				tree.insert(edit.offset, edit.newText, edit.eolNormalized);
+			}
+		}
+	}
+}
+
+/**
+ * Undo/redo history for a piece tree. Edits are grouped into one undo element until
+ * `pushStackElement` is called, and consecutive typing or deleting in an element is
+ * coalesced into a single edit.
+ *
+ * The stack records offsets, so all edits to the tree must go through it while it is in use.
+ */
+export class EditStack {
+	private readonly _tree: PieceTreeBase;
+
+	private _past: EditStackElement[];
+
+	private _future: EditStackElement[];
+
+	private _isOpen: boolean;
+
+	constructor(tree: PieceTreeBase) {
+		this._tree = tree;
+
+		this._past = [];
+
+		this._future = [];
+
+		this._isOpen = false;
+	}
+
+	public insert(
+		offset: number,
+		value: string,
+		eolNormalized: boolean = false,
+	): void {
+		if (value.length === 0) {
+			return;
+		}
+
+		this._tree.insert(offset, value, eolNormalized);
+
+		this._pushEdit({
+			offset,
+			oldText: "",
+			newText: value,
+			eolNormalized,
+		});
+	}
+
+	/**
+	 * The deleted range is clamped to the buffer, like in `PieceTreeBase.delete`.
+	 */
+	public delete(offset: number, cnt: number): void {
+		const startOffset = Math.min(
+			Math.max(0, offset),
+			this._tree.getLength(),
+		);
+
+		cnt = Math.min(offset + cnt, this._tree.getLength()) - startOffset;
+
+		offset = startOffset;
+
+		if (cnt <= 0) {
+			return;
+		}
+
+		const oldText = this._tree.getValueInRange2(
+			this._tree.nodeAt(offset),
+			this._tree.nodeAt(offset + cnt),
+		);
+
+		this._tree.delete(offset, cnt);
+
+		this._pushEdit({
+			offset,
+			oldText,
+			newText: "",
+			eolNormalized: true,
+		});
+	}
+
+	/**
+	 * Close the current undo element, the next edit starts a new one.
+	 */
+	public pushStackElement(): void {
+		this._isOpen = false;
+	}
+
+	public canUndo(): boolean {
+		return this._past.length > 0;
+	}
+
+	public canRedo(): boolean {
+		return this._future.length > 0;
+	}
+
+	/**
+	 * @returns false if there was nothing to undo.
+	 */
+	public undo(): boolean {
+		const element = this._past.pop();
+
+		if (!element) {
+			return false;
+		}
+
+		this._isOpen = false;
+
+		element.undo(this._tree);
+
+		this._future.push(element);
+
+		return true;
+	}
+
+	/**
+	 * @returns false if there was nothing to redo.
+	 */
+	public redo(): boolean {
+		const element = this._future.pop();
+
+		if (!element) {
+			return false;
+		}
+
+		this._isOpen = false;
+
+		element.redo(this._tree);
+
+		this._past.push(element);
+
+		return true;
+	}
+
+	public clear(): void {
+		this._past = [];
+
+		this._future = [];
+
+		this._isOpen = false;
+	}
+
+	private _pushEdit(edit: SingleEdit): void {
+		this._future = [];
+
+		if (!this._isOpen || this._past.length === 0) {
+			this._past.push(new EditStackElement());
+
+			this._isOpen = true;
+		}
+
+		this._past[this._past.length - 1].push(edit);
+	}
+}
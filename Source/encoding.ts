@@ -0,0 +1,326 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ITextSnapshot } from "./pieceTreeBase";
+
+export const UTF8 = "utf-8";
+
+export const UTF16LE = "utf-16le";
+
+export const UTF16BE = "utf-16be";
+
+/**
+ * Used when content without a BOM is neither UTF-16 nor valid UTF-8.
+ */
+export const DEFAULT_LEGACY_ENCODING = "windows-1252";
+
+export const enum EncodingConstants {
+	/**
+	 * Number of bytes looked at when guessing the encoding of content without a BOM.
+	 */
+	GuessSampleLength = 4096,
+	/**
+	 * Number of bytes looked at for the zero bytes of UTF-16 encoded ASCII.
+	 */
+	ZeroByteSampleLength = 512,
+}
+
+/**
+ * Multi-byte encodings `TextDecoder` can read but which `createEncodedSnapshot` cannot write.
+ */
+const unsupportedEncoders = new Set([
+	"big5",
+	"euc-jp",
+	"euc-kr",
+	"gb18030",
+	"gbk",
+	"iso-2022-jp",
+	"replacement",
+	"shift_jis",
+]);
+
+/**
+ * The canonical name of an encoding label, e.g. `utf-16le` for `UTF-16`.
+ * Throws a `RangeError` for labels `TextDecoder` does not know.
+ */
+export function getCanonicalEncoding(label: string): string {
+	return new TextDecoder(label).encoding;
+}
+
+/**
+ * The encoding announced by a byte order mark at the start of `bytes`, or `null` when there is none.
+ */
+export function detectEncodingByBOM(bytes: Uint8Array): string | null {
+	if (bytes.length >= 2) {
+		if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+			return UTF16BE;
+		}
+
+		if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+			return UTF16LE;
+		}
+	}
+
+	if (
+		bytes.length >= 3 &&
+		bytes[0] === 0xef &&
+		bytes[1] === 0xbb &&
+		bytes[2] === 0xbf
+	) {
+		return UTF8;
+	}
+
+	return null;
+}
+
+function guessUTF16ByZeroBytes(bytes: Uint8Array): string | null {
+	const len = Math.min(bytes.length, EncodingConstants.ZeroByteSampleLength);
+
+	if (len < 2) {
+		return null;
+	}
+
+	let couldBeUTF16LE = true;
+
+	let couldBeUTF16BE = true;
+
+	for (let i = 0; i < len; i++) {
+		const isOdd = i % 2 === 1;
+
+		const isZeroByte = bytes[i] === 0;
+
+		// ASCII in UTF-16LE is `c 0`, in UTF-16BE `0 c`
+		if (isOdd !== isZeroByte) {
+			couldBeUTF16LE = false;
+		}
+
+		if (isOdd === isZeroByte) {
+			couldBeUTF16BE = false;
+		}
+
+		if (!couldBeUTF16LE && !couldBeUTF16BE) {
+			return null;
+		}
+	}
+
+	return couldBeUTF16LE ? UTF16LE : UTF16BE;
+}
+
+function isValidUTF8(bytes: Uint8Array, isComplete: boolean): boolean {
+	try {
+		// `stream` accepts a sequence cut off at the end of the sample
+		new TextDecoder(UTF8, { fatal: true }).decode(bytes, {
+			stream: !isComplete,
+		});
+
+		return true;
+	} catch (err) {
+		return false;
+	}
+}
+
+/**
+ * Guess the encoding of the start of some content. A BOM wins; otherwise UTF-16 encoded ASCII
+ * and valid UTF-8 are recognised, and anything else is assumed to be `fallbackEncoding`.
+ * @param isComplete Whether `bytes` is the whole content rather than a prefix.
+ */
+export function guessEncoding(
+	bytes: Uint8Array,
+	isComplete: boolean,
+	fallbackEncoding: string = DEFAULT_LEGACY_ENCODING,
+): string {
+	const encoding = detectEncodingByBOM(bytes) || guessUTF16ByZeroBytes(bytes);
+
+	if (encoding) {
+		return encoding;
+	}
+
+	if (isValidUTF8(bytes, isComplete)) {
+		return UTF8;
+	}
+
+	return getCanonicalEncoding(fallbackEncoding);
+}
+
+/**
+ * A text snapshot encoded to bytes.
+ */
+export interface IEncodedTextSnapshot {
+	read(): Uint8Array | null;
+}
+
+/**
+ * Turns strings into bytes. A high surrogate at the end of a chunk is held back until the next one.
+ */
+abstract class TextEncoderBase {
+	private _pendingHighSurrogate: string = "";
+
+	public encode(text: string, isLast: boolean): Uint8Array {
+		text = this._pendingHighSurrogate + text;
+
+		this._pendingHighSurrogate = "";
+
+		if (!isLast && text.length > 0) {
+			const lastChar = text.charCodeAt(text.length - 1);
+
+			if (lastChar >= 0xd800 && lastChar <= 0xdbff) {
+				this._pendingHighSurrogate = text.charAt(text.length - 1);
+
+				text = text.substring(0, text.length - 1);
+			}
+		}
+
+		return this._encode(text);
+	}
+
+	protected abstract _encode(text: string): Uint8Array;
+}
+
+class UTF8Encoder extends TextEncoderBase {
+	private readonly _encoder = new TextEncoder();
+
+	protected _encode(text: string): Uint8Array {
+		return this._encoder.encode(text);
+	}
+}
+
+class UTF16Encoder extends TextEncoderBase {
+	constructor(private readonly _littleEndian: boolean) {
+		super();
+	}
+
+	protected _encode(text: string): Uint8Array {
+		const result = new Uint8Array(text.length * 2);
+
+		const view = new DataView(result.buffer);
+
+		for (let i = 0; i < text.length; i++) {
+			view.setUint16(i * 2, text.charCodeAt(i), this._littleEndian);
+		}
+
+		return result;
+	}
+}
+
+/**
+ * Encoder for single-byte encodings, built by inverting what `TextDecoder` makes of every byte.
+ * Characters the encoding cannot represent are written as `?`.
+ */
+class SingleByteEncoder extends TextEncoderBase {
+	private readonly _table: Map<number, number>;
+
+	constructor(encoding: string) {
+		super();
+
+		const decoder = new TextDecoder(encoding);
+
+		this._table = new Map<number, number>();
+
+		for (let byte = 0xff; byte >= 0; byte--) {
+			// `stream` skips a fast path in some runtimes that reads windows-1252 as latin1
+			const decoded = decoder.decode(new Uint8Array([byte]), {
+				stream: true,
+			});
+
+			if (decoded.length === 1 && decoded.charCodeAt(0) !== 0xfffd) {
+				// prefer the lowest byte when several decode to the same character
+				this._table.set(decoded.charCodeAt(0), byte);
+			}
+		}
+	}
+
+	protected _encode(text: string): Uint8Array {
+		const result = new Uint8Array(text.length);
+
+		let j = 0;
+
+		for (let i = 0; i < text.length; i++) {
+			const charCode = text.charCodeAt(i);
+
+			if (
+				charCode >= 0xd800 &&
+				charCode <= 0xdbff &&
+				i + 1 < text.length &&
+				text.charCodeAt(i + 1) >= 0xdc00 &&
+				text.charCodeAt(i + 1) <= 0xdfff
+			) {
+				// one replacement for the whole pair
+				i++;
+			}
+
+			const byte = this._table.get(charCode);
+
+			result[j++] = byte === undefined ? 0x3f /* ? */ : byte;
+		}
+
+		return result.subarray(0, j);
+	}
+}
+
+function createEncoder(encoding: string): TextEncoderBase {
+	encoding = getCanonicalEncoding(encoding);
+
+	if (encoding === UTF8) {
+		return new UTF8Encoder();
+	}
+
+	if (encoding === UTF16LE || encoding === UTF16BE) {
+		return new UTF16Encoder(encoding === UTF16LE);
+	}
+
+	if (unsupportedEncoders.has(encoding)) {
+		throw new Error(`Writing ${encoding} is not supported`);
+	}
+
+	return new SingleByteEncoder(encoding);
+}
+
+class EncodedTextSnapshot implements IEncodedTextSnapshot {
+	private readonly _encoder: TextEncoderBase;
+
+	private _done: boolean;
+
+	constructor(
+		private readonly _snapshot: ITextSnapshot,
+		encoding: string,
+	) {
+		this._encoder = createEncoder(encoding);
+
+		this._done = false;
+	}
+
+	public read(): Uint8Array | null {
+		while (!this._done) {
+			const text = this._snapshot.read();
+
+			if (text === null) {
+				this._done = true;
+
+				const rest = this._encoder.encode("", true);
+
+				return rest.length > 0 ? rest : null;
+			}
+
+			const bytes = this._encoder.encode(text, false);
+
+			if (bytes.length > 0) {
+				return bytes;
+			}
+		}
+
+		return null;
+	}
+}
+
+/**
+ * Encode `snapshot` to bytes in `encoding`. Pass the BOM recorded by the factory to
+ * `createSnapshot` to write a file back in the form it was read.
+ */
+export function createEncodedSnapshot(
+	snapshot: ITextSnapshot,
+	encoding: string,
+): IEncodedTextSnapshot {
+	return new EncodedTextSnapshot(snapshot, encoding);
+}
@@ -0,0 +1,283 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharCode } from "./common/charCode";
+
+/**
+ * Lines to guess the indentation from.
+ */
+export interface IIndentationSource {
+	getLineCount(): number;
+	/**
+	 * @param lineNumber 1 based
+	 */
+	getLineContent(lineNumber: number): string;
+}
+
+export interface IGuessedIndentation {
+	/**
+	 * Tab size in spaces.
+	 */
+	tabSize: number;
+	/**
+	 * Whether to insert spaces when pressing Tab.
+	 */
+	insertSpaces: boolean;
+}
+
+export const enum IndentationGuesserConstants {
+	/**
+	 * Look at most at the first 10k lines.
+	 */
+	MaxLineCount = 10000,
+	MaxAllowedTabSizeGuess = 8,
+}
+
+const ALLOWED_TAB_SIZE_GUESSES = [2, 4, 6, 8, 3, 5, 7];
+
+class SpacesDiffResult {
+	public spacesDiff: number = 0;
+
+	public looksLikeAlignment: boolean = false;
+}
+
+/**
+ * Compute the diff in spaces between two line's indentation.
+ */
+function spacesDiff(
+	a: string,
+	aLength: number,
+	b: string,
+	bLength: number,
+	result: SpacesDiffResult,
+): void {
+	result.spacesDiff = 0;
+
+	result.looksLikeAlignment = false;
+
+	// This can go both ways (e.g.):
+	//  - a: "\t"
+	//  - b: "\t    "
+	//  => This should count 1 tab and 4 spaces
+
+	let i: number;
+
+	for (i = 0; i < aLength && i < bLength; i++) {
+		if (a.charCodeAt(i) !== b.charCodeAt(i)) {
+			break;
+		}
+	}
+
+	let aSpacesCnt = 0,
+		aTabsCount = 0;
+
+	for (let j = i; j < aLength; j++) {
+		if (a.charCodeAt(j) === CharCode.Space) {
+			aSpacesCnt++;
+		} else {
+			aTabsCount++;
+		}
+	}
+
+	let bSpacesCnt = 0,
+		bTabsCount = 0;
+
+	for (let j = i; j < bLength; j++) {
+		if (b.charCodeAt(j) === CharCode.Space) {
+			bSpacesCnt++;
+		} else {
+			bTabsCount++;
+		}
+	}
+
+	if (aSpacesCnt > 0 && aTabsCount > 0) {
+		return;
+	}
+
+	if (bSpacesCnt > 0 && bTabsCount > 0) {
+		return;
+	}
+
+	const tabsDiff = Math.abs(aTabsCount - bTabsCount);
+
+	const spacesDiff = Math.abs(aSpacesCnt - bSpacesCnt);
+
+	if (tabsDiff === 0) {
+		// check if the indentation difference might be caused by alignment reasons
+		// sometime folks like to align their code, but this should not be used as a hint
+		result.spacesDiff = spacesDiff;
+
+		if (
+			spacesDiff > 0 &&
+			0 <= bSpacesCnt - 1 &&
+			bSpacesCnt - 1 < a.length &&
+			bSpacesCnt < b.length
+		) {
+			if (
+				b.charCodeAt(bSpacesCnt) !== CharCode.Space &&
+				a.charCodeAt(bSpacesCnt - 1) === CharCode.Space
+			) {
+				if (a.charCodeAt(a.length - 1) === CharCode.Comma) {
+					// This looks like an alignment desire: e.g.
+					// const a = b + c,
+					//       d = 4;
+					result.looksLikeAlignment = true;
+				}
+			}
+		}
+
+		return;
+	}
+
+	if (spacesDiff % tabsDiff === 0) {
+		result.spacesDiff = spacesDiff / tabsDiff;
+
+		return;
+	}
+}
+
+/**
+ * Guess whether `source` is indented with tabs or spaces, and the tab size when it uses spaces,
+ * from the indentation deltas between consecutive non-blank lines.
+ */
+export function guessIndentation(
+	source: IIndentationSource,
+	defaultTabSize: number,
+	defaultInsertSpaces: boolean,
+): IGuessedIndentation {
+	const linesCount = Math.min(
+		source.getLineCount(),
+		IndentationGuesserConstants.MaxLineCount,
+	);
+
+	let linesIndentedWithTabsCount = 0; // number of lines that contain at least one tab in indentation
+
+	let linesIndentedWithSpacesCount = 0; // number of lines that contain only spaces in indentation
+
+	let previousLineText = ""; // content of latest line that contained non-whitespace chars
+
+	let previousLineIndentation = 0; // index at which latest line contained the first non-whitespace char
+
+	const spacesDiffCount = [0, 0, 0, 0, 0, 0, 0, 0, 0]; // `tabSize` scores
+
+	const tmp = new SpacesDiffResult();
+
+	for (let lineNumber = 1; lineNumber <= linesCount; lineNumber++) {
+		const currentLineText = source.getLineContent(lineNumber);
+
+		let currentLineHasContent = false; // does `currentLineText` contain non-whitespace chars
+
+		let currentLineIndentation = 0; // index at which `currentLineText` contains the first non-whitespace char
+
+		let currentLineSpacesCount = 0; // count of spaces found in `currentLineText` indentation
+
+		let currentLineTabsCount = 0; // count of tabs found in `currentLineText` indentation
+
+		for (let j = 0, lenJ = currentLineText.length; j < lenJ; j++) {
+			const charCode = currentLineText.charCodeAt(j);
+
+			if (charCode === CharCode.Tab) {
+				currentLineTabsCount++;
+			} else if (charCode === CharCode.Space) {
+				currentLineSpacesCount++;
+			} else {
+				// Hit non whitespace character on this line
+				currentLineHasContent = true;
+
+				currentLineIndentation = j;
+
+				break;
+			}
+		}
+
+		// Ignore empty or only whitespace lines
+		if (!currentLineHasContent) {
+			continue;
+		}
+
+		if (currentLineTabsCount > 0) {
+			linesIndentedWithTabsCount++;
+		} else if (currentLineSpacesCount > 1) {
+			linesIndentedWithSpacesCount++;
+		}
+
+		spacesDiff(
+			previousLineText,
+			previousLineIndentation,
+			currentLineText,
+			currentLineIndentation,
+			tmp,
+		);
+
+		if (tmp.looksLikeAlignment) {
+			// if defaultInsertSpaces === true && the spaces count == tabSize, we may want to count it as valid indentation
+			//
+			// - item1
+			//   - item2
+			//
+			// otherwise skip this line entirely
+			//
+			// const a = 1,
+			//       b = 2;
+
+			if (!(defaultInsertSpaces && defaultTabSize === tmp.spacesDiff)) {
+				continue;
+			}
+		}
+
+		const currentSpacesDiff = tmp.spacesDiff;
+
+		if (
+			currentSpacesDiff <=
+			IndentationGuesserConstants.MaxAllowedTabSizeGuess
+		) {
+			spacesDiffCount[currentSpacesDiff]++;
+		}
+
+		previousLineText = currentLineText;
+
+		previousLineIndentation = currentLineIndentation;
+	}
+
+	let insertSpaces = defaultInsertSpaces;
+
+	if (linesIndentedWithTabsCount !== linesIndentedWithSpacesCount) {
+		insertSpaces =
+			linesIndentedWithTabsCount < linesIndentedWithSpacesCount;
+	}
+
+	let tabSize = defaultTabSize;
+
+	// Guess tabSize only if inserting spaces...
+	if (insertSpaces) {
+		let tabSizeScore = 0;
+
+		for (const possibleTabSize of ALLOWED_TAB_SIZE_GUESSES) {
+			const possibleTabSizeScore = spacesDiffCount[possibleTabSize];
+
+			if (possibleTabSizeScore > tabSizeScore) {
+				tabSizeScore = possibleTabSizeScore;
+
+				tabSize = possibleTabSize;
+			}
+		}
+
+		// Let a tabSize of 2 win even if it is not the maximum
+		// (only in case 4 was guessed)
+		if (
+			tabSize === 4 &&
+			spacesDiffCount[4] > 0 &&
+			spacesDiffCount[2] > 0 &&
+			spacesDiffCount[2] >= spacesDiffCount[4] / 2
+		) {
+			tabSize = 2;
+		}
+	}
+
+	return {
+		insertSpaces,
+		tabSize,
+	};
+}
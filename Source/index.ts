@@ -1,3 +1,19 @@
 export * from "./pieceTreeBase";
 
 export * from "./pieceTreeBuilder";
+
+export * from "./textModelSearch";
+
+export * from "./editStack";
+
+export * from "./decorations";
+
+export * from "./bracketPairs";
+
+export * from "./encoding";
+
+export * from "./indentationGuesser";
+
+export * from "./wordOperations";
+
+export { PositionEncodingKind } from "./common/positionEncoding";
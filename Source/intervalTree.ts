@@ -0,0 +1,1476 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "./common/range";
+
+/**
+ * Describes the behavior of decorations when typing/editing near their edges.
+ */
+export const enum TrackedRangeStickiness {
+	AlwaysGrowsWhenTypingAtEdges = 0,
+	NeverGrowsWhenTypingAtEdges = 1,
+	GrowsOnlyWhenTypingBefore = 2,
+	GrowsOnlyWhenTypingAfter = 3,
+}
+
+export const enum NodeColor {
+	Black = 0,
+	Red = 1,
+}
+
+const enum Constants {
+	/**
+	 * Deltas are normalized when they get close to the int range, see `requestNormalizeDelta`.
+	 */
+	MIN_SAFE_DELTA = -(1 << 30),
+	MAX_SAFE_DELTA = 1 << 30,
+}
+
+export class IntervalNode {
+	parent: IntervalNode;
+
+	left: IntervalNode;
+
+	right: IntervalNode;
+
+	color: NodeColor;
+
+	isVisited: boolean;
+
+	start: number; // relative to the deltas of the ancestors this node is in the right subtree of
+	end: number;
+
+	delta: number; // added to every node in the right subtree
+	maxEnd: number; // max end in this subtree, relative like `end`
+
+	id: string;
+
+	stickiness: TrackedRangeStickiness;
+
+	cachedVersionId: number;
+
+	cachedAbsoluteStart: number;
+
+	cachedAbsoluteEnd: number;
+
+	range: Range | null;
+
+	constructor(id: string, start: number, end: number) {
+		this.parent = this;
+
+		this.left = this;
+
+		this.right = this;
+
+		this.color = NodeColor.Red;
+
+		this.isVisited = false;
+
+		this.start = start;
+
+		this.end = end;
+
+		this.delta = 0;
+
+		this.maxEnd = end;
+
+		this.id = id;
+
+		this.stickiness = TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges;
+
+		this.cachedVersionId = 0;
+
+		this.cachedAbsoluteStart = start;
+
+		this.cachedAbsoluteEnd = end;
+
+		this.range = null;
+	}
+
+	public reset(
+		versionId: number,
+		start: number,
+		end: number,
+		range: Range,
+	): void {
+		this.start = start;
+
+		this.end = end;
+
+		this.maxEnd = end;
+
+		this.cachedVersionId = versionId;
+
+		this.cachedAbsoluteStart = start;
+
+		this.cachedAbsoluteEnd = end;
+
+		this.range = range;
+	}
+
+	public setCachedOffsets(
+		absoluteStart: number,
+		absoluteEnd: number,
+		cachedVersionId: number,
+	): void {
+		if (this.cachedVersionId !== cachedVersionId) {
+			this.range = null;
+		}
+
+		this.cachedVersionId = cachedVersionId;
+
+		this.cachedAbsoluteStart = absoluteStart;
+
+		this.cachedAbsoluteEnd = absoluteEnd;
+	}
+
+	public detach(): void {
+		this.parent = null!;
+
+		this.left = null!;
+
+		this.right = null!;
+	}
+}
+
+/**
+ * The leaf of every tree. It is shared by all trees and never written to, so it is frozen to
+ * make a write throw instead of leaking state from one tree into another.
+ */
+export const SENTINEL: IntervalNode = Object.freeze(createSentinel());
+
+function createSentinel(): IntervalNode {
+	const sentinel = new IntervalNode(null!, 0, 0);
+
+	sentinel.color = NodeColor.Black;
+
+	return sentinel;
+}
+
+export class IntervalTree {
+	public root: IntervalNode;
+
+	public requestNormalizeDelta: boolean;
+
+	constructor() {
+		this.root = SENTINEL;
+
+		this.requestNormalizeDelta = false;
+	}
+
+	public intervalSearch(
+		start: number,
+		end: number,
+		cachedVersionId: number,
+	): IntervalNode[] {
+		if (this.root === SENTINEL) {
+			return [];
+		}
+
+		return intervalSearch(this, start, end, cachedVersionId);
+	}
+
+	public search(cachedVersionId: number): IntervalNode[] {
+		if (this.root === SENTINEL) {
+			return [];
+		}
+
+		return search(this, cachedVersionId);
+	}
+
+	/**
+	 * Will not set `cachedAbsoluteStart` nor `cachedAbsoluteEnd` on the returned nodes!
+	 */
+	public collectNodesPostOrder(): IntervalNode[] {
+		return collectNodesPostOrder(this);
+	}
+
+	public insert(node: IntervalNode): void {
+		rbTreeInsert(this, node);
+
+		this._normalizeDeltaIfNecessary();
+	}
+
+	public delete(node: IntervalNode): void {
+		rbTreeDelete(this, node);
+
+		this._normalizeDeltaIfNecessary();
+	}
+
+	public resolveNode(node: IntervalNode, cachedVersionId: number): void {
+		const initialNode = node;
+
+		let delta = 0;
+
+		while (node !== this.root) {
+			if (node === node.parent.right) {
+				delta += node.parent.delta;
+			}
+
+			node = node.parent;
+		}
+
+		const nodeStart = initialNode.start + delta;
+
+		const nodeEnd = initialNode.end + delta;
+
+		initialNode.setCachedOffsets(nodeStart, nodeEnd, cachedVersionId);
+	}
+
+	public acceptReplace(
+		offset: number,
+		length: number,
+		textLength: number,
+		forceMoveMarkers: boolean,
+	): void {
+		// Our strategy is to remove all directly impacted nodes, and then add them back to the tree.
+
+		// (1) collect all nodes that are intersecting this edit as nodes of interest
+		const nodesOfInterest = searchForEditing(this, offset, offset + length);
+
+		// (2) remove all nodes that are intersecting this edit
+		for (let i = 0, len = nodesOfInterest.length; i < len; i++) {
+			const node = nodesOfInterest[i];
+
+			rbTreeDelete(this, node);
+		}
+
+		this._normalizeDeltaIfNecessary();
+
+		// (3) edit all tree nodes except the nodes of interest
+		noOverlapReplace(this, offset, offset + length, textLength);
+
+		this._normalizeDeltaIfNecessary();
+
+		// (4) edit the nodes of interest and insert them back in the tree
+		for (let i = 0, len = nodesOfInterest.length; i < len; i++) {
+			const node = nodesOfInterest[i];
+
+			node.start = node.cachedAbsoluteStart;
+
+			node.end = node.cachedAbsoluteEnd;
+
+			nodeAcceptEdit(
+				node,
+				offset,
+				offset + length,
+				textLength,
+				forceMoveMarkers,
+			);
+
+			node.maxEnd = node.end;
+
+			rbTreeInsert(this, node);
+		}
+
+		this._normalizeDeltaIfNecessary();
+	}
+
+	private _normalizeDeltaIfNecessary(): void {
+		if (!this.requestNormalizeDelta) {
+			return;
+		}
+
+		this.requestNormalizeDelta = false;
+
+		normalizeDelta(this);
+	}
+}
+
+// #region Delta Normalization
+/**
+ * The SENTINEL is frozen and never marked as visited, so it is skipped.
+ */
+function clearVisited(node: IntervalNode): void {
+	if (node !== SENTINEL) {
+		node.isVisited = false;
+	}
+}
+
+function normalizeDelta(T: IntervalTree): void {
+	let node = T.root;
+
+	let delta = 0;
+
+	while (node !== SENTINEL) {
+		if (node.left !== SENTINEL && !node.left.isVisited) {
+			// go left
+			node = node.left;
+
+			continue;
+		}
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			delta += node.delta;
+
+			node = node.right;
+
+			continue;
+		}
+
+		// handle current node
+		node.start = delta + node.start;
+
+		node.end = delta + node.end;
+
+		node.delta = 0;
+
+		recomputeMaxEnd(node);
+
+		node.isVisited = true;
+
+		// going up from this node
+		clearVisited(node.left);
+
+		clearVisited(node.right);
+
+		if (node === node.parent.right) {
+			delta -= node.parent.delta;
+		}
+
+		node = node.parent;
+	}
+
+	clearVisited(T.root);
+}
+// #endregion
+
+// #region Editing
+const enum MarkerMoveSemantics {
+	MarkerDefined = 0,
+	ForceMove = 1,
+	ForceStay = 2,
+}
+
+function adjustMarkerBeforeColumn(
+	markerOffset: number,
+	markerStickToPreviousCharacter: boolean,
+	checkOffset: number,
+	moveSemantics: MarkerMoveSemantics,
+): boolean {
+	if (markerOffset < checkOffset) {
+		return true;
+	}
+
+	if (markerOffset > checkOffset) {
+		return false;
+	}
+
+	if (moveSemantics === MarkerMoveSemantics.ForceMove) {
+		return false;
+	}
+
+	if (moveSemantics === MarkerMoveSemantics.ForceStay) {
+		return true;
+	}
+
+	return markerStickToPreviousCharacter;
+}
+
+/**
+ * This is a lot more complicated than strictly necessary to maintain the same behaviour
+ * as when decorations were implemented using two markers.
+ */
+export function nodeAcceptEdit(
+	node: IntervalNode,
+	start: number,
+	end: number,
+	textLength: number,
+	forceMoveMarkers: boolean,
+): void {
+	const nodeStickiness = node.stickiness;
+
+	const startStickToPreviousCharacter =
+		nodeStickiness ===
+			TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges ||
+		nodeStickiness === TrackedRangeStickiness.GrowsOnlyWhenTypingBefore;
+
+	const endStickToPreviousCharacter =
+		nodeStickiness === TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges ||
+		nodeStickiness === TrackedRangeStickiness.GrowsOnlyWhenTypingBefore;
+
+	const deletingCnt = end - start;
+
+	const insertingCnt = textLength;
+
+	const commonLength = Math.min(deletingCnt, insertingCnt);
+
+	const nodeStart = node.start;
+
+	let startDone = false;
+
+	const nodeEnd = node.end;
+
+	let endDone = false;
+
+	{
+		const moveSemantics = forceMoveMarkers
+			? MarkerMoveSemantics.ForceMove
+			: deletingCnt > 0
+				? MarkerMoveSemantics.ForceStay
+				: MarkerMoveSemantics.MarkerDefined;
+
+		if (
+			!startDone &&
+			adjustMarkerBeforeColumn(
+				nodeStart,
+				startStickToPreviousCharacter,
+				start,
+				moveSemantics,
+			)
+		) {
+			startDone = true;
+		}
+
+		if (
+			!endDone &&
+			adjustMarkerBeforeColumn(
+				nodeEnd,
+				endStickToPreviousCharacter,
+				start,
+				moveSemantics,
+			)
+		) {
+			endDone = true;
+		}
+	}
+
+	if (commonLength > 0 && !forceMoveMarkers) {
+		const moveSemantics =
+			deletingCnt > insertingCnt
+				? MarkerMoveSemantics.ForceStay
+				: MarkerMoveSemantics.MarkerDefined;
+
+		if (
+			!startDone &&
+			adjustMarkerBeforeColumn(
+				nodeStart,
+				startStickToPreviousCharacter,
+				start + commonLength,
+				moveSemantics,
+			)
+		) {
+			startDone = true;
+		}
+
+		if (
+			!endDone &&
+			adjustMarkerBeforeColumn(
+				nodeEnd,
+				endStickToPreviousCharacter,
+				start + commonLength,
+				moveSemantics,
+			)
+		) {
+			endDone = true;
+		}
+	}
+
+	{
+		const moveSemantics = forceMoveMarkers
+			? MarkerMoveSemantics.ForceMove
+			: MarkerMoveSemantics.MarkerDefined;
+
+		if (
+			!startDone &&
+			adjustMarkerBeforeColumn(
+				nodeStart,
+				startStickToPreviousCharacter,
+				end,
+				moveSemantics,
+			)
+		) {
+			node.start = start + insertingCnt;
+
+			startDone = true;
+		}
+
+		if (
+			!endDone &&
+			adjustMarkerBeforeColumn(
+				nodeEnd,
+				endStickToPreviousCharacter,
+				end,
+				moveSemantics,
+			)
+		) {
+			node.end = start + insertingCnt;
+
+			endDone = true;
+		}
+	}
+
+	// Finish
+	const deltaColumn = insertingCnt - deletingCnt;
+
+	if (!startDone) {
+		node.start = Math.max(0, nodeStart + deltaColumn);
+	}
+
+	if (!endDone) {
+		node.end = Math.max(0, nodeEnd + deltaColumn);
+	}
+
+	if (node.start > node.end) {
+		node.end = node.start;
+	}
+}
+
+function searchForEditing(
+	T: IntervalTree,
+	start: number,
+	end: number,
+): IntervalNode[] {
+	// https://en.wikipedia.org/wiki/Interval_tree#Augmented_tree
+	// Now, it is known that two intervals A and B overlap only when both
+	// A.low <= B.high and A.high >= B.low. When searching the trees for
+	// nodes overlapping with a given interval, you can immediately skip:
+	//  a) all nodes to the right of nodes whose low value is past the end of the given interval.
+	//  b) all nodes that have their maximum 'high' value below the start of the given interval.
+	let node = T.root;
+
+	let delta = 0;
+
+	let nodeMaxEnd = 0;
+
+	let nodeStart = 0;
+
+	let nodeEnd = 0;
+
+	let result: IntervalNode[] = [];
+
+	let resultLen = 0;
+
+	while (node !== SENTINEL) {
+		if (node.isVisited) {
+			// going up from this node
+			clearVisited(node.left);
+
+			clearVisited(node.right);
+
+			if (node === node.parent.right) {
+				delta -= node.parent.delta;
+			}
+
+			node = node.parent;
+
+			continue;
+		}
+
+		if (!node.left.isVisited) {
+			// first time seeing this node
+			nodeMaxEnd = delta + node.maxEnd;
+
+			if (nodeMaxEnd < start) {
+				// cover case b) from above
+				// there is no need to search this node or its children
+				node.isVisited = true;
+
+				continue;
+			}
+
+			if (node.left !== SENTINEL) {
+				// go left
+				node = node.left;
+
+				continue;
+			}
+		}
+
+		// handle current node
+		nodeStart = delta + node.start;
+
+		if (nodeStart > end) {
+			// cover case a) from above
+			// there is no need to search this node or its right subtree
+			node.isVisited = true;
+
+			continue;
+		}
+
+		nodeEnd = delta + node.end;
+
+		if (nodeEnd >= start) {
+			node.setCachedOffsets(nodeStart, nodeEnd, 0);
+
+			result[resultLen++] = node;
+		}
+
+		node.isVisited = true;
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			delta += node.delta;
+
+			node = node.right;
+
+			continue;
+		}
+	}
+
+	clearVisited(T.root);
+
+	return result;
+}
+
+function noOverlapReplace(
+	T: IntervalTree,
+	start: number,
+	end: number,
+	textLength: number,
+): void {
+	// https://en.wikipedia.org/wiki/Interval_tree#Augmented_tree
+	// Now, it is known that two intervals A and B overlap only when both
+	// A.low <= B.high and A.high >= B.low. When searching the trees for
+	// nodes overlapping with a given interval, you can immediately skip:
+	//  a) all nodes to the right of nodes whose low value is past the end of the given interval.
+	//  b) all nodes that have their maximum 'high' value below the start of the given interval.
+	let node = T.root;
+
+	let delta = 0;
+
+	let nodeMaxEnd = 0;
+
+	let nodeStart = 0;
+
+	const editDelta = textLength - (end - start);
+
+	while (node !== SENTINEL) {
+		if (node.isVisited) {
+			// going up from this node
+			clearVisited(node.left);
+
+			clearVisited(node.right);
+
+			if (node === node.parent.right) {
+				delta -= node.parent.delta;
+			}
+
+			recomputeMaxEnd(node);
+
+			node = node.parent;
+
+			continue;
+		}
+
+		if (!node.left.isVisited) {
+			// first time seeing this node
+			nodeMaxEnd = delta + node.maxEnd;
+
+			if (nodeMaxEnd < start) {
+				// cover case b) from above
+				// there is no need to search this node or its children
+				node.isVisited = true;
+
+				continue;
+			}
+
+			if (node.left !== SENTINEL) {
+				// go left
+				node = node.left;
+
+				continue;
+			}
+		}
+
+		// handle current node
+		nodeStart = delta + node.start;
+
+		if (nodeStart > end) {
+			node.start += editDelta;
+
+			node.end += editDelta;
+
+			node.delta += editDelta;
+
+			if (
+				node.delta < Constants.MIN_SAFE_DELTA ||
+				node.delta > Constants.MAX_SAFE_DELTA
+			) {
+				T.requestNormalizeDelta = true;
+			}
+			// cover case a) from above
+			// there is no need to search this node or its right subtree
+			node.isVisited = true;
+
+			continue;
+		}
+
+		node.isVisited = true;
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			delta += node.delta;
+
+			node = node.right;
+
+			continue;
+		}
+	}
+
+	clearVisited(T.root);
+}
+// #endregion
+
+// #region Searching
+function collectNodesPostOrder(T: IntervalTree): IntervalNode[] {
+	let node = T.root;
+
+	let result: IntervalNode[] = [];
+
+	let resultLen = 0;
+
+	while (node !== SENTINEL) {
+		if (node.isVisited) {
+			// going up from this node
+			clearVisited(node.left);
+
+			clearVisited(node.right);
+
+			node = node.parent;
+
+			continue;
+		}
+
+		if (node.left !== SENTINEL && !node.left.isVisited) {
+			// go left
+			node = node.left;
+
+			continue;
+		}
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			node = node.right;
+
+			continue;
+		}
+
+		// handle current node
+		result[resultLen++] = node;
+
+		node.isVisited = true;
+	}
+
+	clearVisited(T.root);
+
+	return result;
+}
+
+function search(T: IntervalTree, cachedVersionId: number): IntervalNode[] {
+	let node = T.root;
+
+	let delta = 0;
+
+	let nodeStart = 0;
+
+	let nodeEnd = 0;
+
+	let result: IntervalNode[] = [];
+
+	let resultLen = 0;
+
+	while (node !== SENTINEL) {
+		if (node.isVisited) {
+			// going up from this node
+			clearVisited(node.left);
+
+			clearVisited(node.right);
+
+			if (node === node.parent.right) {
+				delta -= node.parent.delta;
+			}
+
+			node = node.parent;
+
+			continue;
+		}
+
+		if (node.left !== SENTINEL && !node.left.isVisited) {
+			// go left
+			node = node.left;
+
+			continue;
+		}
+
+		// handle current node
+		nodeStart = delta + node.start;
+
+		nodeEnd = delta + node.end;
+
+		node.setCachedOffsets(nodeStart, nodeEnd, cachedVersionId);
+
+		result[resultLen++] = node;
+
+		node.isVisited = true;
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			delta += node.delta;
+
+			node = node.right;
+
+			continue;
+		}
+	}
+
+	clearVisited(T.root);
+
+	return result;
+}
+
+function intervalSearch(
+	T: IntervalTree,
+	intervalStart: number,
+	intervalEnd: number,
+	cachedVersionId: number,
+): IntervalNode[] {
+	// https://en.wikipedia.org/wiki/Interval_tree#Augmented_tree
+	// Now, it is known that two intervals A and B overlap only when both
+	// A.low <= B.high and A.high >= B.low. When searching the trees for
+	// nodes overlapping with a given interval, you can immediately skip:
+	//  a) all nodes to the right of nodes whose low value is past the end of the given interval.
+	//  b) all nodes that have their maximum 'high' value below the start of the given interval.
+	let node = T.root;
+
+	let delta = 0;
+
+	let nodeMaxEnd = 0;
+
+	let nodeStart = 0;
+
+	let nodeEnd = 0;
+
+	let result: IntervalNode[] = [];
+
+	let resultLen = 0;
+
+	while (node !== SENTINEL) {
+		if (node.isVisited) {
+			// going up from this node
+			clearVisited(node.left);
+
+			clearVisited(node.right);
+
+			if (node === node.parent.right) {
+				delta -= node.parent.delta;
+			}
+
+			node = node.parent;
+
+			continue;
+		}
+
+		if (!node.left.isVisited) {
+			// first time seeing this node
+			nodeMaxEnd = delta + node.maxEnd;
+
+			if (nodeMaxEnd < intervalStart) {
+				// cover case b) from above
+				// there is no need to search this node or its children
+				node.isVisited = true;
+
+				continue;
+			}
+
+			if (node.left !== SENTINEL) {
+				// go left
+				node = node.left;
+
+				continue;
+			}
+		}
+
+		// handle current node
+		nodeStart = delta + node.start;
+
+		if (nodeStart > intervalEnd) {
+			// cover case a) from above
+			// there is no need to search this node or its right subtree
+			node.isVisited = true;
+
+			continue;
+		}
+
+		nodeEnd = delta + node.end;
+
+		if (nodeEnd >= intervalStart) {
+			// There is overlap
+			node.setCachedOffsets(nodeStart, nodeEnd, cachedVersionId);
+
+			result[resultLen++] = node;
+		}
+
+		node.isVisited = true;
+
+		if (node.right !== SENTINEL && !node.right.isVisited) {
+			// go right
+			delta += node.delta;
+
+			node = node.right;
+
+			continue;
+		}
+	}
+
+	clearVisited(T.root);
+
+	return result;
+}
+// #endregion
+
+// #region Insertion
+function rbTreeInsert(T: IntervalTree, newNode: IntervalNode): IntervalNode {
+	if (T.root === SENTINEL) {
+		newNode.parent = SENTINEL;
+
+		newNode.left = SENTINEL;
+
+		newNode.right = SENTINEL;
+
+		newNode.color = NodeColor.Black;
+
+		T.root = newNode;
+
+		return T.root;
+	}
+
+	treeInsert(T, newNode);
+
+	recomputeMaxEndWalkToRoot(newNode.parent);
+
+	// repair tree
+	let x = newNode;
+
+	while (x !== T.root && x.parent.color === NodeColor.Red) {
+		if (x.parent === x.parent.parent.left) {
+			const y = x.parent.parent.right;
+
+			if (y.color === NodeColor.Red) {
+				x.parent.color = NodeColor.Black;
+
+				y.color = NodeColor.Black;
+
+				x.parent.parent.color = NodeColor.Red;
+
+				x = x.parent.parent;
+			} else {
+				if (x === x.parent.right) {
+					x = x.parent;
+
+					leftRotate(T, x);
+				}
+
+				x.parent.color = NodeColor.Black;
+
+				x.parent.parent.color = NodeColor.Red;
+
+				rightRotate(T, x.parent.parent);
+			}
+		} else {
+			const y = x.parent.parent.left;
+
+			if (y.color === NodeColor.Red) {
+				x.parent.color = NodeColor.Black;
+
+				y.color = NodeColor.Black;
+
+				x.parent.parent.color = NodeColor.Red;
+
+				x = x.parent.parent;
+			} else {
+				if (x === x.parent.left) {
+					x = x.parent;
+
+					rightRotate(T, x);
+				}
+
+				x.parent.color = NodeColor.Black;
+
+				x.parent.parent.color = NodeColor.Red;
+
+				leftRotate(T, x.parent.parent);
+			}
+		}
+	}
+
+	T.root.color = NodeColor.Black;
+
+	return newNode;
+}
+
+function treeInsert(T: IntervalTree, z: IntervalNode): void {
+	let delta: number = 0;
+
+	let x = T.root;
+
+	const zAbsoluteStart = z.start;
+
+	const zAbsoluteEnd = z.end;
+
+	while (true) {
+		const cmp = intervalCompare(
+			zAbsoluteStart,
+			zAbsoluteEnd,
+			x.start + delta,
+			x.end + delta,
+		);
+
+		if (cmp < 0) {
+			// this node should be inserted to the left
+			// => it is not affected by the node's delta
+			if (x.left === SENTINEL) {
+				z.start -= delta;
+
+				z.end -= delta;
+
+				z.maxEnd -= delta;
+
+				x.left = z;
+
+				break;
+			} else {
+				x = x.left;
+			}
+		} else {
+			// this node should be inserted to the right
+			// => it is affected by the node's delta
+			if (x.right === SENTINEL) {
+				z.start -= delta + x.delta;
+
+				z.end -= delta + x.delta;
+
+				z.maxEnd -= delta + x.delta;
+
+				x.right = z;
+
+				break;
+			} else {
+				delta += x.delta;
+
+				x = x.right;
+			}
+		}
+	}
+
+	z.parent = x;
+
+	z.left = SENTINEL;
+
+	z.right = SENTINEL;
+
+	z.color = NodeColor.Red;
+}
+// #endregion
+
+// #region Deletion
+function rbTreeDelete(T: IntervalTree, z: IntervalNode): void {
+	let x: IntervalNode;
+
+	let y: IntervalNode;
+
+	// RB-DELETE except we don't swap z and y in case c)
+	// i.e. we always delete what's pointed at by z.
+
+	if (z.left === SENTINEL) {
+		x = z.right;
+
+		y = z;
+
+		// x's delta is no longer influenced by z's delta
+		if (x !== SENTINEL) {
+			x.delta += z.delta;
+
+			if (
+				x.delta < Constants.MIN_SAFE_DELTA ||
+				x.delta > Constants.MAX_SAFE_DELTA
+			) {
+				T.requestNormalizeDelta = true;
+			}
+
+			x.start += z.delta;
+
+			x.end += z.delta;
+		}
+	} else if (z.right === SENTINEL) {
+		x = z.left;
+
+		y = z;
+	} else {
+		y = leftest(z.right);
+
+		x = y.right;
+
+		// y's delta is no longer influenced by z's delta,
+		// but we don't want to walk the entire right-hand-side subtree of x.
+		// we therefore maintain z's delta in y, and adjust only x
+		if (x !== SENTINEL) {
+			x.start += y.delta;
+
+			x.end += y.delta;
+
+			x.delta += y.delta;
+
+			if (
+				x.delta < Constants.MIN_SAFE_DELTA ||
+				x.delta > Constants.MAX_SAFE_DELTA
+			) {
+				T.requestNormalizeDelta = true;
+			}
+		}
+
+		y.start += z.delta;
+
+		y.end += z.delta;
+
+		y.delta = z.delta;
+
+		if (
+			y.delta < Constants.MIN_SAFE_DELTA ||
+			y.delta > Constants.MAX_SAFE_DELTA
+		) {
+			T.requestNormalizeDelta = true;
+		}
+	}
+
+	if (y === T.root) {
+		T.root = x;
+
+		z.detach();
+
+		// if x is the SENTINEL, we are removing the only node
+		if (x !== SENTINEL) {
+			x.color = NodeColor.Black;
+
+			recomputeMaxEnd(x);
+
+			x.parent = SENTINEL;
+		}
+
+		return;
+	}
+
+	// x may be the SENTINEL, so its parent is kept here instead of in x.parent
+	let xParent: IntervalNode;
+
+	let yWasRed = y.color === NodeColor.Red;
+
+	if (y === y.parent.left) {
+		y.parent.left = x;
+	} else {
+		y.parent.right = x;
+	}
+
+	if (y === z) {
+		xParent = y.parent;
+	} else {
+		if (y.parent === z) {
+			xParent = y;
+		} else {
+			xParent = y.parent;
+		}
+
+		y.left = z.left;
+
+		y.right = z.right;
+
+		y.parent = z.parent;
+
+		y.color = z.color;
+
+		if (z === T.root) {
+			T.root = y;
+		} else {
+			if (z === z.parent.left) {
+				z.parent.left = y;
+			} else {
+				z.parent.right = y;
+			}
+		}
+
+		if (y.left !== SENTINEL) {
+			y.left.parent = y;
+		}
+
+		if (y.right !== SENTINEL) {
+			y.right.parent = y;
+		}
+	}
+
+	if (x !== SENTINEL) {
+		x.parent = xParent;
+	}
+
+	z.detach();
+
+	if (yWasRed) {
+		recomputeMaxEndWalkToRoot(xParent);
+
+		if (y !== z) {
+			recomputeMaxEndWalkToRoot(y);
+
+			recomputeMaxEndWalkToRoot(y.parent);
+		}
+
+		return;
+	}
+
+	recomputeMaxEndWalkToRoot(x);
+
+	recomputeMaxEndWalkToRoot(xParent);
+
+	if (y !== z) {
+		recomputeMaxEndWalkToRoot(y);
+
+		recomputeMaxEndWalkToRoot(y.parent);
+	}
+
+	// RB-DELETE-FIXUP
+	let w: IntervalNode;
+
+	while (x !== T.root && x.color === NodeColor.Black) {
+		if (x === xParent.left) {
+			w = xParent.right;
+
+			if (w.color === NodeColor.Red) {
+				w.color = NodeColor.Black;
+
+				xParent.color = NodeColor.Red;
+
+				leftRotate(T, xParent);
+
+				w = xParent.right;
+			}
+
+			if (
+				w.left.color === NodeColor.Black &&
+				w.right.color === NodeColor.Black
+			) {
+				w.color = NodeColor.Red;
+
+				x = xParent;
+
+				xParent = x.parent;
+			} else {
+				if (w.right.color === NodeColor.Black) {
+					w.left.color = NodeColor.Black;
+
+					w.color = NodeColor.Red;
+
+					rightRotate(T, w);
+
+					w = xParent.right;
+				}
+
+				w.color = xParent.color;
+
+				xParent.color = NodeColor.Black;
+
+				w.right.color = NodeColor.Black;
+
+				leftRotate(T, xParent);
+
+				x = T.root;
+			}
+		} else {
+			w = xParent.left;
+
+			if (w.color === NodeColor.Red) {
+				w.color = NodeColor.Black;
+
+				xParent.color = NodeColor.Red;
+
+				rightRotate(T, xParent);
+
+				w = xParent.left;
+			}
+
+			if (
+				w.left.color === NodeColor.Black &&
+				w.right.color === NodeColor.Black
+			) {
+				w.color = NodeColor.Red;
+
+				x = xParent;
+
+				xParent = x.parent;
+			} else {
+				if (w.left.color === NodeColor.Black) {
+					w.right.color = NodeColor.Black;
+
+					w.color = NodeColor.Red;
+
+					leftRotate(T, w);
+
+					w = xParent.left;
+				}
+
+				w.color = xParent.color;
+
+				xParent.color = NodeColor.Black;
+
+				w.left.color = NodeColor.Black;
+
+				rightRotate(T, xParent);
+
+				x = T.root;
+			}
+		}
+	}
+
+	if (x !== SENTINEL) {
+		x.color = NodeColor.Black;
+	}
+}
+
+function leftest(node: IntervalNode): IntervalNode {
+	while (node.left !== SENTINEL) {
+		node = node.left;
+	}
+
+	return node;
+}
+
+// #endregion
+
+// #region Rotations
+function leftRotate(T: IntervalTree, x: IntervalNode): void {
+	const y = x.right; // set y.
+
+	y.delta += x.delta; // y's delta is no longer influenced by x's delta
+
+	if (
+		y.delta < Constants.MIN_SAFE_DELTA ||
+		y.delta > Constants.MAX_SAFE_DELTA
+	) {
+		T.requestNormalizeDelta = true;
+	}
+
+	y.start += x.delta;
+
+	y.end += x.delta;
+
+	x.right = y.left; // turn y's left subtree into x's right subtree.
+	if (y.left !== SENTINEL) {
+		y.left.parent = x;
+	}
+
+	y.parent = x.parent; // link x's parent to y.
+	if (x.parent === SENTINEL) {
+		T.root = y;
+	} else if (x === x.parent.left) {
+		x.parent.left = y;
+	} else {
+		x.parent.right = y;
+	}
+
+	y.left = x; // put x on y's left.
+	x.parent = y;
+
+	recomputeMaxEnd(x);
+
+	recomputeMaxEnd(y);
+}
+
+function rightRotate(T: IntervalTree, y: IntervalNode): void {
+	const x = y.left;
+
+	y.delta -= x.delta;
+
+	if (
+		y.delta < Constants.MIN_SAFE_DELTA ||
+		y.delta > Constants.MAX_SAFE_DELTA
+	) {
+		T.requestNormalizeDelta = true;
+	}
+
+	y.start -= x.delta;
+
+	y.end -= x.delta;
+
+	y.left = x.right;
+
+	if (x.right !== SENTINEL) {
+		x.right.parent = y;
+	}
+
+	x.parent = y.parent;
+
+	if (y.parent === SENTINEL) {
+		T.root = x;
+	} else if (y === y.parent.right) {
+		y.parent.right = x;
+	} else {
+		y.parent.left = x;
+	}
+
+	x.right = y;
+
+	y.parent = x;
+
+	recomputeMaxEnd(y);
+
+	recomputeMaxEnd(x);
+}
+// #endregion
+
+// #region max end computation
+function computeMaxEnd(node: IntervalNode): number {
+	let maxEnd = node.end;
+
+	if (node.left !== SENTINEL) {
+		const leftMaxEnd = node.left.maxEnd;
+
+		if (leftMaxEnd > maxEnd) {
+			maxEnd = leftMaxEnd;
+		}
+	}
+
+	if (node.right !== SENTINEL) {
+		const rightMaxEnd = node.right.maxEnd + node.delta;
+
+		if (rightMaxEnd > maxEnd) {
+			maxEnd = rightMaxEnd;
+		}
+	}
+
+	return maxEnd;
+}
+
+export function recomputeMaxEnd(node: IntervalNode): void {
+	node.maxEnd = computeMaxEnd(node);
+}
+
+function recomputeMaxEndWalkToRoot(node: IntervalNode): void {
+	while (node !== SENTINEL) {
+		const maxEnd = computeMaxEnd(node);
+
+		if (node.maxEnd === maxEnd) {
+			// no need to go further
+			return;
+		}
+
+		node.maxEnd = maxEnd;
+
+		node = node.parent;
+	}
+}
+// #endregion
+
+// #region utils
+export function intervalCompare(
+	aStart: number,
+	aEnd: number,
+	bStart: number,
+	bEnd: number,
+): number {
+	if (aStart === bStart) {
+		return aEnd - bEnd;
+	}
+
+	return aStart - bStart;
+}
+// #endregion
@@ -4,8 +4,33 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { CharCode } from "./common/charCode";
+import {
+	countEOL,
+	getLineBreakRegex,
+	getTrailingLineBreakRegex,
+	isUnicodeLineBreak,
+	LineBreakPolicy,
+	StringEOL,
+} from "./common/eolCounter";
+import { Emitter, Event } from "./common/event";
 import { Position } from "./common/position";
+import {
+	fromEncodedColumn,
+	PositionEncodingKind,
+	toEncodedColumn,
+} from "./common/positionEncoding";
 import { Range } from "./common/range";
+import {
+	breakBetweenGraphemeBreakType,
+	computeCodePoint,
+	firstNonWhitespaceIndex,
+	getGraphemeBreakType,
+	getNextCodePoint,
+	GraphemeBreakType,
+	isHighSurrogate,
+	isLowSurrogate,
+} from "./common/strings";
+import { guessIndentation, IGuessedIndentation } from "./indentationGuesser";
 import {
 	fixInsert,
 	leftest,
@@ -16,14 +41,429 @@ import {
 	TreeNode,
 	updateTreeMetadata,
 } from "./rbTreeBase";
+import {
+	createFindMatch,
+	FindMatch,
+	isValidMatch,
+	Searcher,
+	SearchData,
+	SearchParams,
+} from "./textModelSearch";
+import {
+	getWordAtPosition,
+	getWordUntilPosition,
+	IWordAtPosition,
+} from "./wordOperations";
 
 export interface ITextSnapshot {
 	read(): string | null;
 }
+
+/**
+ * How many lines end in each kind of terminator.
+ */
+export interface IEOLStatistics {
+	readonly cr: number;
+	readonly lf: number;
+	readonly crlf: number;
+	/**
+	 * U+0085, U+2028 and U+2029, only counted with `LineBreakPolicy.Unicode`.
+	 */
+	readonly unicode: number;
+}
+
+export { LineBreakPolicy } from "./common/eolCounter";
+
+/**
+ * The shape of a piece tree, as reported by `compact`.
+ */
+export interface ICompactionStatistics {
+	readonly pieceCount: number;
+	/**
+	 * Number of buffers, the change buffer included.
+	 */
+	readonly bufferCount: number;
+	readonly changeBufferLength: number;
+	/**
+	 * Length of all buffers together, including text no piece refers to.
+	 */
+	readonly bufferLength: number;
+}
+
+export interface ICompactionResult {
+	readonly before: ICompactionStatistics;
+	readonly after: ICompactionStatistics;
+}
+
+export interface IStringBufferStatistics {
+	readonly length: number;
+	readonly lineStartsLength: number;
+	readonly lineStartsType: "Uint16Array" | "Uint32Array" | "number[]";
+}
+
+/**
+ * Memory and structure of a piece tree, as reported by `getStatistics`.
+ */
+export interface IPieceTreeStatistics {
+	readonly nodeCount: number;
+	/**
+	 * Number of nodes on the longest path from the root to a leaf.
+	 */
+	readonly treeHeight: number;
+	/**
+	 * Number of buffers, the change buffer included.
+	 */
+	readonly bufferCount: number;
+	/**
+	 * One entry per buffer, the change buffer first.
+	 */
+	readonly buffers: IStringBufferStatistics[];
+	/**
+	 * Length of the change buffer text some piece refers to.
+	 */
+	readonly changeBufferLiveLength: number;
+	/**
+	 * Length of the change buffer text no piece refers to anymore, which `compact` drops.
+	 */
+	readonly changeBufferDeadLength: number;
+	readonly averagePieceLength: number;
+	readonly searchCacheHits: number;
+	readonly searchCacheMisses: number;
+	/**
+	 * Hits divided by lookups, `0` before the first lookup.
+	 */
+	readonly searchCacheHitRate: number;
+}
+
+export interface IPieceTreeCacheOptions {
+	/**
+	 * Number of nodes remembered for offset and line lookups, at least 1.
+	 */
+	nodeCacheSize?: number;
+	/**
+	 * Number of lines remembered by `getLineContent`, at least 1.
+	 */
+	lineCacheSize?: number;
+}
+
+export interface ILineWithOffset {
+	readonly lineNumber: number;
+	/**
+	 * Offset of the first character of the line.
+	 */
+	readonly offset: number;
+	/**
+	 * The line without its terminator.
+	 */
+	readonly content: string;
+}
+
+export const enum CharacterStepMode {
+	/**
+	 * Step over one code point. A lone surrogate counts as one.
+	 */
+	CodePoint = 0,
+	/**
+	 * Step over one grapheme cluster, like a letter with its accents or an emoji sequence.
+	 */
+	Grapheme = 1,
+}
+
+/**
+ * Steps over the characters of a buffer in both directions.
+ */
+export interface ICharacterCursor {
+	/**
+	 * Offset of the cursor, which sits between two characters.
+	 */
+	readonly offset: number;
+	getPosition(): Position;
+	/**
+	 * Step over the character after the cursor and return it, or return `null` at the end of the buffer.
+	 */
+	next(): string | null;
+	/**
+	 * Step back over the character before the cursor and return it, or return `null` at the start.
+	 */
+	prev(): string | null;
+	/**
+	 * The character after the cursor, without moving.
+	 */
+	peekNext(): string | null;
+	/**
+	 * The character before the cursor, without moving.
+	 */
+	peekPrev(): string | null;
+}
+
+/**
+ * The terminator of a line, `""` for the last one.
+ */
+export type LineEnding =
+	"\r\n" | "\r" | "\n" | "\u0085" | "\u2028" | "\u2029" | "";
+
+/**
+ * A snapshot that keeps reading the version it was taken from, no matter how the tree is edited afterwards.
+ */
+export interface IPersistentTextSnapshot extends ITextSnapshot {
+	/**
+	 * The version id of the tree when the snapshot was taken.
+	 */
+	readonly versionId: number;
+
+	getLength(): number;
+
+	getLineCount(): number;
+
+	getLineContent(lineNumber: number): string;
+
+	getValueInRange(range: Range, eol?: string): string;
+}
+
+/**
+ * A single edit operation, that acts as a simple replace.
+ * i.e. Replace text at `range` with `text` in model.
+ */
+export interface ISingleEditOperation {
+	/**
+	 * The range to replace. This can be empty to emulate a simple insert.
+	 */
+	range: Range;
+	/**
+	 * The text to replace with. This can be null to emulate a simple delete.
+	 */
+	text: string | null;
+	/**
+	 * This indicates that this operation has "insert" semantics.
+	 * i.e. forceMoveMarkers = true => if `range` is collapsed, all markers at the position will be moved.
+	 */
+	forceMoveMarkers?: boolean;
+	/**
+	 * This indicates that this operation is inserting automatic whitespace
+	 * that can be removed on next model edit operation if `config.trimAutoWhitespace` is true.
+	 */
+	isAutoWhitespaceEdit?: boolean;
+}
+
+export interface IReverseSingleEditOperation extends ISingleEditOperation {
+	/**
+	 * The index of the operation this one reverts, in the order the operations were given.
+	 */
+	sortIndex: number;
+}
+
+interface IValidatedEditOperation {
+	sortIndex: number;
+
+	range: Range;
+
+	rangeOffset: number;
+
+	rangeLength: number;
+
+	text: string;
+
+	eolCount: number;
+
+	firstLineLength: number;
+
+	lastLineLength: number;
+
+	forceMoveMarkers: boolean;
+
+	isAutoWhitespaceEdit: boolean;
+}
+
+export interface IModelContentChange {
+	/**
+	 * The range that got replaced.
+	 */
+	readonly range: Range;
+	/**
+	 * The offset of the range that got replaced.
+	 */
+	readonly rangeOffset: number;
+	/**
+	 * The length of the range that got replaced.
+	 */
+	readonly rangeLength: number;
+	/**
+	 * The new text for the range.
+	 */
+	readonly text: string;
+}
+
+export interface IInternalModelContentChange extends IModelContentChange {
+	forceMoveMarkers: boolean;
+}
+
+export interface IModelContentChangedEvent {
+	/**
+	 * The changes, in the order they were applied. Empty when `isFlush` is set.
+	 */
+	readonly changes: IInternalModelContentChange[];
+	/**
+	 * The (new) end-of-line character.
+	 */
+	readonly eol: string;
+	/**
+	 * The new version id the model has transitioned to.
+	 */
+	readonly versionId: number;
+	/**
+	 * Flag that indicates that all contents were replaced, e.g. by `create` or `normalizeEOL`.
+	 */
+	readonly isFlush: boolean;
+}
+
+export class ApplyEditsResult {
+	constructor(
+		public readonly reverseEdits: IReverseSingleEditOperation[] | null,
+		public readonly changes: IInternalModelContentChange[],
+		public readonly trimAutoWhitespaceLineNumbers: number[] | null,
+	) {}
+}
 // const lfRegex = new RegExp(/\r\n|\r|\n/g);
 
 export const AverageBufferSize = 65535;
 
+const DEFAULT_NODE_CACHE_SIZE = 4;
+
+const DEFAULT_LINE_CACHE_SIZE = 4;
+
+/**
+ * Pieces of an original buffer at least this long are kept by `compact`, shorter ones are copied.
+ */
+const COMPACTION_MIN_PIECE_LENGTH = 1024;
+
+function validateCacheSize(name: string, value: number): number {
+	if (!Number.isFinite(value)) {
+		throw new Error(`Invalid ${name}: ${value}`);
+	}
+
+	return Math.max(1, Math.floor(value));
+}
+
+/**
+ * Number of lines first read at once by a multiline search. The window grows for matches that
+ * span more lines.
+ */
+export const MultilineSearchWindowSize = 1000;
+
+/**
+ * Most lines read at once by a multiline search. Matches spanning more than half of it are not
+ * found.
+ */
+export const MultilineSearchMaxWindowSize = MultilineSearchWindowSize * 8;
+
+const enum SerializationConstants {
+	Magic = 0x54424650,
+	/**
+	 * `Magic` as read on a machine with the other byte order.
+	 */
+	SwappedMagic = 0x50464254,
+	Version = 1,
+	/**
+	 * Written in native byte order, to detect data coming from a machine with a different one.
+	 */
+	ByteOrderMark = 0x01020304,
+	HeaderLength = 8, // in uint32 words
+	PieceLength = 8, // in uint32 words
+	FlagCRLF = 1,
+	FlagEOLNormalized = 2,
+	FlagPreserveEOL = 4,
+	FlagUnicodeLineBreaks = 8,
+	DecodeChunkSize = 8192,
+}
+
+const isLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Turn UTF-16 code units back into a string. Lone surrogates can be left behind by edits,
+ * so they must survive the round trip instead of being replaced.
+ */
+function decodeCharCodes(charCodes: Uint16Array): string {
+	if (isLittleEndian && typeof TextDecoder !== "undefined") {
+		try {
+			// `fatal` throws on lone surrogates, `ignoreBOM` keeps a leading U+FEFF
+			return new TextDecoder("utf-16le", {
+				fatal: true,
+				ignoreBOM: true,
+			}).decode(charCodes);
+		} catch (err) {
+			// fall back to the slow path
+		}
+	}
+
+	let result = "";
+
+	for (
+		let i = 0, len = charCodes.length;
+		i < len;
+		i += SerializationConstants.DecodeChunkSize
+	) {
+		result += String.fromCharCode.apply(
+			null,
+			<number[]>(
+				(<unknown>(
+					charCodes.subarray(
+						i,
+						i + SerializationConstants.DecodeChunkSize,
+					)
+				))
+			),
+		);
+	}
+
+	return result;
+}
+
+const nonASCIIRegex = /[^\x00-\x7f]/;
+
+function isSurrogatePairAt(str: string, offset: number): boolean {
+	return (
+		isHighSurrogate(str.charCodeAt(offset)) &&
+		isLowSurrogate(str.charCodeAt(offset + 1))
+	);
+}
+
+/**
+ * Number of bytes `str` takes in UTF-8 between `start` and `end`. A surrogate without its other
+ * half in the range counts as 3 bytes, since it encodes as U+FFFD. The halves of a pair split
+ * across two pieces so add up to 2 bytes more than the pair: appending to a piece and `compact`
+ * take them off, an edit that joins two lone halves from different pieces does not.
+ */
+export function getUTF8Length(str: string, start: number, end: number): number {
+	if (start === 0 && end === str.length && !nonASCIIRegex.test(str)) {
+		// a regex is a lot faster than the loop below on whole buffers
+		return end;
+	}
+
+	let len = 0;
+
+	for (let i = start; i < end; i++) {
+		const charCode = str.charCodeAt(i);
+
+		if (charCode < 0x80) {
+			len += 1;
+		} else if (charCode < 0x800) {
+			len += 2;
+		} else if (
+			isHighSurrogate(charCode) &&
+			i + 1 < end &&
+			isLowSurrogate(str.charCodeAt(i + 1))
+		) {
+			len += 4;
+
+			i++;
+		} else {
+			len += 3;
+		}
+	}
+
+	return len;
+}
+
 export function createUintArray(arr: number[]): Uint32Array | Uint16Array {
 	let r;
 
@@ -45,16 +485,24 @@ export class LineStarts {
 		public readonly lf: number,
 		public readonly crlf: number,
 		public readonly isBasicASCII: boolean,
+		public readonly nulCount: number = 0,
+		/**
+		 * Line breaks only counted with `LineBreakPolicy.Unicode`.
+		 */
+		public readonly unicode: number = 0,
 	) {}
 }
 
 export function createLineStartsFast(
 	str: string,
 	readonly: boolean = true,
+	policy: LineBreakPolicy = LineBreakPolicy.Standard,
 ): Uint32Array | Uint16Array | number[] {
 	let r: number[] = [0],
 		rLength = 1;
 
+	const isUnicode = policy === LineBreakPolicy.Unicode;
+
 	for (let i = 0, len = str.length; i < len; i++) {
 		const chr = str.charCodeAt(i);
 
@@ -70,6 +518,8 @@ export function createLineStartsFast(
 			}
 		} else if (chr === CharCode.LineFeed) {
 			r[rLength++] = i + 1;
+		} else if (isUnicode && isUnicodeLineBreak(chr)) {
+			r[rLength++] = i + 1;
 		}
 	}
 
@@ -80,7 +530,11 @@ export function createLineStartsFast(
 	}
 }
 
-export function createLineStarts(r: number[], str: string): LineStarts {
+export function createLineStarts(
+	r: number[],
+	str: string,
+	policy: LineBreakPolicy = LineBreakPolicy.Standard,
+): LineStarts {
 	r.length = 0;
 
 	r[0] = 0;
@@ -93,6 +547,12 @@ export function createLineStarts(r: number[], str: string): LineStarts {
 
 	let isBasicASCII = true;
 
+	let nulCount = 0;
+
+	let unicode = 0;
+
+	const isUnicode = policy === LineBreakPolicy.Unicode;
+
 	for (let i = 0, len = str.length; i < len; i++) {
 		const chr = str.charCodeAt(i);
 
@@ -112,6 +572,12 @@ export function createLineStarts(r: number[], str: string): LineStarts {
 		} else if (chr === CharCode.LineFeed) {
 			lf++;
 
+			r[rLength++] = i + 1;
+		} else if (isUnicode && isUnicodeLineBreak(chr)) {
+			unicode++;
+
+			isBasicASCII = false;
+
 			r[rLength++] = i + 1;
 		} else {
 			if (isBasicASCII) {
@@ -119,6 +585,10 @@ export function createLineStarts(r: number[], str: string): LineStarts {
 					isBasicASCII = false;
 				}
 			}
+
+			if (chr === CharCode.Null) {
+				nulCount++;
+			}
 		}
 	}
 
@@ -128,6 +598,8 @@ export function createLineStarts(r: number[], str: string): LineStarts {
 		lf,
 		crlf,
 		isBasicASCII,
+		nulCount,
+		unicode,
 	);
 
 	r.length = 0;
@@ -135,6 +607,16 @@ export function createLineStarts(r: number[], str: string): LineStarts {
 	return result;
 }
 
+/**
+ * Count the line breaks of each kind in `str`. A `\r` at the end or a `\n` at the start is
+ * counted on its own, even where the text around `str` makes it part of a `\r\n`.
+ */
+function countLineBreaks(str: string, policy: LineBreakPolicy): IEOLStatistics {
+	const { cr, lf, crlf, unicode } = createLineStarts([], str, policy);
+
+	return { cr, lf, crlf, unicode };
+}
+
 export interface NodePosition {
 	/**
 	 * Piece Index
@@ -172,12 +654,15 @@ export class Piece {
 
 	readonly lineFeedCnt: number;
 
+	readonly utf8Length: number;
+
 	constructor(
 		bufferIndex: number,
 		start: BufferCursor,
 		end: BufferCursor,
 		lineFeedCnt: number,
 		length: number,
+		utf8Length: number,
 	) {
 		this.bufferIndex = bufferIndex;
 
@@ -188,6 +673,8 @@ export class Piece {
 		this.lineFeedCnt = lineFeedCnt;
 
 		this.length = length;
+
+		this.utf8Length = utf8Length;
 	}
 }
 
@@ -267,564 +754,3824 @@ class PieceTreeSnapshot implements ITextSnapshot {
 	}
 }
 
-interface CacheEntry {
-	node: TreeNode;
+/**
+ * Reads a range of lines in one in-order walk over the pieces, starting from a single lookup of the
+ * first line. Like `PieceTreeSnapshot`, it reads the live tree, so it must not outlive an edit.
+ */
+class PieceTreeLineIterator implements IterableIterator<ILineWithOffset> {
+	private readonly _tree: PieceTreeBase;
 
-	nodeStartOffset: number;
+	private readonly _buffers: StringBuffer[];
 
-	nodeStartLineNumber?: number;
-}
+	private readonly _versionId: number;
 
-class PieceTreeSearchCache {
-	private readonly _limit: number;
+	private readonly _endLineNumber: number;
 
-	private _cache: CacheEntry[];
+	private _lineNumber: number;
 
-	constructor(limit: number) {
-		this._limit = limit;
+	private _offset: number;
 
-		this._cache = [];
-	}
+	private _node: TreeNode;
 
-	public get(offset: number): CacheEntry | null {
-		for (let i = this._cache.length - 1; i >= 0; i--) {
-			let nodePos = this._cache[i];
+	private _remainder: number; // offset in the piece of _node
 
-			if (
-				nodePos.nodeStartOffset <= offset &&
-				nodePos.nodeStartOffset + nodePos.node.piece.length >= offset
-			) {
-				return nodePos;
-			}
-		}
+	private _lineIndex: number; // line feeds of _node before _remainder
 
-		return null;
-	}
+	constructor(
+		tree: PieceTreeBase,
+		buffers: StringBuffer[],
+		startLineNumber: number,
+		endLineNumber: number,
+	) {
+		this._tree = tree;
 
-	public get2(lineNumber: number): {
-		node: TreeNode;
+		this._buffers = buffers;
 
-		nodeStartOffset: number;
+		this._versionId = tree.getVersionId();
 
-		nodeStartLineNumber: number;
-	} | null {
-		for (let i = this._cache.length - 1; i >= 0; i--) {
-			let nodePos = this._cache[i];
+		this._endLineNumber = endLineNumber;
 
-			if (
-				nodePos.nodeStartLineNumber &&
-				nodePos.nodeStartLineNumber < lineNumber &&
-				nodePos.nodeStartLineNumber + nodePos.node.piece.lineFeedCnt >=
-					lineNumber
-			) {
-				return <
-					{
-						node: TreeNode;
+		this._lineNumber = startLineNumber;
 
-						nodeStartOffset: number;
+		this._offset = 0;
 
-						nodeStartLineNumber: number;
-					}
-				>nodePos;
+		this._node = SENTINEL;
+
+		this._remainder = 0;
+
+		this._lineIndex = 0;
+
+		let x = tree.root;
+
+		let lineNumber = startLineNumber;
+
+		while (x !== SENTINEL) {
+			if (x.left !== SENTINEL && x.lf_left + 1 >= lineNumber) {
+				x = x.left;
+			} else if (x.lf_left + x.piece.lineFeedCnt + 1 >= lineNumber) {
+				this._offset += x.size_left;
+
+				this._node = x;
+
+				this._lineIndex = lineNumber - x.lf_left - 1;
+
+				this._remainder = tree.getAccumulatedValue(
+					x,
+					this._lineIndex - 1,
+				);
+
+				this._offset += this._remainder;
+
+				break;
+			} else {
+				lineNumber -= x.lf_left + x.piece.lineFeedCnt;
+
+				this._offset += x.size_left + x.piece.length;
+
+				x = x.right;
 			}
 		}
+	}
 
-		return null;
+	public [Symbol.iterator](): IterableIterator<ILineWithOffset> {
+		return this;
 	}
 
-	public set(nodePosition: CacheEntry) {
-		if (this._cache.length >= this._limit) {
-			this._cache.shift();
+	public next(): IteratorResult<ILineWithOffset> {
+		if (this._tree.getVersionId() !== this._versionId) {
+			throw new Error(
+				"The buffer changed while iterating over its lines",
+			);
 		}
 
-		this._cache.push(nodePosition);
-	}
+		if (this._lineNumber > this._endLineNumber) {
+			return { done: true, value: undefined };
+		}
 
-	public valdiate(offset: number) {
-		let hasInvalidVal = false;
+		const lineNumber = this._lineNumber++;
 
-		let tmp: Array<CacheEntry | null> = this._cache;
+		const offset = this._offset;
 
-		for (let i = 0; i < tmp.length; i++) {
-			let nodePos = tmp[i]!;
+		let content = "";
 
-			if (
-				nodePos.node.parent === null ||
-				nodePos.nodeStartOffset >= offset
-			) {
-				tmp[i] = null;
+		while (this._node !== SENTINEL) {
+			const piece = this._node.piece;
 
-				hasInvalidVal = true;
+			const buffer = this._buffers[piece.bufferIndex].buffer;
 
-				continue;
-			}
-		}
+			const startOffset = this._tree.offsetInBuffer(
+				piece.bufferIndex,
+				piece.start,
+			);
 
-		if (hasInvalidVal) {
-			let newArr: CacheEntry[] = [];
+			if (this._lineIndex < piece.lineFeedCnt) {
+				const end = this._tree.getAccumulatedValue(
+					this._node,
+					this._lineIndex,
+				);
 
-			for (const entry of tmp) {
-				if (entry !== null) {
-					newArr.push(entry);
-				}
+				content += buffer.substring(
+					startOffset + this._remainder,
+					startOffset + end,
+				);
+
+				this._offset += end - this._remainder;
+
+				this._remainder = end;
+
+				this._lineIndex++;
+
+				return {
+					done: false,
+					value: {
+						lineNumber,
+						offset,
+						content: content.replace(
+							getTrailingLineBreakRegex(
+								this._tree.getLineBreakPolicy(),
+							),
+							"",
+						),
+					},
+				};
 			}
 
-			this._cache = newArr;
+			content += buffer.substring(
+				startOffset + this._remainder,
+				startOffset + piece.length,
+			);
+
+			this._offset += piece.length - this._remainder;
+
+			this._node = this._node.next();
+
+			this._remainder = 0;
+
+			this._lineIndex = 0;
 		}
+
+		// the last line has no terminator
+		return { done: false, value: { lineNumber, offset, content } };
 	}
 }
 
-export class PieceTreeBase {
-	root: TreeNode;
+interface CharacterCursorState {
+	node: TreeNode;
 
-	protected _buffers: StringBuffer[]; // 0 is change buffer, others are readonly original buffer.
-	protected _lineCnt: number;
+	remainder: number;
 
-	protected _length: number;
+	offset: number;
+}
 
-	protected _EOL: string;
+/**
+ * Walks the pieces with `TreeNode.next()` and `TreeNode.prev()`, so a step is O(1) amortised.
+ * Like `PieceTreeLineIterator`, it reads the live tree, so it must not outlive an edit.
+ */
+class PieceTreeCharacterCursor implements ICharacterCursor {
+	private readonly _tree: PieceTreeBase;
 
-	protected _EOLLength: number;
+	private readonly _buffers: StringBuffer[];
 
-	protected _EOLNormalized: boolean;
+	private readonly _versionId: number;
 
-	private _lastChangeBufferPos: BufferCursor;
+	private readonly _mode: CharacterStepMode;
 
-	private _searchCache: PieceTreeSearchCache;
+	private _node: TreeNode;
+
+	private _remainder: number; // offset in the piece of _node
 
-	private _lastVisitedLine: { lineNumber: number; value: string };
+	private _offset: number;
 
 	constructor(
-		chunks: StringBuffer[],
-		eol: "\r\n" | "\n",
-		eolNormalized: boolean,
+		tree: PieceTreeBase,
+		buffers: StringBuffer[],
+		offset: number,
+		mode: CharacterStepMode,
 	) {
-		this.create(chunks, eol, eolNormalized);
-	}
-
-	create(chunks: StringBuffer[], eol: "\r\n" | "\n", eolNormalized: boolean) {
-		this._buffers = [new StringBuffer("", [0])];
-
-		this._lastChangeBufferPos = { line: 0, column: 0 };
-
-		this.root = SENTINEL;
-
-		this._lineCnt = 1;
+		this._tree = tree;
 
-		this._length = 0;
+		this._buffers = buffers;
 
-		this._EOL = eol;
+		this._versionId = tree.getVersionId();
 
-		this._EOLLength = eol.length;
+		this._mode = mode;
 
-		this._EOLNormalized = eolNormalized;
+		this._node = SENTINEL;
 
-		let lastNode: TreeNode | null = null;
+		this._remainder = 0;
 
-		for (let i = 0, len = chunks.length; i < len; i++) {
-			if (chunks[i].buffer.length > 0) {
-				if (!chunks[i].lineStarts) {
-					chunks[i].lineStarts = createLineStartsFast(
-						chunks[i].buffer,
-					);
-				}
+		this._offset = offset;
 
-				let piece = new Piece(
-					i + 1,
-					{ line: 0, column: 0 },
-					{
-						line: chunks[i].lineStarts.length - 1,
-						column:
-							chunks[i].buffer.length -
-							chunks[i].lineStarts[
-								chunks[i].lineStarts.length - 1
-							],
-					},
-					chunks[i].lineStarts.length - 1,
-					chunks[i].buffer.length,
-				);
+		if (tree.root !== SENTINEL) {
+			const nodePosition = tree.nodeAt(offset);
 
-				this._buffers.push(chunks[i]);
+			this._node = nodePosition.node;
 
-				lastNode = this.rbInsertRight(lastNode, piece);
-			}
+			this._remainder = nodePosition.remainder;
 		}
+	}
 
-		this._searchCache = new PieceTreeSearchCache(1);
+	public get offset(): number {
+		return this._offset;
+	}
 
-		this._lastVisitedLine = { lineNumber: 0, value: "" };
+	public getPosition(): Position {
+		this._checkVersion();
 
-		this.computeBufferMetadata();
+		return this._tree.getPositionAt(this._offset);
 	}
 
-	normalizeEOL(eol: "\r\n" | "\n") {
-		let averageBufferSize = AverageBufferSize;
-
-		let min = averageBufferSize - Math.floor(averageBufferSize / 3);
+	public next(): string | null {
+		this._checkVersion();
 
-		let max = min * 2;
+		if (this._mode === CharacterStepMode.CodePoint) {
+			const codePoint = this._nextCodePoint();
 
-		let tempChunk = "";
+			return codePoint === -1 ? null : String.fromCodePoint(codePoint);
+		}
 
-		let tempChunkLen = 0;
+		return this._nextGrapheme();
+	}
 
-		let chunks: StringBuffer[] = [];
+	public prev(): string | null {
+		this._checkVersion();
 
-		this.iterate(this.root, (node) => {
-			let str = this.getNodeContent(node);
+		if (this._mode === CharacterStepMode.CodePoint) {
+			const codePoint = this._prevCodePoint();
 
-			let len = str.length;
+			return codePoint === -1 ? null : String.fromCodePoint(codePoint);
+		}
 
-			if (tempChunkLen <= min || tempChunkLen + len < max) {
-				tempChunk += str;
+		return this._prevGrapheme();
+	}
 
-				tempChunkLen += len;
+	public peekNext(): string | null {
+		const state = this._getState();
 
-				return true;
-			}
+		const result = this.next();
 
-			// flush anyways
-			let text = tempChunk.replace(/\r\n|\r|\n/g, eol);
+		this._setState(state);
 
-			chunks.push(new StringBuffer(text, createLineStartsFast(text)));
+		return result;
+	}
 
-			tempChunk = str;
+	public peekPrev(): string | null {
+		const state = this._getState();
 
-			tempChunkLen = len;
+		const result = this.prev();
 
-			return true;
-		});
+		this._setState(state);
 
-		if (tempChunkLen > 0) {
-			let text = tempChunk.replace(/\r\n|\r|\n/g, eol);
+		return result;
+	}
 
-			chunks.push(new StringBuffer(text, createLineStartsFast(text)));
+	private _checkVersion(): void {
+		if (this._tree.getVersionId() !== this._versionId) {
+			throw new Error(
+				"The buffer changed while moving over its characters",
+			);
 		}
-
-		this.create(chunks, eol, true);
 	}
 
-	// #region Buffer API
-	public getEOL(): string {
-		return this._EOL;
+	private _getState(): CharacterCursorState {
+		return {
+			node: this._node,
+			remainder: this._remainder,
+			offset: this._offset,
+		};
 	}
 
-	public setEOL(newEOL: "\r\n" | "\n"): void {
-		this._EOL = newEOL;
+	private _setState(state: CharacterCursorState): void {
+		this._node = state.node;
 
-		this._EOLLength = this._EOL.length;
+		this._remainder = state.remainder;
 
-		this.normalizeEOL(newEOL);
+		this._offset = state.offset;
 	}
 
-	public createSnapshot(BOM: string): ITextSnapshot {
-		return new PieceTreeSnapshot(this, BOM);
+	private _charCodeAt(remainder: number): number {
+		const piece = this._node.piece;
+
+		return this._buffers[piece.bufferIndex].buffer.charCodeAt(
+			this._tree.offsetInBuffer(piece.bufferIndex, piece.start) +
+				remainder,
+		);
 	}
 
-	public equal(other: PieceTreeBase): boolean {
-		if (this.getLength() !== other.getLength()) {
-			return false;
+	/**
+	 * Step over one UTF-16 code unit and return it, or `-1` at the end.
+	 */
+	private _nextCharCode(): number {
+		if (this._node === SENTINEL) {
+			return -1;
 		}
 
-		if (this.getLineCount() !== other.getLineCount()) {
-			return false;
+		while (this._remainder === this._node.piece.length) {
+			const next = this._node.next();
+
+			if (next === SENTINEL) {
+				return -1;
+			}
+
+			this._node = next;
+
+			this._remainder = 0;
 		}
 
-		let offset = 0;
+		this._offset++;
 
-		let ret = this.iterate(this.root, (node) => {
-			if (node === SENTINEL) {
-				return true;
-			}
+		return this._charCodeAt(this._remainder++);
+	}
 
-			let str = this.getNodeContent(node);
+	/**
+	 * Step back over one UTF-16 code unit and return it, or `-1` at the start.
+	 */
+	private _prevCharCode(): number {
+		if (this._node === SENTINEL) {
+			return -1;
+		}
 
-			let len = str.length;
+		while (this._remainder === 0) {
+			const prev = this._node.prev();
 
-			let startPosition = other.nodeAt(offset);
+			if (prev === SENTINEL) {
+				return -1;
+			}
 
-			let endPosition = other.nodeAt(offset + len);
+			this._node = prev;
 
-			let val = other.getValueInRange2(startPosition, endPosition);
+			this._remainder = prev.piece.length;
+		}
 
-			return str === val;
-		});
+		this._offset--;
 
-		return ret;
+		return this._charCodeAt(--this._remainder);
 	}
 
-	public getOffsetAt(lineNumber: number, column: number): number {
-		let leftLen = 0; // inorder
+	private _nextCodePoint(): number {
+		const charCode = this._nextCharCode();
 
-		let x = this.root;
+		if (isHighSurrogate(charCode)) {
+			const state = this._getState();
 
-		while (x !== SENTINEL) {
-			if (x.left !== SENTINEL && x.lf_left + 1 >= lineNumber) {
-				x = x.left;
-			} else if (x.lf_left + x.piece.lineFeedCnt + 1 >= lineNumber) {
-				leftLen += x.size_left;
-				// lineNumber >= 2
-				let accumualtedValInCurrentIndex = this.getAccumulatedValue(
-					x,
-					lineNumber - x.lf_left - 2,
-				);
+			const nextCharCode = this._nextCharCode();
 
-				return (leftLen += accumualtedValInCurrentIndex + column - 1);
-			} else {
-				lineNumber -= x.lf_left + x.piece.lineFeedCnt;
+			if (isLowSurrogate(nextCharCode)) {
+				return computeCodePoint(charCode, nextCharCode);
+			}
 
-				leftLen += x.size_left + x.piece.length;
+			this._setState(state);
+		}
 
-				x = x.right;
+		return charCode;
+	}
+
+	private _prevCodePoint(): number {
+		const charCode = this._prevCharCode();
+
+		if (isLowSurrogate(charCode)) {
+			const state = this._getState();
+
+			const prevCharCode = this._prevCharCode();
+
+			if (isHighSurrogate(prevCharCode)) {
+				return computeCodePoint(prevCharCode, charCode);
 			}
+
+			this._setState(state);
 		}
 
-		return leftLen;
+		return charCode;
 	}
 
-	public getPositionAt(offset: number): Position {
-		offset = Math.floor(offset);
+	private _nextGrapheme(): string | null {
+		const codePoint = this._nextCodePoint();
 
-		offset = Math.max(0, offset);
+		if (codePoint === -1) {
+			return null;
+		}
 
-		let x = this.root;
+		let result = String.fromCodePoint(codePoint);
 
-		let lfCnt = 0;
+		let breakType = getGraphemeBreakType(codePoint);
 
-		let originalOffset = offset;
+		let regionalIndicatorCount =
+			breakType === GraphemeBreakType.RegionalIndicator ? 1 : 0;
 
-		while (x !== SENTINEL) {
-			if (x.size_left !== 0 && x.size_left >= offset) {
-				x = x.left;
-			} else if (x.size_left + x.piece.length >= offset) {
-				let out = this.getIndexOf(x, offset - x.size_left);
+		// whether the code points so far end in ExtendedPictographic Extend*
+		let isPictographic =
+			breakType === GraphemeBreakType.ExtendedPictographic;
 
-				lfCnt += x.lf_left + out.index;
+		// whether the last ZWJ followed ExtendedPictographic Extend*
+		let isPictographicZWJ = false;
 
-				if (out.index === 0) {
-					let lineStartOffset = this.getOffsetAt(lfCnt + 1, 1);
+		while (true) {
+			const state = this._getState();
+
+			const nextCodePoint = this._nextCodePoint();
+
+			if (nextCodePoint === -1) {
+				break;
+			}
+
+			const nextBreakType = getGraphemeBreakType(nextCodePoint);
+
+			if (
+				breakBetweenGraphemeBreakType(breakType, nextBreakType) ||
+				// regional indicators pair up from the first one
+				(nextBreakType === GraphemeBreakType.RegionalIndicator &&
+					regionalIndicatorCount % 2 === 0 &&
+					regionalIndicatorCount > 0) ||
+				// ZWJ only joins pictographs to pictographs
+				(nextBreakType === GraphemeBreakType.ExtendedPictographic &&
+					breakType === GraphemeBreakType.ZWJ &&
+					!isPictographicZWJ)
+			) {
+				this._setState(state);
+
+				break;
+			}
+
+			result += String.fromCodePoint(nextCodePoint);
+
+			isPictographicZWJ =
+				nextBreakType === GraphemeBreakType.ZWJ && isPictographic;
+
+			isPictographic =
+				nextBreakType === GraphemeBreakType.ExtendedPictographic ||
+				(isPictographic && nextBreakType === GraphemeBreakType.Extend);
+
+			breakType = nextBreakType;
+
+			regionalIndicatorCount =
+				breakType === GraphemeBreakType.RegionalIndicator
+					? regionalIndicatorCount + 1
+					: 0;
+		}
+
+		return result;
+	}
+
+	private _prevGrapheme(): string | null {
+		const codePoint = this._prevCodePoint();
+
+		if (codePoint === -1) {
+			return null;
+		}
+
+		let result = String.fromCodePoint(codePoint);
+
+		let breakType = getGraphemeBreakType(codePoint);
+
+		while (true) {
+			const state = this._getState();
+
+			const prevCodePoint = this._prevCodePoint();
+
+			if (prevCodePoint === -1) {
+				break;
+			}
+
+			const prevBreakType = getGraphemeBreakType(prevCodePoint);
+
+			let isBreak = breakBetweenGraphemeBreakType(
+				prevBreakType,
+				breakType,
+			);
+
+			if (
+				!isBreak &&
+				prevBreakType === GraphemeBreakType.RegionalIndicator &&
+				breakType === GraphemeBreakType.RegionalIndicator
+			) {
+				// an odd number of regional indicators before this one means it closes a pair
+				isBreak = this._countPrevRegionalIndicators() % 2 === 1;
+			}
+
+			if (
+				!isBreak &&
+				prevBreakType === GraphemeBreakType.ZWJ &&
+				breakType === GraphemeBreakType.ExtendedPictographic
+			) {
+				isBreak = !this._isAfterPictographic();
+			}
+
+			if (isBreak) {
+				this._setState(state);
+
+				break;
+			}
+
+			result = String.fromCodePoint(prevCodePoint) + result;
+
+			breakType = prevBreakType;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Whether the text before the cursor ends in ExtendedPictographic Extend*.
+	 */
+	private _isAfterPictographic(): boolean {
+		const state = this._getState();
+
+		let breakType: GraphemeBreakType;
+
+		do {
+			const codePoint = this._prevCodePoint();
+
+			breakType =
+				codePoint === -1
+					? GraphemeBreakType.Other
+					: getGraphemeBreakType(codePoint);
+		} while (breakType === GraphemeBreakType.Extend);
+
+		this._setState(state);
+
+		return breakType === GraphemeBreakType.ExtendedPictographic;
+	}
+
+	private _countPrevRegionalIndicators(): number {
+		const state = this._getState();
+
+		let count = 0;
+
+		while (
+			getGraphemeBreakType(this._prevCodePoint()) ===
+			GraphemeBreakType.RegionalIndicator
+		) {
+			count++;
+		}
+
+		this._setState(state);
+
+		return count;
+	}
+}
+
+/**
+ * Persistent snapshot for piece tree.
+ * Pieces are immutable and buffers only ever grow (strings are immutable, line starts are replaced
+ * instead of mutated), so capturing the pieces with the buffer string and line starts they point into
+ * freezes the content.
+ */
+class PieceTreePersistentSnapshot implements IPersistentTextSnapshot {
+	public readonly versionId: number;
+
+	private readonly _pieces: Piece[];
+
+	private readonly _buffers: string[]; // buffer content of each piece
+
+	private readonly _lineStarts: (Uint32Array | Uint16Array | number[])[]; // buffer line starts of each piece
+
+	private readonly _pieceStartOffsets: number[]; // offset of each piece in the document
+
+	private readonly _pieceStartLineFeeds: number[]; // line feeds before each piece in the document
+
+	private readonly _length: number;
+
+	private readonly _lineCnt: number;
+
+	private readonly _EOL: string;
+
+	private readonly _EOLNormalized: boolean;
+
+	private readonly _lineBreakPolicy: LineBreakPolicy;
+
+	private readonly _BOM: string;
+
+	private _index: number;
+
+	constructor(
+		tree: PieceTreeBase,
+		buffers: StringBuffer[],
+		EOLNormalized: boolean,
+		BOM: string,
+	) {
+		this.versionId = tree.getVersionId();
+
+		this._pieces = [];
+
+		this._buffers = [];
+
+		this._lineStarts = [];
+
+		this._pieceStartOffsets = [];
+
+		this._pieceStartLineFeeds = [];
+
+		this._length = tree.getLength();
+
+		this._lineCnt = tree.getLineCount();
+
+		this._EOL = tree.getEOL();
+
+		this._EOLNormalized = EOLNormalized;
+
+		this._lineBreakPolicy = tree.getLineBreakPolicy();
+
+		this._BOM = BOM;
+
+		this._index = 0;
+
+		let offset = 0;
+
+		let lineFeedCnt = 0;
+
+		if (tree.root !== SENTINEL) {
+			tree.iterate(tree.root, (node) => {
+				if (node !== SENTINEL) {
+					const piece = node.piece;
+
+					const buffer = buffers[piece.bufferIndex];
+
+					this._pieces.push(piece);
+
+					this._buffers.push(buffer.buffer);
+
+					this._lineStarts.push(buffer.lineStarts);
+
+					this._pieceStartOffsets.push(offset);
+
+					this._pieceStartLineFeeds.push(lineFeedCnt);
+
+					offset += piece.length;
+
+					lineFeedCnt += piece.lineFeedCnt;
+				}
+
+				return true;
+			});
+		}
+	}
+
+	read(): string | null {
+		if (this._pieces.length === 0) {
+			if (this._index === 0) {
+				this._index++;
+
+				return this._BOM;
+			} else {
+				return null;
+			}
+		}
+
+		if (this._index > this._pieces.length - 1) {
+			return null;
+		}
+
+		if (this._index === 0) {
+			return this._BOM + this._getPieceContent(this._index++);
+		}
+
+		return this._getPieceContent(this._index++);
+	}
+
+	public getLength(): number {
+		return this._length;
+	}
+
+	public getLineCount(): number {
+		return this._lineCnt;
+	}
+
+	public getLineContent(lineNumber: number): string {
+		const startOffset = this._getLineStartOffset(lineNumber);
+
+		if (lineNumber >= this._lineCnt) {
+			return this._getValueInOffsets(startOffset, this._length);
+		}
+
+		const endOffset = this._getLineStartOffset(lineNumber + 1);
+
+		return this._getValueInOffsets(startOffset, endOffset).replace(
+			getTrailingLineBreakRegex(this._lineBreakPolicy),
+			"",
+		);
+	}
+
+	public getValueInRange(range: Range, eol?: string): string {
+		const startOffset =
+			this._getLineStartOffset(range.startLineNumber) +
+			range.startColumn -
+			1;
+
+		const endOffset =
+			this._getLineStartOffset(range.endLineNumber) + range.endColumn - 1;
+
+		const value = this._getValueInOffsets(startOffset, endOffset);
+
+		if (eol && (eol !== this._EOL || !this._EOLNormalized)) {
+			return value.replace(getLineBreakRegex(this._lineBreakPolicy), eol);
+		}
+
+		return value;
+	}
+
+	private _getPieceStartInBuffer(pieceIndex: number): number {
+		const piece = this._pieces[pieceIndex];
+
+		return (
+			this._lineStarts[pieceIndex][piece.start.line] + piece.start.column
+		);
+	}
+
+	private _getPieceContent(pieceIndex: number): string {
+		const start = this._getPieceStartInBuffer(pieceIndex);
+
+		return this._buffers[pieceIndex].substring(
+			start,
+			start + this._pieces[pieceIndex].length,
+		);
+	}
+
+	private _getLineStartOffset(lineNumber: number): number {
+		if (lineNumber <= 1 || this._pieces.length === 0) {
+			return 0;
+		}
+
+		if (lineNumber > this._lineCnt) {
+			return this._length;
+		}
+
+		const lineFeedCnt = lineNumber - 1;
+
+		// find the piece containing the line feed that ends line `lineNumber - 1`
+		let low = 0;
+
+		let high = this._pieces.length - 1;
+
+		while (low < high) {
+			const mid = low + Math.floor((high - low) / 2);
+
+			if (
+				this._pieceStartLineFeeds[mid] +
+					this._pieces[mid].lineFeedCnt >=
+				lineFeedCnt
+			) {
+				high = mid;
+			} else {
+				low = mid + 1;
+			}
+		}
+
+		const piece = this._pieces[low];
+
+		const lineStarts = this._lineStarts[low];
+
+		const expectedLineStartIndex =
+			piece.start.line + lineFeedCnt - this._pieceStartLineFeeds[low];
+
+		if (expectedLineStartIndex > piece.end.line) {
+			// the piece ends with a `\r`, the `\n` is in the next piece
+			return this._pieceStartOffsets[low] + piece.length;
+		}
+
+		return (
+			this._pieceStartOffsets[low] +
+			lineStarts[expectedLineStartIndex] -
+			this._getPieceStartInBuffer(low)
+		);
+	}
+
+	private _getValueInOffsets(startOffset: number, endOffset: number): string {
+		if (startOffset >= endOffset) {
+			return "";
+		}
+
+		// find the piece containing `startOffset`
+		let low = 0;
+
+		let high = this._pieces.length - 1;
+
+		while (low < high) {
+			const mid = low + Math.floor((high - low) / 2);
+
+			if (
+				this._pieceStartOffsets[mid] + this._pieces[mid].length >
+				startOffset
+			) {
+				high = mid;
+			} else {
+				low = mid + 1;
+			}
+		}
+
+		let result = "";
+
+		for (let i = low; i < this._pieces.length; i++) {
+			const pieceStartOffset = this._pieceStartOffsets[i];
+
+			if (pieceStartOffset >= endOffset) {
+				break;
+			}
+
+			const pieceStartInBuffer = this._getPieceStartInBuffer(i);
+
+			result += this._buffers[i].substring(
+				pieceStartInBuffer +
+					Math.max(0, startOffset - pieceStartOffset),
+				pieceStartInBuffer +
+					Math.min(
+						this._pieces[i].length,
+						endOffset - pieceStartOffset,
+					),
+			);
+		}
+
+		return result;
+	}
+}
+
+/**
+ * The contents of recently read lines, without their terminators.
+ */
+export class PieceTreeLineCache {
+	private readonly _limit: number;
+
+	// a `Map` iterates in insertion order, so the first key is the least recently used
+	private readonly _lines: Map<number, string>;
+
+	constructor(limit: number) {
+		this._limit = limit;
+
+		this._lines = new Map<number, string>();
+	}
+
+	public get size(): number {
+		return this._lines.size;
+	}
+
+	public get(lineNumber: number): string | undefined {
+		const value = this._lines.get(lineNumber);
+
+		if (value !== undefined) {
+			this._lines.delete(lineNumber);
+
+			this._lines.set(lineNumber, value);
+		}
+
+		return value;
+	}
+
+	public set(lineNumber: number, value: string): void {
+		this._lines.delete(lineNumber);
+
+		if (this._lines.size >= this._limit) {
+			this._lines.delete(this._lines.keys().next().value!);
+		}
+
+		this._lines.set(lineNumber, value);
+	}
+
+	/**
+	 * Forget `lineNumber` and every line after it.
+	 */
+	public invalidate(lineNumber: number): void {
+		for (const key of Array.from(this._lines.keys())) {
+			if (key >= lineNumber) {
+				this._lines.delete(key);
+			}
+		}
+	}
+}
+
+export interface CacheEntry {
+	node: TreeNode;
+
+	nodeStartOffset: number;
+
+	nodeStartLineNumber?: number;
+}
+
+/**
+ * Recently visited nodes with their start offset and line number, least recently used first.
+ */
+export class PieceTreeSearchCache {
+	private readonly _limit: number;
+
+	private _cache: CacheEntry[];
+
+	public hits: number;
+
+	public misses: number;
+
+	constructor(limit: number) {
+		this._limit = limit;
+
+		this._cache = [];
+
+		this.hits = 0;
+
+		this.misses = 0;
+	}
+
+	public get(offset: number): CacheEntry | null {
+		for (let i = this._cache.length - 1; i >= 0; i--) {
+			let nodePos = this._cache[i];
+
+			if (
+				nodePos.nodeStartOffset <= offset &&
+				nodePos.nodeStartOffset + nodePos.node.piece.length >= offset
+			) {
+				this.hits++;
+
+				this._touch(i);
+
+				return nodePos;
+			}
+		}
+
+		this.misses++;
+
+		return null;
+	}
+
+	public get2(lineNumber: number): {
+		node: TreeNode;
+
+		nodeStartOffset: number;
+
+		nodeStartLineNumber: number;
+	} | null {
+		for (let i = this._cache.length - 1; i >= 0; i--) {
+			let nodePos = this._cache[i];
+
+			if (
+				nodePos.nodeStartLineNumber &&
+				nodePos.nodeStartLineNumber < lineNumber &&
+				nodePos.nodeStartLineNumber + nodePos.node.piece.lineFeedCnt >=
+					lineNumber
+			) {
+				this.hits++;
+
+				this._touch(i);
+
+				return <
+					{
+						node: TreeNode;
+
+						nodeStartOffset: number;
+
+						nodeStartLineNumber: number;
+					}
+				>nodePos;
+			}
+		}
+
+		this.misses++;
+
+		return null;
+	}
+
+	public set(nodePosition: CacheEntry) {
+		for (let i = this._cache.length - 1; i >= 0; i--) {
+			if (this._cache[i].node === nodePosition.node) {
+				this._cache.splice(i, 1);
+			}
+		}
+
+		if (this._cache.length >= this._limit) {
+			this._cache.shift();
+		}
+
+		this._cache.push(nodePosition);
+	}
+
+	/**
+	 * Move the entry at `index` to the end, where the least recently used entry is evicted last.
+	 */
+	private _touch(index: number): void {
+		if (index !== this._cache.length - 1) {
+			this._cache.push(this._cache.splice(index, 1)[0]);
+		}
+	}
+
+	public valdiate(offset: number) {
+		let hasInvalidVal = false;
+
+		let tmp: Array<CacheEntry | null> = this._cache;
+
+		for (let i = 0; i < tmp.length; i++) {
+			let nodePos = tmp[i]!;
+
+			if (
+				nodePos.node.parent === null ||
+				nodePos.nodeStartOffset >= offset
+			) {
+				tmp[i] = null;
+
+				hasInvalidVal = true;
+
+				continue;
+			}
+		}
+
+		if (hasInvalidVal) {
+			let newArr: CacheEntry[] = [];
+
+			for (const entry of tmp) {
+				if (entry !== null) {
+					newArr.push(entry);
+				}
+			}
+
+			this._cache = newArr;
+		}
+	}
+}
+
+export class PieceTreeBase {
+	root: TreeNode;
+
+	protected _buffers: StringBuffer[]; // 0 is change buffer, others are readonly original buffer.
+	protected _lineCnt: number;
+
+	protected _length: number;
+
+	protected _utf8Length: number;
+
+	protected _EOL: string;
+
+	protected _EOLLength: number;
+
+	protected _EOLNormalized: boolean;
+
+	/**
+	 * Number of line breaks of each kind, updated by every edit.
+	 */
+	private _cr: number;
+
+	private _lf: number;
+
+	private _crlf: number;
+
+	private _unicode: number;
+
+	/**
+	 * Keep the terminators of inserted text instead of converting them to `_EOL`.
+	 */
+	private readonly _preserveEOL: boolean;
+
+	private readonly _lineBreakPolicy: LineBreakPolicy;
+
+	private _lastChangeBufferPos: BufferCursor;
+
+	private _searchCache: PieceTreeSearchCache;
+
+	private _lineCache: PieceTreeLineCache;
+
+	private _nodeCacheSize: number;
+
+	private _lineCacheSize: number;
+
+	private _versionId: number;
+
+	private readonly _onDidChangeContent: Emitter<IModelContentChangedEvent>;
+
+	public readonly onDidChangeContent: Event<IModelContentChangedEvent>;
+
+	private readonly _onWillFlush: Emitter<void>;
+	/**
+	 * Fired right before all contents are replaced, while the old contents can still be read.
+	 */
+	public readonly onWillFlush: Event<void>;
+
+	/**
+	 * @param eolStatistics The line breaks the builder counted in `chunks`. They are counted
+	 * again when missing and the line breaks are not normalized.
+	 */
+	constructor(
+		chunks: StringBuffer[],
+		eol: "\r\n" | "\n",
+		eolNormalized: boolean,
+		preserveEOL: boolean = false,
+		lineBreakPolicy: LineBreakPolicy = LineBreakPolicy.Standard,
+		eolStatistics?: IEOLStatistics,
+	) {
+		this._versionId = 0;
+
+		this._preserveEOL = preserveEOL;
+
+		this._lineBreakPolicy = lineBreakPolicy;
+
+		this._nodeCacheSize = DEFAULT_NODE_CACHE_SIZE;
+
+		this._lineCacheSize = DEFAULT_LINE_CACHE_SIZE;
+
+		this._onDidChangeContent = new Emitter<IModelContentChangedEvent>();
+
+		this.onDidChangeContent = this._onDidChangeContent.event;
+
+		this._onWillFlush = new Emitter<void>();
+
+		this.onWillFlush = this._onWillFlush.event;
+
+		this.create(chunks, eol, eolNormalized, eolStatistics);
+	}
+
+	create(
+		chunks: StringBuffer[],
+		eol: "\r\n" | "\n",
+		eolNormalized: boolean,
+		eolStatistics?: IEOLStatistics,
+	) {
+		this._onWillFlush.fire();
+
+		this._buffers = [new StringBuffer("", [0])];
+
+		this._lastChangeBufferPos = { line: 0, column: 0 };
+
+		this.root = SENTINEL;
+
+		this._lineCnt = 1;
+
+		this._length = 0;
+
+		this._utf8Length = 0;
+
+		this._EOL = eol;
+
+		this._EOLLength = eol.length;
+
+		this._EOLNormalized = eolNormalized;
+
+		let lastNode: TreeNode | null = null;
+
+		for (let i = 0, len = chunks.length; i < len; i++) {
+			if (chunks[i].buffer.length > 0) {
+				if (!chunks[i].lineStarts) {
+					chunks[i].lineStarts = createLineStartsFast(
+						chunks[i].buffer,
+						true,
+						this._lineBreakPolicy,
+					);
+				}
+
+				let piece = new Piece(
+					i + 1,
+					{ line: 0, column: 0 },
+					{
+						line: chunks[i].lineStarts.length - 1,
+						column:
+							chunks[i].buffer.length -
+							chunks[i].lineStarts[
+								chunks[i].lineStarts.length - 1
+							],
+					},
+					chunks[i].lineStarts.length - 1,
+					chunks[i].buffer.length,
+					getUTF8Length(chunks[i].buffer, 0, chunks[i].buffer.length),
+				);
+
+				this._buffers.push(chunks[i]);
+
+				lastNode = this.rbInsertRight(lastNode, piece);
+			}
+		}
+
+		this._searchCache = new PieceTreeSearchCache(this._nodeCacheSize);
+
+		this._lineCache = new PieceTreeLineCache(this._lineCacheSize);
+
+		this.computeBufferMetadata();
+
+		if (eolNormalized) {
+			this._setNormalizedEOLStatistics();
+		} else {
+			this._setEOLStatistics(eolStatistics ?? this._countEOLStatistics());
+		}
+
+		this._emitContentChanged([], true);
+	}
+
+	private _setEOLStatistics(eolStatistics: IEOLStatistics): void {
+		this._cr = eolStatistics.cr;
+
+		this._lf = eolStatistics.lf;
+
+		this._crlf = eolStatistics.crlf;
+
+		this._unicode = eolStatistics.unicode;
+	}
+
+	/**
+	 * Every line but the last ends with `_EOL`.
+	 */
+	private _setNormalizedEOLStatistics(): void {
+		const eolCount = this._lineCnt - 1;
+
+		this._setEOLStatistics({
+			cr: 0,
+			lf: this._EOL === "\r\n" ? 0 : eolCount,
+			crlf: this._EOL === "\r\n" ? eolCount : 0,
+			unicode: 0,
+		});
+	}
+
+	/**
+	 * Count the line breaks of all pieces, joining a `\r` and a `\n` split between two of them.
+	 */
+	private _countEOLStatistics(): IEOLStatistics {
+		let cr = 0,
+			lf = 0,
+			crlf = 0,
+			unicode = 0;
+
+		let previousEndsWithCR = false;
+
+		this.iterate(this.root, (node) => {
+			const content = this.getNodeContent(node);
+
+			if (content.length === 0) {
+				// `iterate` also visits the sentinel
+				return true;
+			}
+
+			const counts = countLineBreaks(content, this._lineBreakPolicy);
+
+			cr += counts.cr;
+
+			lf += counts.lf;
+
+			crlf += counts.crlf;
+
+			unicode += counts.unicode;
+
+			if (
+				previousEndsWithCR &&
+				content.charCodeAt(0) === CharCode.LineFeed
+			) {
+				cr--;
+
+				lf--;
+
+				crlf++;
+			}
+
+			previousEndsWithCR =
+				content.charCodeAt(content.length - 1) ===
+				CharCode.CarriageReturn;
+
+			return true;
+		});
+
+		return { cr, lf, crlf, unicode };
+	}
+
+	/**
+	 * Update the line break counts for replacing `cnt` characters at `offset` with `value`, before
+	 * the tree changes. Whether a character is a line break, and of which kind, depends only on its
+	 * neighbours, so it is enough to count the edited text with one character on either side.
+	 */
+	private _updateEOLStatistics(
+		offset: number,
+		cnt: number,
+		value: string,
+	): void {
+		const windowStart = Math.max(0, offset - 1);
+
+		const before = this._getValueInOffsets(
+			windowStart,
+			Math.min(this._length, offset + cnt + 1),
+		);
+
+		const prefixLength = offset - windowStart;
+
+		const removed = countLineBreaks(before, this._lineBreakPolicy);
+
+		const added = countLineBreaks(
+			before.substring(0, prefixLength) +
+				value +
+				before.substring(prefixLength + cnt),
+			this._lineBreakPolicy,
+		);
+
+		this._cr += added.cr - removed.cr;
+
+		this._lf += added.lf - removed.lf;
+
+		this._crlf += added.crlf - removed.crlf;
+
+		this._unicode += added.unicode - removed.unicode;
+	}
+
+	private _getValueInOffsets(startOffset: number, endOffset: number): string {
+		if (startOffset >= endOffset) {
+			return "";
+		}
+
+		let { node, remainder } = this.nodeAt(startOffset);
+
+		let result = "";
+
+		while (node !== SENTINEL && result.length < endOffset - startOffset) {
+			result += this.getNodeContent(node).substring(
+				remainder,
+				remainder + endOffset - startOffset - result.length,
+			);
+
+			remainder = 0;
+
+			node = node.next();
+		}
+
+		return result;
+	}
+
+	/**
+	 * Resize the caches of recently visited nodes and lines. Access that jumps between a few
+	 * regions, like a diff view or far apart cursors, hits the cache when there is an entry per region.
+	 * Sizes are rounded down to whole entries; a size that is not a finite number throws.
+	 */
+	public setCacheOptions(options: IPieceTreeCacheOptions): void {
+		if (options.nodeCacheSize !== undefined) {
+			this._nodeCacheSize = validateCacheSize(
+				"nodeCacheSize",
+				options.nodeCacheSize,
+			);
+
+			this._searchCache = new PieceTreeSearchCache(this._nodeCacheSize);
+		}
+
+		if (options.lineCacheSize !== undefined) {
+			this._lineCacheSize = validateCacheSize(
+				"lineCacheSize",
+				options.lineCacheSize,
+			);
+
+			this._lineCache = new PieceTreeLineCache(this._lineCacheSize);
+		}
+	}
+
+	public getCacheOptions(): Required<IPieceTreeCacheOptions> {
+		return {
+			nodeCacheSize: this._nodeCacheSize,
+			lineCacheSize: this._lineCacheSize,
+		};
+	}
+
+	normalizeEOL(eol: "\r\n" | "\n") {
+		let averageBufferSize = AverageBufferSize;
+
+		let min = averageBufferSize - Math.floor(averageBufferSize / 3);
+
+		let max = min * 2;
+
+		let tempChunk = "";
+
+		let tempChunkLen = 0;
+
+		let chunks: StringBuffer[] = [];
+
+		this.iterate(this.root, (node) => {
+			let str = this.getNodeContent(node);
+
+			let len = str.length;
+
+			if (tempChunkLen <= min || tempChunkLen + len < max) {
+				tempChunk += str;
+
+				tempChunkLen += len;
+
+				return true;
+			}
+
+			// flush anyways
+			let text = tempChunk.replace(
+				getLineBreakRegex(this._lineBreakPolicy),
+				eol,
+			);
+
+			chunks.push(
+				new StringBuffer(
+					text,
+					createLineStartsFast(text, true, this._lineBreakPolicy),
+				),
+			);
+
+			tempChunk = str;
+
+			tempChunkLen = len;
+
+			return true;
+		});
+
+		if (tempChunkLen > 0) {
+			let text = tempChunk.replace(
+				getLineBreakRegex(this._lineBreakPolicy),
+				eol,
+			);
+
+			chunks.push(
+				new StringBuffer(
+					text,
+					createLineStartsFast(text, true, this._lineBreakPolicy),
+				),
+			);
+		}
+
+		this.create(chunks, eol, true);
+	}
+
+	// #region Buffer API
+	public getVersionId(): number {
+		return this._versionId;
+	}
+
+	public getEOL(): string {
+		return this._EOL;
+	}
+
+	/**
+	 * Whether each line keeps its own terminator. Text passed to `applyEdits` is then inserted as is.
+	 */
+	public isPreservingEOL(): boolean {
+		return this._preserveEOL;
+	}
+
+	/**
+	 * Which characters end a line in this buffer.
+	 */
+	public getLineBreakPolicy(): LineBreakPolicy {
+		return this._lineBreakPolicy;
+	}
+
+	/**
+	 * Converts every line break to `newEOL`, also when preserving line endings.
+	 */
+	public setEOL(newEOL: "\r\n" | "\n"): void {
+		this._EOL = newEOL;
+
+		this._EOLLength = this._EOL.length;
+
+		this.normalizeEOL(newEOL);
+	}
+
+	public createSnapshot(BOM: string): ITextSnapshot {
+		return new PieceTreeSnapshot(this, BOM);
+	}
+
+	/**
+	 * Unlike `createSnapshot`, the result stays consistent after later edits. No text is copied:
+	 * buffers are append-only strings, so holding on to the pieces and their buffers is enough.
+	 */
+	public createPersistentSnapshot(BOM: string): IPersistentTextSnapshot {
+		return new PieceTreePersistentSnapshot(
+			this,
+			this._buffers,
+			this._EOLNormalized,
+			BOM,
+		);
+	}
+
+	/**
+	 * Copy runs of small pieces into new buffers of about `AverageBufferSize`, one piece each, and
+	 * merge pieces that are adjacent both in the tree and in their buffer. Pieces of at least
+	 * `COMPACTION_MIN_PIECE_LENGTH` in an original buffer are kept as they are, so a large file is
+	 * not copied. The change buffer starts over empty, and buffers no piece refers to anymore are
+	 * dropped. The content stays the same, so no events are fired and the version id does not change.
+	 */
+	public compact(): ICompactionResult {
+		const before = this._getCompactionStatistics();
+
+		// merge pieces that continue each other in the same buffer
+		const runs: {
+			bufferIndex: number;
+			startOffset: number;
+			endOffset: number;
+			start: BufferCursor;
+			end: BufferCursor;
+			lineFeedCnt: number;
+			utf8Length: number;
+		}[] = [];
+
+		this.iterate(this.root, (node) => {
+			if (node === SENTINEL) {
+				return true;
+			}
+
+			const piece = node.piece;
+
+			const bufferIndex = piece.bufferIndex;
+
+			const buffer = this._buffers[bufferIndex].buffer;
+
+			const startOffset = this.offsetInBuffer(bufferIndex, piece.start);
+
+			const endOffset = this.offsetInBuffer(bufferIndex, piece.end);
+
+			const last = runs.length > 0 ? runs[runs.length - 1] : null;
+
+			if (
+				last &&
+				last.bufferIndex === bufferIndex &&
+				last.endOffset === startOffset &&
+				!(
+					buffer.charCodeAt(startOffset - 1) ===
+						CharCode.CarriageReturn &&
+					buffer.charCodeAt(startOffset) === CharCode.LineFeed
+				)
+			) {
+				last.endOffset = endOffset;
+
+				last.end = piece.end;
+
+				last.lineFeedCnt += piece.lineFeedCnt;
+
+				last.utf8Length += piece.utf8Length;
+
+				if (isSurrogatePairAt(buffer, startOffset - 1)) {
+					// the halves of a pair were counted as lone surrogates
+					last.utf8Length -= 2;
+				}
+			} else {
+				runs.push({
+					bufferIndex,
+					startOffset,
+					endOffset,
+					start: piece.start,
+					end: piece.end,
+					lineFeedCnt: piece.lineFeedCnt,
+					utf8Length: piece.utf8Length,
+				});
+			}
+
+			return true;
+		});
+
+		// a new array, so persistent snapshots keep reading the old buffers
+		const buffers: StringBuffer[] = [new StringBuffer("", [0])];
+
+		const newBufferIndexes = new Map<number, number>();
+
+		const pieces: Piece[] = [];
+
+		let pendingText = "";
+
+		const flushPendingText = () => {
+			if (pendingText.length === 0) {
+				return;
+			}
+
+			const lineStarts = createLineStartsFast(
+				pendingText,
+				true,
+				this._lineBreakPolicy,
+			);
+
+			pieces.push(
+				new Piece(
+					buffers.length,
+					{ line: 0, column: 0 },
+					{
+						line: lineStarts.length - 1,
+						column:
+							pendingText.length -
+							lineStarts[lineStarts.length - 1],
+					},
+					lineStarts.length - 1,
+					pendingText.length,
+					getUTF8Length(pendingText, 0, pendingText.length),
+				),
+			);
+
+			buffers.push(new StringBuffer(pendingText, lineStarts));
+
+			pendingText = "";
+		};
+
+		for (const run of runs) {
+			if (
+				run.bufferIndex !== 0 &&
+				run.endOffset - run.startOffset >= COMPACTION_MIN_PIECE_LENGTH
+			) {
+				flushPendingText();
+
+				let bufferIndex = newBufferIndexes.get(run.bufferIndex);
+
+				if (bufferIndex === undefined) {
+					bufferIndex = buffers.length;
+
+					newBufferIndexes.set(run.bufferIndex, bufferIndex);
+
+					buffers.push(this._buffers[run.bufferIndex]);
+				}
+
+				pieces.push(
+					new Piece(
+						bufferIndex,
+						run.start,
+						run.end,
+						run.lineFeedCnt,
+						run.endOffset - run.startOffset,
+						run.utf8Length,
+					),
+				);
+
+				continue;
+			}
+
+			const text = this._buffers[run.bufferIndex].buffer.substring(
+				run.startOffset,
+				run.endOffset,
+			);
+
+			if (
+				pendingText.length >= AverageBufferSize ||
+				(this.endWithCR(pendingText) && this.startWithLF(text))
+			) {
+				// a \r and \n of different pieces must not read as one line break
+				flushPendingText();
+			}
+
+			pendingText += text;
+		}
+
+		flushPendingText();
+
+		this._buffers = buffers;
+
+		this._lastChangeBufferPos = { line: 0, column: 0 };
+
+		this.root = SENTINEL;
+
+		let lastNode: TreeNode | null = null;
+
+		for (const piece of pieces) {
+			lastNode = this.rbInsertRight(lastNode, piece);
+		}
+
+		this._searchCache = new PieceTreeSearchCache(this._nodeCacheSize);
+
+		this._lineCache = new PieceTreeLineCache(this._lineCacheSize);
+
+		this.computeBufferMetadata();
+
+		return {
+			before,
+			after: this._getCompactionStatistics(),
+		};
+	}
+
+	private _getCompactionStatistics(): ICompactionStatistics {
+		let pieceCount = 0;
+
+		this.iterate(this.root, (node) => {
+			if (node !== SENTINEL) {
+				pieceCount++;
+			}
+
+			return true;
+		});
+
+		let bufferLength = 0;
+
+		for (const buffer of this._buffers) {
+			bufferLength += buffer.buffer.length;
+		}
+
+		return {
+			pieceCount,
+			bufferCount: this._buffers.length,
+			changeBufferLength: this._buffers[0].buffer.length,
+			bufferLength,
+		};
+	}
+
+	public getStatistics(): IPieceTreeStatistics {
+		let nodeCount = 0;
+
+		let changeBufferLiveLength = 0;
+
+		this.iterate(this.root, (node) => {
+			if (node !== SENTINEL) {
+				nodeCount++;
+
+				if (node.piece.bufferIndex === 0) {
+					changeBufferLiveLength += node.piece.length;
+				}
+			}
+
+			return true;
+		});
+
+		const buffers = this._buffers.map(
+			(buffer): IStringBufferStatistics => ({
+				length: buffer.buffer.length,
+				lineStartsLength: buffer.lineStarts.length,
+				lineStartsType:
+					buffer.lineStarts instanceof Uint16Array
+						? "Uint16Array"
+						: buffer.lineStarts instanceof Uint32Array
+							? "Uint32Array"
+							: "number[]",
+			}),
+		);
+
+		const { hits, misses } = this._searchCache;
+
+		return {
+			nodeCount,
+			treeHeight: this.getTreeHeight(this.root),
+			bufferCount: this._buffers.length,
+			buffers,
+			changeBufferLiveLength,
+			changeBufferDeadLength:
+				this._buffers[0].buffer.length - changeBufferLiveLength,
+			averagePieceLength: nodeCount > 0 ? this._length / nodeCount : 0,
+			searchCacheHits: hits,
+			searchCacheMisses: misses,
+			searchCacheHitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+		};
+	}
+
+	/**
+	 * A copy that can be edited independently of this tree, in time linear in the number of pieces.
+	 * Buffers are append-only, so both trees share them: the original buffers as they are, and
+	 * the change buffer as a new `StringBuffer` over the same string that each tree appends to.
+	 */
+	public fork(): PieceTreeBase {
+		const fork = new PieceTreeBase(
+			[],
+			this._EOL as "\r\n" | "\n",
+			this._EOLNormalized,
+			this._preserveEOL,
+			this._lineBreakPolicy,
+		);
+
+		const changeBuffer = this._buffers[0];
+
+		fork._buffers = this._buffers.slice(0);
+
+		fork._buffers[0] = new StringBuffer(
+			changeBuffer.buffer,
+			changeBuffer.lineStarts,
+		);
+
+		fork._lastChangeBufferPos = this._lastChangeBufferPos;
+
+		fork.root = this.copySubTree(this.root, SENTINEL);
+
+		fork._lineCnt = this._lineCnt;
+
+		fork._length = this._length;
+
+		fork._utf8Length = this._utf8Length;
+
+		fork._setEOLStatistics(this.getEOLStatistics());
+
+		fork._versionId = this._versionId;
+
+		fork.setCacheOptions(this.getCacheOptions());
+
+		return fork;
+	}
+
+	public equal(other: PieceTreeBase): boolean {
+		if (this.getLength() !== other.getLength()) {
+			return false;
+		}
+
+		if (this.getLineCount() !== other.getLineCount()) {
+			return false;
+		}
+
+		let offset = 0;
+
+		let ret = this.iterate(this.root, (node) => {
+			if (node === SENTINEL) {
+				return true;
+			}
+
+			let str = this.getNodeContent(node);
+
+			let len = str.length;
+
+			let startPosition = other.nodeAt(offset);
+
+			let endPosition = other.nodeAt(offset + len);
+
+			let val = other.getValueInRange2(startPosition, endPosition);
+
+			return str === val;
+		});
+
+		return ret;
+	}
+
+	public getOffsetAt(lineNumber: number, column: number): number {
+		let leftLen = 0; // inorder
+
+		let x = this.root;
+
+		while (x !== SENTINEL) {
+			if (x.left !== SENTINEL && x.lf_left + 1 >= lineNumber) {
+				x = x.left;
+			} else if (x.lf_left + x.piece.lineFeedCnt + 1 >= lineNumber) {
+				leftLen += x.size_left;
+				// lineNumber >= 2
+				let accumualtedValInCurrentIndex = this.getAccumulatedValue(
+					x,
+					lineNumber - x.lf_left - 2,
+				);
+
+				return (leftLen += accumualtedValInCurrentIndex + column - 1);
+			} else {
+				lineNumber -= x.lf_left + x.piece.lineFeedCnt;
+
+				leftLen += x.size_left + x.piece.length;
+
+				x = x.right;
+			}
+		}
+
+		return leftLen;
+	}
+
+	public getPositionAt(offset: number): Position {
+		offset = Math.floor(offset);
+
+		offset = Math.max(0, offset);
+
+		let x = this.root;
+
+		let lfCnt = 0;
+
+		let originalOffset = offset;
+
+		while (x !== SENTINEL) {
+			if (x.size_left !== 0 && x.size_left >= offset) {
+				x = x.left;
+			} else if (x.size_left + x.piece.length >= offset) {
+				let out = this.getIndexOf(x, offset - x.size_left);
+
+				lfCnt += x.lf_left + out.index;
+
+				if (out.index === 0) {
+					let lineStartOffset = this.getOffsetAt(lfCnt + 1, 1);
 
 					let column = originalOffset - lineStartOffset;
 
-					return new Position(lfCnt + 1, column + 1);
+					return new Position(lfCnt + 1, column + 1);
+				}
+
+				return new Position(lfCnt + 1, out.remainder + 1);
+			} else {
+				offset -= x.size_left + x.piece.length;
+
+				lfCnt += x.lf_left + x.piece.lineFeedCnt;
+
+				if (x.right === SENTINEL) {
+					// last node
+					let lineStartOffset = this.getOffsetAt(lfCnt + 1, 1);
+
+					let column = originalOffset - offset - lineStartOffset;
+
+					return new Position(lfCnt + 1, column + 1);
+				} else {
+					x = x.right;
+				}
+			}
+		}
+
+		return new Position(1, 1);
+	}
+
+	public getValueInRange(range: Range, eol?: string): string {
+		if (
+			range.startLineNumber === range.endLineNumber &&
+			range.startColumn === range.endColumn
+		) {
+			return "";
+		}
+
+		let startPosition = this.nodeAt2(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		let endPosition = this.nodeAt2(range.endLineNumber, range.endColumn);
+
+		let value = this.getValueInRange2(startPosition, endPosition);
+
+		if (eol) {
+			if (eol !== this._EOL || !this._EOLNormalized) {
+				return value.replace(
+					getLineBreakRegex(this._lineBreakPolicy),
+					eol,
+				);
+			}
+
+			if (eol === this.getEOL() && this._EOLNormalized) {
+				if (eol === "\r\n") {
+				}
+
+				return value;
+			}
+
+			return value.replace(getLineBreakRegex(this._lineBreakPolicy), eol);
+		}
+
+		return value;
+	}
+
+	public getValueLengthInRange(range: Range): number {
+		if (range.isEmpty()) {
+			return 0;
+		}
+
+		if (range.startLineNumber === range.endLineNumber) {
+			return range.endColumn - range.startColumn;
+		}
+
+		let startOffset = this.getOffsetAt(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		let endOffset = this.getOffsetAt(range.endLineNumber, range.endColumn);
+
+		return endOffset - startOffset;
+	}
+
+	public getValueInRange2(
+		startPosition: NodePosition,
+		endPosition: NodePosition,
+	): string {
+		if (startPosition.node === endPosition.node) {
+			let node = startPosition.node;
+
+			let buffer = this._buffers[node.piece.bufferIndex].buffer;
+
+			let startOffset = this.offsetInBuffer(
+				node.piece.bufferIndex,
+				node.piece.start,
+			);
+
+			return buffer.substring(
+				startOffset + startPosition.remainder,
+				startOffset + endPosition.remainder,
+			);
+		}
+
+		let x = startPosition.node;
+
+		let buffer = this._buffers[x.piece.bufferIndex].buffer;
+
+		let startOffset = this.offsetInBuffer(
+			x.piece.bufferIndex,
+			x.piece.start,
+		);
+
+		let ret = buffer.substring(
+			startOffset + startPosition.remainder,
+			startOffset + x.piece.length,
+		);
+
+		x = x.next();
+
+		while (x !== SENTINEL) {
+			let buffer = this._buffers[x.piece.bufferIndex].buffer;
+
+			let startOffset = this.offsetInBuffer(
+				x.piece.bufferIndex,
+				x.piece.start,
+			);
+
+			if (x === endPosition.node) {
+				ret += buffer.substring(
+					startOffset,
+					startOffset + endPosition.remainder,
+				);
+
+				break;
+			} else {
+				ret += buffer.substr(startOffset, x.piece.length);
+			}
+
+			x = x.next();
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Lines `startLineNumber` to `endLineNumber`, both included, or all lines when no range is given.
+	 */
+	public getLinesContent(
+		startLineNumber?: number,
+		endLineNumber?: number,
+	): string[] {
+		if (startLineNumber === undefined && endLineNumber === undefined) {
+			return this.getContentOfSubTree(this.root).split(
+				getLineBreakRegex(this._lineBreakPolicy),
+			);
+		}
+
+		const result: string[] = [];
+
+		for (const line of this.createLineIterator(
+			startLineNumber,
+			endLineNumber,
+		)) {
+			result.push(line.content);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Lines `startLineNumber` to `endLineNumber`, both included, with the offset each one starts at.
+	 */
+	public getLinesWithOffsets(
+		startLineNumber: number,
+		endLineNumber: number,
+	): ILineWithOffset[] {
+		return Array.from(
+			this.createLineIterator(startLineNumber, endLineNumber),
+		);
+	}
+
+	/**
+	 * A cursor at `position` that steps over one character at a time in either direction.
+	 * Editing the buffer ends its use: the next step throws.
+	 */
+	public createCharacterCursor(
+		position: Position,
+		mode: CharacterStepMode = CharacterStepMode.CodePoint,
+	): ICharacterCursor {
+		const offset = this.getOffsetAt(position.lineNumber, position.column);
+
+		return new PieceTreeCharacterCursor(
+			this,
+			this._buffers,
+			Math.max(0, Math.min(this._length, offset)),
+			mode,
+		);
+	}
+
+	/**
+	 * Iterate over lines `startLineNumber` to `endLineNumber`, both included. The range is clamped to
+	 * the lines of the buffer. Editing the buffer ends the iteration: the next step throws.
+	 */
+	public createLineIterator(
+		startLineNumber: number = 1,
+		endLineNumber: number = this._lineCnt,
+	): IterableIterator<ILineWithOffset> {
+		return new PieceTreeLineIterator(
+			this,
+			this._buffers,
+			Math.max(1, startLineNumber),
+			Math.min(this._lineCnt, endLineNumber),
+		);
+	}
+
+	public getLength(): number {
+		return this._length;
+	}
+
+	/**
+	 * Length of the content in UTF-8 bytes.
+	 */
+	public getByteLength(): number {
+		return this._utf8Length;
+	}
+
+	/**
+	 * Convert a position to an offset in the UTF-8 encoded content.
+	 */
+	public getByteOffsetAt(position: Position): number {
+		if (this.root === SENTINEL) {
+			return 0;
+		}
+
+		const offset = this.getOffsetAt(position.lineNumber, position.column);
+
+		const { node, remainder } = this.nodeAt(offset);
+
+		let utf8Offset = node.utf8_size_left;
+
+		let x = node;
+
+		while (x !== this.root) {
+			if (x.parent.right === x) {
+				utf8Offset +=
+					x.parent.utf8_size_left + x.parent.piece.utf8Length;
+			}
+
+			x = x.parent;
+		}
+
+		return (
+			utf8Offset +
+			this.getPieceUTF8Length(
+				node.piece,
+				node.piece.start,
+				this.positionInBuffer(node, remainder),
+			)
+		);
+	}
+
+	/**
+	 * Convert an offset in the UTF-8 encoded content to a position.
+	 * An offset inside a multi-byte character resolves to the start of that character.
+	 */
+	public getPositionAtByteOffset(byteOffset: number): Position {
+		byteOffset = Math.floor(byteOffset);
+
+		byteOffset = Math.max(0, byteOffset);
+
+		let x = this.root;
+
+		let offset = 0;
+
+		while (x !== SENTINEL) {
+			if (x.utf8_size_left !== 0 && x.utf8_size_left >= byteOffset) {
+				x = x.left;
+			} else if (x.utf8_size_left + x.piece.utf8Length >= byteOffset) {
+				offset +=
+					x.size_left +
+					this.getPieceLengthForUTF8Length(
+						x.piece,
+						byteOffset - x.utf8_size_left,
+					);
+
+				break;
+			} else {
+				byteOffset -= x.utf8_size_left + x.piece.utf8Length;
+
+				offset += x.size_left + x.piece.length;
+
+				x = x.right;
+			}
+		}
+
+		return this.getPositionAt(offset);
+	}
+
+	/**
+	 * Like `getOffsetAt`, with `column` counted in `encoding` units. The returned offset is in
+	 * UTF-16 code units.
+	 */
+	public getOffsetAtInEncoding(
+		lineNumber: number,
+		column: number,
+		encoding: PositionEncodingKind,
+	): number {
+		const position = this.fromEncodedPosition(
+			new Position(lineNumber, column),
+			encoding,
+		);
+
+		return this.getOffsetAt(position.lineNumber, position.column);
+	}
+
+	/**
+	 * Like `getPositionAt`, with the column of the result counted in `encoding` units.
+	 * `offset` is in UTF-16 code units.
+	 */
+	public getPositionAtInEncoding(
+		offset: number,
+		encoding: PositionEncodingKind,
+	): Position {
+		return this.toEncodedPosition(this.getPositionAt(offset), encoding);
+	}
+
+	/**
+	 * Convert a position with a UTF-16 column to one with its column counted in `encoding` units.
+	 * In every encoding, a column outside the line is clamped to the line.
+	 */
+	public toEncodedPosition(
+		position: Position,
+		encoding: PositionEncodingKind,
+	): Position {
+		return position.with(
+			undefined,
+			toEncodedColumn(
+				this.getLineContent(position.lineNumber),
+				position.column,
+				encoding,
+			),
+		);
+	}
+
+	/**
+	 * Convert a position with its column counted in `encoding` units to one with a UTF-16 column.
+	 * In every encoding, a column outside the line is clamped to the line.
+	 */
+	public fromEncodedPosition(
+		position: Position,
+		encoding: PositionEncodingKind,
+	): Position {
+		return position.with(
+			undefined,
+			fromEncodedColumn(
+				this.getLineContent(position.lineNumber),
+				position.column,
+				encoding,
+			),
+		);
+	}
+
+	/**
+	 * Convert a range with UTF-16 columns to one with its columns counted in `encoding` units.
+	 */
+	public toEncodedRange(range: Range, encoding: PositionEncodingKind): Range {
+		return Range.fromPositions(
+			this.toEncodedPosition(range.getStartPosition(), encoding),
+			this.toEncodedPosition(range.getEndPosition(), encoding),
+		);
+	}
+
+	/**
+	 * Convert a range with its columns counted in `encoding` units to one with UTF-16 columns.
+	 */
+	public fromEncodedRange(
+		range: Range,
+		encoding: PositionEncodingKind,
+	): Range {
+		return Range.fromPositions(
+			this.fromEncodedPosition(range.getStartPosition(), encoding),
+			this.fromEncodedPosition(range.getEndPosition(), encoding),
+		);
+	}
+
+	public getLineCount(): number {
+		return this._lineCnt;
+	}
+
+	/**
+	 * Guess the indentation from the first lines of the buffer.
+	 */
+	public guessIndentation(
+		defaultTabSize: number,
+		defaultInsertSpaces: boolean,
+	): IGuessedIndentation {
+		return guessIndentation(this, defaultTabSize, defaultInsertSpaces);
+	}
+
+	/**
+	 * The word that contains or touches `position`, or `null` when there is none.
+	 */
+	public getWordAtPosition(
+		position: Position,
+		wordSeparators?: string,
+	): IWordAtPosition | null {
+		return getWordAtPosition(this, position, wordSeparators);
+	}
+
+	/**
+	 * The part of the word at `position` that comes before it.
+	 */
+	public getWordUntilPosition(
+		position: Position,
+		wordSeparators?: string,
+	): IWordAtPosition {
+		return getWordUntilPosition(this, position, wordSeparators);
+	}
+
+	/**
+	 * @param lineNumber 1 based
+	 */
+	public getLineContent(lineNumber: number): string {
+		let value = this._lineCache.get(lineNumber);
+
+		if (value !== undefined) {
+			return value;
+		}
+
+		if (lineNumber === this._lineCnt) {
+			value = this.getLineRawContent(lineNumber);
+		} else if (this._EOLNormalized) {
+			value = this.getLineRawContent(lineNumber, this._EOLLength);
+		} else {
+			value = this.getLineRawContent(lineNumber).replace(
+				getTrailingLineBreakRegex(this._lineBreakPolicy),
+				"",
+			);
+		}
+
+		this._lineCache.set(lineNumber, value);
+
+		return value;
+	}
+
+	public getLineCharCode(lineNumber: number, index: number): number {
+		let nodePos = this.nodeAt2(lineNumber, index + 1);
+
+		if (nodePos.remainder === nodePos.node.piece.length) {
+			// the char we want to fetch is at the head of next node.
+			let matchingNode = nodePos.node.next();
+
+			if (!matchingNode) {
+				return 0;
+			}
+
+			let buffer = this._buffers[matchingNode.piece.bufferIndex];
+
+			let startOffset = this.offsetInBuffer(
+				matchingNode.piece.bufferIndex,
+				matchingNode.piece.start,
+			);
+
+			return buffer.buffer.charCodeAt(startOffset);
+		} else {
+			let buffer = this._buffers[nodePos.node.piece.bufferIndex];
+
+			let startOffset = this.offsetInBuffer(
+				nodePos.node.piece.bufferIndex,
+				nodePos.node.piece.start,
+			);
+
+			let targetOffset = startOffset + nodePos.remainder;
+
+			return buffer.buffer.charCodeAt(targetOffset);
+		}
+	}
+
+	public getLineLength(lineNumber: number): number {
+		if (lineNumber === this.getLineCount()) {
+			let startOffset = this.getOffsetAt(lineNumber, 1);
+
+			return this.getLength() - startOffset;
+		}
+
+		return (
+			this.getOffsetAt(lineNumber + 1, 1) -
+			this.getOffsetAt(lineNumber, 1) -
+			(this._EOLNormalized
+				? this._EOLLength
+				: this.getLineEnding(lineNumber).length)
+		);
+	}
+
+	/**
+	 * The terminator `lineNumber` actually ends with, `""` for the last line.
+	 */
+	public getLineEnding(lineNumber: number): LineEnding {
+		if (lineNumber >= this._lineCnt) {
+			return "";
+		}
+
+		if (this._EOLNormalized) {
+			return this._EOL as "\r\n" | "\n";
+		}
+
+		const rawLength =
+			this.getOffsetAt(lineNumber + 1, 1) -
+			this.getOffsetAt(lineNumber, 1);
+
+		const lastCharCode = this.getLineCharCode(lineNumber, rawLength - 1);
+
+		if (lastCharCode !== CharCode.LineFeed) {
+			// \r or, with `LineBreakPolicy.Unicode`, a single character line break
+			return String.fromCharCode(lastCharCode) as LineEnding;
+		}
+
+		if (
+			rawLength >= 2 &&
+			this.getLineCharCode(lineNumber, rawLength - 2) ===
+				CharCode.CarriageReturn
+		) {
+			return "\r\n";
+		}
+
+		return "\n";
+	}
+
+	/**
+	 * Count the terminators of all lines.
+	 */
+	public getEOLStatistics(): IEOLStatistics {
+		return {
+			cr: this._cr,
+			lf: this._lf,
+			crlf: this._crlf,
+			unicode: this._unicode,
+		};
+	}
+
+	public applyEdits(
+		rawOperations: ISingleEditOperation[],
+		recordTrimAutoWhitespace: boolean = false,
+		computeUndoEdits: boolean = false,
+	): ApplyEditsResult {
+		let operations: IValidatedEditOperation[] = [];
+
+		for (let i = 0; i < rawOperations.length; i++) {
+			const op = rawOperations[i];
+
+			let validText = "";
+
+			let eolCount = 0;
+
+			let firstLineLength = 0;
+
+			let lastLineLength = 0;
+
+			if (op.text) {
+				let strEOL: StringEOL;
+
+				[eolCount, firstLineLength, lastLineLength, strEOL] = countEOL(
+					op.text,
+					this._lineBreakPolicy,
+				);
+
+				const expectedStrEOL =
+					this._EOL === "\r\n" ? StringEOL.CRLF : StringEOL.LF;
+
+				if (
+					this._preserveEOL ||
+					strEOL === StringEOL.Unknown ||
+					strEOL === expectedStrEOL
+				) {
+					validText = op.text;
+				} else {
+					validText = op.text.replace(
+						getLineBreakRegex(this._lineBreakPolicy),
+						this._EOL,
+					);
+				}
+			}
+
+			const range = this._validateRange(op.range);
+
+			operations[i] = {
+				sortIndex: i,
+				range,
+				rangeOffset: this.getOffsetAt(
+					range.startLineNumber,
+					range.startColumn,
+				),
+				rangeLength: this.getValueLengthInRange(range),
+				text: validText,
+				eolCount: eolCount,
+				firstLineLength: firstLineLength,
+				lastLineLength: lastLineLength,
+				forceMoveMarkers: Boolean(op.forceMoveMarkers),
+				isAutoWhitespaceEdit: op.isAutoWhitespaceEdit || false,
+			};
+		}
+
+		// Sort operations ascending
+		operations.sort(PieceTreeBase._sortOpsAscending);
+
+		let hasTouchingRanges = false;
+
+		for (let i = 0, count = operations.length - 1; i < count; i++) {
+			const rangeEnd = operations[i].range.getEndPosition();
+
+			const nextRangeStart = operations[i + 1].range.getStartPosition();
+
+			if (nextRangeStart.isBeforeOrEqual(rangeEnd)) {
+				if (nextRangeStart.isBefore(rangeEnd)) {
+					// overlapping ranges
+					throw new Error("Overlapping ranges are not allowed!");
+				}
+
+				hasTouchingRanges = true;
+			}
+		}
+
+		// Delta encode operations
+		const reverseRanges =
+			computeUndoEdits || recordTrimAutoWhitespace
+				? PieceTreeBase._getInverseEditRanges(operations)
+				: [];
+
+		const newTrimAutoWhitespaceCandidates: {
+			lineNumber: number;
+
+			oldContent: string;
+		}[] = [];
+
+		if (recordTrimAutoWhitespace) {
+			for (let i = 0; i < operations.length; i++) {
+				const op = operations[i];
+
+				const reverseRange = reverseRanges[i];
+
+				if (op.isAutoWhitespaceEdit && op.range.isEmpty()) {
+					// Record already the future line numbers that might be auto whitespace removal candidates on next edit
+					for (
+						let lineNumber = reverseRange.startLineNumber;
+						lineNumber <= reverseRange.endLineNumber;
+						lineNumber++
+					) {
+						let currentLineContent = "";
+
+						if (lineNumber === reverseRange.startLineNumber) {
+							currentLineContent = this.getLineContent(
+								op.range.startLineNumber,
+							);
+
+							if (
+								firstNonWhitespaceIndex(currentLineContent) !==
+								-1
+							) {
+								continue;
+							}
+						}
+
+						newTrimAutoWhitespaceCandidates.push({
+							lineNumber: lineNumber,
+							oldContent: currentLineContent,
+						});
+					}
+				}
+			}
+		}
+
+		let reverseOperations: IReverseSingleEditOperation[] | null = null;
+
+		if (computeUndoEdits) {
+			reverseOperations = [];
+
+			for (let i = 0; i < operations.length; i++) {
+				const op = operations[i];
+
+				const reverseRange = reverseRanges[i];
+
+				const bufferText = this.getValueInRange(op.range);
+
+				reverseOperations[i] = {
+					sortIndex: op.sortIndex,
+					range: reverseRange,
+					text: bufferText,
+				};
+			}
+
+			// Can only sort reverse operations when the order is not significant
+			if (!hasTouchingRanges) {
+				reverseOperations.sort((a, b) => a.sortIndex - b.sortIndex);
+			}
+		}
+
+		const contentChanges = this._doApplyEdits(operations);
+
+		if (contentChanges.length > 0) {
+			this._emitContentChanged(contentChanges, false);
+		}
+
+		let trimAutoWhitespaceLineNumbers: number[] | null = null;
+
+		if (
+			recordTrimAutoWhitespace &&
+			newTrimAutoWhitespaceCandidates.length > 0
+		) {
+			// sort line numbers auto whitespace removal candidates for next edit descending
+			newTrimAutoWhitespaceCandidates.sort(
+				(a, b) => b.lineNumber - a.lineNumber,
+			);
+
+			trimAutoWhitespaceLineNumbers = [];
+
+			for (
+				let i = 0, len = newTrimAutoWhitespaceCandidates.length;
+				i < len;
+				i++
+			) {
+				const lineNumber =
+					newTrimAutoWhitespaceCandidates[i].lineNumber;
+
+				if (
+					i > 0 &&
+					newTrimAutoWhitespaceCandidates[i - 1].lineNumber ===
+						lineNumber
+				) {
+					// Do not have the same line number twice
+					continue;
+				}
+
+				const prevContent =
+					newTrimAutoWhitespaceCandidates[i].oldContent;
+
+				const lineContent = this.getLineContent(lineNumber);
+
+				if (
+					lineContent.length === 0 ||
+					lineContent === prevContent ||
+					firstNonWhitespaceIndex(lineContent) !== -1
+				) {
+					continue;
+				}
+
+				trimAutoWhitespaceLineNumbers.push(lineNumber);
+			}
+		}
+
+		return new ApplyEditsResult(
+			reverseOperations,
+			contentChanges,
+			trimAutoWhitespaceLineNumbers,
+		);
+	}
+
+	private _doApplyEdits(
+		operations: IValidatedEditOperation[],
+	): IInternalModelContentChange[] {
+		operations.sort(PieceTreeBase._sortOpsDescending);
+
+		let contentChanges: IInternalModelContentChange[] = [];
+
+		// operations are from bottom to top
+		for (let i = 0; i < operations.length; i++) {
+			let op = operations[i];
+
+			const startLineNumber = op.range.startLineNumber;
+
+			const startColumn = op.range.startColumn;
+
+			const endLineNumber = op.range.endLineNumber;
+
+			const endColumn = op.range.endColumn;
+
+			if (
+				startLineNumber === endLineNumber &&
+				startColumn === endColumn &&
+				op.text.length === 0
+			) {
+				// no-op
+				continue;
+			}
+
+			if (op.text) {
+				// replacement
+				this._delete(op.rangeOffset, op.rangeLength);
+
+				// text is only left unconverted when preserving line endings
+				this._insert(
+					op.rangeOffset,
+					op.text,
+					!this._preserveEOL || op.eolCount === 0,
+				);
+			} else {
+				// deletion
+				this._delete(op.rangeOffset, op.rangeLength);
+			}
+
+			const contentChangeRange = new Range(
+				startLineNumber,
+				startColumn,
+				endLineNumber,
+				endColumn,
+			);
+
+			contentChanges.push({
+				range: contentChangeRange,
+				rangeLength: op.rangeLength,
+				text: op.text,
+				rangeOffset: op.rangeOffset,
+				forceMoveMarkers: op.forceMoveMarkers,
+			});
+		}
+
+		return contentChanges;
+	}
+
+	/**
+	 * Assumes `operations` are validated and sorted ascending
+	 */
+	private static _getInverseEditRanges(
+		operations: IValidatedEditOperation[],
+	): Range[] {
+		let result: Range[] = [];
+
+		let prevOpEndLineNumber: number = 0;
+
+		let prevOpEndColumn: number = 0;
+
+		let prevOp: IValidatedEditOperation | null = null;
+
+		for (let i = 0, len = operations.length; i < len; i++) {
+			let op = operations[i];
+
+			let startLineNumber: number;
+
+			let startColumn: number;
+
+			if (prevOp) {
+				if (prevOp.range.endLineNumber === op.range.startLineNumber) {
+					startLineNumber = prevOpEndLineNumber;
+
+					startColumn =
+						prevOpEndColumn +
+						(op.range.startColumn - prevOp.range.endColumn);
+				} else {
+					startLineNumber =
+						prevOpEndLineNumber +
+						(op.range.startLineNumber - prevOp.range.endLineNumber);
+
+					startColumn = op.range.startColumn;
+				}
+			} else {
+				startLineNumber = op.range.startLineNumber;
+
+				startColumn = op.range.startColumn;
+			}
+
+			let resultRange: Range;
+
+			if (op.text.length > 0) {
+				// the operation inserts something
+				const lineCount = op.eolCount + 1;
+
+				if (lineCount === 1) {
+					// single line insert
+					resultRange = new Range(
+						startLineNumber,
+						startColumn,
+						startLineNumber,
+						startColumn + op.firstLineLength,
+					);
+				} else {
+					// multi line insert
+					resultRange = new Range(
+						startLineNumber,
+						startColumn,
+						startLineNumber + lineCount - 1,
+						op.lastLineLength + 1,
+					);
+				}
+			} else {
+				// There is nothing to insert
+				resultRange = new Range(
+					startLineNumber,
+					startColumn,
+					startLineNumber,
+					startColumn,
+				);
+			}
+
+			prevOpEndLineNumber = resultRange.endLineNumber;
+
+			prevOpEndColumn = resultRange.endColumn;
+
+			result.push(resultRange);
+
+			prevOp = op;
+		}
+
+		return result;
+	}
+
+	/**
+	 * `range` with its positions clamped to the buffer.
+	 */
+	private _validateRange(range: Range): Range {
+		const start = this._validatePosition(
+			range.startLineNumber,
+			range.startColumn,
+		);
+
+		const end = this._validatePosition(
+			range.endLineNumber,
+			range.endColumn,
+		);
+
+		if (
+			start.lineNumber === range.startLineNumber &&
+			start.column === range.startColumn &&
+			end.lineNumber === range.endLineNumber &&
+			end.column === range.endColumn
+		) {
+			return range;
+		}
+
+		return new Range(
+			start.lineNumber,
+			start.column,
+			end.lineNumber,
+			end.column,
+		);
+	}
+
+	private _validatePosition(lineNumber: number, column: number): Position {
+		if (lineNumber < 1) {
+			return new Position(1, 1);
+		}
+
+		if (lineNumber > this._lineCnt) {
+			return new Position(
+				this._lineCnt,
+				this.getLineLength(this._lineCnt) + 1,
+			);
+		}
+
+		const maxColumn = this.getLineLength(lineNumber) + 1;
+
+		return new Position(
+			lineNumber,
+			Math.min(maxColumn, Math.max(1, column)),
+		);
+	}
+
+	private static _sortOpsAscending(
+		a: IValidatedEditOperation,
+		b: IValidatedEditOperation,
+	): number {
+		let r = Range.compareRangesUsingEnds(a.range, b.range);
+
+		if (r === 0) {
+			return a.sortIndex - b.sortIndex;
+		}
+
+		return r;
+	}
+
+	private static _sortOpsDescending(
+		a: IValidatedEditOperation,
+		b: IValidatedEditOperation,
+	): number {
+		let r = Range.compareRangesUsingEnds(a.range, b.range);
+
+		if (r === 0) {
+			return b.sortIndex - a.sortIndex;
+		}
+
+		return -r;
+	}
+
+	public findMatches(
+		searchString: string,
+		searchRange: Range,
+		isRegex: boolean,
+		matchCase: boolean,
+		wordSeparators: string | null,
+		captureMatches: boolean,
+		limitResultCount: number,
+	): FindMatch[] {
+		const searchData = new SearchParams(
+			searchString,
+			isRegex,
+			matchCase,
+			wordSeparators,
+		).parseSearchRequest();
+
+		if (!searchData || limitResultCount <= 0) {
+			return [];
+		}
+
+		if (searchData.multiline) {
+			return this.findMatchesMultiline(
+				searchRange,
+				searchData,
+				captureMatches,
+				limitResultCount,
+			);
+		}
+
+		return this.findMatchesLineByLine(
+			searchRange,
+			searchData,
+			captureMatches,
+			limitResultCount,
+		);
+	}
+
+	public findMatchesInNode(
+		node: TreeNode,
+		searcher: Searcher,
+		startLineNumber: number,
+		startColumn: number,
+		startCursor: BufferCursor,
+		endCursor: BufferCursor,
+		captureMatches: boolean,
+		limitResultCount: number,
+		resultLen: number,
+		result: FindMatch[],
+	): number {
+		const bufferIndex = node.piece.bufferIndex;
+
+		const buffer = this._buffers[bufferIndex];
+
+		const startOffsetInBuffer = this.offsetInBuffer(
+			bufferIndex,
+			node.piece.start,
+		);
+
+		const start = this.offsetInBuffer(bufferIndex, startCursor);
+
+		const end = this.offsetInBuffer(bufferIndex, endCursor);
+
+		// only search the part of the buffer that belongs to this piece, so matches can't run past it.
+		const searchText = buffer.buffer.substring(start, end);
+
+		const matchStart: BufferCursor = { line: 0, column: 0 };
+
+		const matchEnd: BufferCursor = { line: 0, column: 0 };
+
+		let m: RegExpExecArray | null;
+
+		// Reset regex to search from the beginning
+		searcher.reset(0);
+
+		do {
+			m = searcher.next(searchText);
+
+			if (m) {
+				if (m.index >= searchText.length) {
+					return resultLen;
 				}
 
-				return new Position(lfCnt + 1, out.remainder + 1);
-			} else {
-				offset -= x.size_left + x.piece.length;
+				this.positionInBuffer(
+					node,
+					start + m.index - startOffsetInBuffer,
+					matchStart,
+				);
 
-				lfCnt += x.lf_left + x.piece.lineFeedCnt;
+				this.positionInBuffer(
+					node,
+					start + m.index + m[0].length - startOffsetInBuffer,
+					matchEnd,
+				);
 
-				if (x.right === SENTINEL) {
-					// last node
-					let lineStartOffset = this.getOffsetAt(lfCnt + 1, 1);
+				const startLineFeedCnt = this.getLineFeedCnt(
+					bufferIndex,
+					startCursor,
+					matchStart,
+				);
 
-					let column = originalOffset - offset - lineStartOffset;
+				const endLineFeedCnt = this.getLineFeedCnt(
+					bufferIndex,
+					startCursor,
+					matchEnd,
+				);
 
-					return new Position(lfCnt + 1, column + 1);
-				} else {
-					x = x.right;
+				result[resultLen++] = createFindMatch(
+					new Range(
+						startLineNumber + startLineFeedCnt,
+						matchStart.line === startCursor.line
+							? matchStart.column -
+									startCursor.column +
+									startColumn
+							: matchStart.column + 1,
+						startLineNumber + endLineFeedCnt,
+						matchEnd.line === startCursor.line
+							? matchEnd.column - startCursor.column + startColumn
+							: matchEnd.column + 1,
+					),
+					m,
+					captureMatches,
+				);
+
+				if (m.index + m[0].length >= searchText.length) {
+					return resultLen;
+				}
+
+				if (resultLen >= limitResultCount) {
+					return resultLen;
 				}
 			}
-		}
+		} while (m);
 
-		return new Position(1, 1);
+		return resultLen;
 	}
 
-	public getValueInRange(range: Range, eol?: string): string {
-		if (
-			range.startLineNumber === range.endLineNumber &&
-			range.startColumn === range.endColumn
-		) {
-			return "";
-		}
+	public findMatchesLineByLine(
+		searchRange: Range,
+		searchData: SearchData,
+		captureMatches: boolean,
+		limitResultCount: number,
+	): FindMatch[] {
+		const result: FindMatch[] = [];
+
+		let resultLen = 0;
+
+		const searcher = new Searcher(
+			searchData.wordSeparators,
+			searchData.regex,
+		);
 
 		let startPosition = this.nodeAt2(
-			range.startLineNumber,
-			range.startColumn,
+			searchRange.startLineNumber,
+			searchRange.startColumn,
 		);
 
-		let endPosition = this.nodeAt2(range.endLineNumber, range.endColumn);
+		if (startPosition === null) {
+			return [];
+		}
 
-		let value = this.getValueInRange2(startPosition, endPosition);
+		const endPosition = this.nodeAt2(
+			searchRange.endLineNumber,
+			searchRange.endColumn,
+		);
 
-		if (eol) {
-			if (eol !== this._EOL || !this._EOLNormalized) {
-				return value.replace(/\r\n|\r|\n/g, eol);
+		if (endPosition === null) {
+			return [];
+		}
+
+		let start = this.positionInBuffer(
+			startPosition.node,
+			startPosition.remainder,
+		);
+
+		const end = this.positionInBuffer(
+			endPosition.node,
+			endPosition.remainder,
+		);
+
+		if (startPosition.node === endPosition.node) {
+			this.findMatchesInNode(
+				startPosition.node,
+				searcher,
+				searchRange.startLineNumber,
+				searchRange.startColumn,
+				start,
+				end,
+				captureMatches,
+				limitResultCount,
+				resultLen,
+				result,
+			);
+
+			return result;
+		}
+
+		let startLineNumber = searchRange.startLineNumber;
+
+		let currentNode = startPosition.node;
+
+		while (currentNode !== endPosition.node) {
+			// count from the piece start, `start` may sit between a `\r` and a `\n` that belongs to another piece.
+			const lineBreakCnt =
+				currentNode.piece.lineFeedCnt -
+				this.getLineFeedCnt(
+					currentNode.piece.bufferIndex,
+					currentNode.piece.start,
+					start,
+				);
+
+			if (lineBreakCnt >= 1) {
+				// last line break position
+				const lineStarts =
+					this._buffers[currentNode.piece.bufferIndex].lineStarts;
+
+				const startOffsetInBuffer = this.offsetInBuffer(
+					currentNode.piece.bufferIndex,
+					currentNode.piece.start,
+				);
+
+				const nextLineStartOffset = Math.min(
+					lineStarts[start.line + lineBreakCnt],
+					startOffsetInBuffer + currentNode.piece.length,
+				);
+
+				const startColumn =
+					startLineNumber === searchRange.startLineNumber
+						? searchRange.startColumn
+						: 1;
+
+				resultLen = this.findMatchesInNode(
+					currentNode,
+					searcher,
+					startLineNumber,
+					startColumn,
+					start,
+					this.positionInBuffer(
+						currentNode,
+						nextLineStartOffset - startOffsetInBuffer,
+					),
+					captureMatches,
+					limitResultCount,
+					resultLen,
+					result,
+				);
+
+				if (resultLen >= limitResultCount) {
+					return result;
+				}
+
+				startLineNumber += lineBreakCnt;
 			}
 
-			if (eol === this.getEOL() && this._EOLNormalized) {
-				if (eol === "\r\n") {
+			const startColumn =
+				startLineNumber === searchRange.startLineNumber
+					? searchRange.startColumn - 1
+					: 0;
+
+			// search for the remaining content
+			if (startLineNumber === searchRange.endLineNumber) {
+				const text = this.getLineContent(startLineNumber).substring(
+					startColumn,
+					searchRange.endColumn - 1,
+				);
+
+				resultLen = this._findMatchesInLine(
+					searchData,
+					searcher,
+					text,
+					searchRange.endLineNumber,
+					startColumn,
+					resultLen,
+					result,
+					captureMatches,
+					limitResultCount,
+				);
+
+				return result;
+			}
+
+			resultLen = this._findMatchesInLine(
+				searchData,
+				searcher,
+				this.getLineContent(startLineNumber).substr(startColumn),
+				startLineNumber,
+				startColumn,
+				resultLen,
+				result,
+				captureMatches,
+				limitResultCount,
+			);
+
+			if (resultLen >= limitResultCount) {
+				return result;
+			}
+
+			startLineNumber++;
+
+			startPosition = this.nodeAt2(startLineNumber, 1);
+
+			currentNode = startPosition.node;
+
+			start = this.positionInBuffer(
+				startPosition.node,
+				startPosition.remainder,
+			);
+		}
+
+		if (startLineNumber === searchRange.endLineNumber) {
+			const startColumn =
+				startLineNumber === searchRange.startLineNumber
+					? searchRange.startColumn - 1
+					: 0;
+
+			const text = this.getLineContent(startLineNumber).substring(
+				startColumn,
+				searchRange.endColumn - 1,
+			);
+
+			resultLen = this._findMatchesInLine(
+				searchData,
+				searcher,
+				text,
+				searchRange.endLineNumber,
+				startColumn,
+				resultLen,
+				result,
+				captureMatches,
+				limitResultCount,
+			);
+
+			return result;
+		}
+
+		const startColumn =
+			startLineNumber === searchRange.startLineNumber
+				? searchRange.startColumn
+				: 1;
+
+		resultLen = this.findMatchesInNode(
+			endPosition.node,
+			searcher,
+			startLineNumber,
+			startColumn,
+			start,
+			end,
+			captureMatches,
+			limitResultCount,
+			resultLen,
+			result,
+		);
+
+		return result;
+	}
+
+	/**
+	 * Search for matches that may span several lines. Instead of building the text of the whole
+	 * range, lines are read in windows. A match is only accepted once it ends before the last
+	 * line of its window. The next window starts on the line of the first match that was not
+	 * accepted, or else on the line the last accepted match ends on, since a match starting after
+	 * it may end beyond the window, and the window shrinks back to its first size. When that is
+	 * the line the window already started on, the window is doubled instead, up to
+	 * `MultilineSearchMaxWindowSize` lines. A window that cannot grow any more moves on by half
+	 * its size, so a search without matches reads each line at most twice.
+	 */
+	public findMatchesMultiline(
+		searchRange: Range,
+		searchData: SearchData,
+		captureMatches: boolean,
+		limitResultCount: number,
+	): FindMatch[] {
+		const result: FindMatch[] = [];
+
+		const searcher = new Searcher(
+			searchData.wordSeparators,
+			searchData.regex,
+		);
+
+		const lineStarts: number[] = [];
+
+		let windowSize = MultilineSearchWindowSize;
+
+		let windowStartLineNumber = searchRange.startLineNumber;
+
+		// the position the next search starts from.
+		let cursor = new Position(
+			searchRange.startLineNumber,
+			searchRange.startColumn,
+		);
+
+		while (true) {
+			const windowStartColumn =
+				windowStartLineNumber === searchRange.startLineNumber
+					? searchRange.startColumn
+					: 1;
+
+			const windowEndLineNumber = windowStartLineNumber + windowSize - 1;
+
+			const isLastWindow =
+				windowEndLineNumber >= searchRange.endLineNumber;
+
+			// line breaks are read as `\n`, so columns in the window match the columns in the buffer.
+			const text = this.getValueInRange(
+				isLastWindow
+					? new Range(
+							windowStartLineNumber,
+							windowStartColumn,
+							searchRange.endLineNumber,
+							searchRange.endColumn,
+						)
+					: new Range(
+							windowStartLineNumber,
+							windowStartColumn,
+							windowEndLineNumber + 1,
+							1,
+						),
+				"\n",
+			);
+
+			lineStarts.length = 0;
+
+			lineStarts.push(0);
+
+			for (let i = 0, len = text.length; i < len; i++) {
+				if (text.charCodeAt(i) === CharCode.LineFeed) {
+					lineStarts.push(i + 1);
 				}
+			}
 
-				return value;
+			// the text always ends with the line break of the last line unless this is the last window.
+			const lastLineStartOffset = isLastWindow
+				? text.length
+				: lineStarts[lineStarts.length - 2];
+
+			const toPosition = (offset: number): Position => {
+				let low = 0;
+
+				let high = lineStarts.length - 1;
+
+				while (low < high) {
+					const mid = (low + high + 1) >>> 1;
+
+					if (lineStarts[mid] <= offset) {
+						low = mid;
+					} else {
+						high = mid - 1;
+					}
+				}
+
+				return new Position(
+					windowStartLineNumber + low,
+					offset -
+						lineStarts[low] +
+						(low === 0 ? windowStartColumn : 1),
+				);
+			};
+
+			searcher.reset(
+				lineStarts[cursor.lineNumber - windowStartLineNumber] +
+					cursor.column -
+					(cursor.lineNumber === windowStartLineNumber
+						? windowStartColumn
+						: 1),
+			);
+
+			let pendingMatchOffset = -1;
+
+			let m: RegExpExecArray | null;
+
+			while ((m = searcher.next(text))) {
+				const matchEndOffset = m.index + m[0].length;
+
+				if (matchEndOffset > lastLineStartOffset) {
+					// the match might continue after this window.
+					pendingMatchOffset = m.index;
+
+					break;
+				}
+
+				const startPosition = toPosition(m.index);
+
+				const endPosition = toPosition(matchEndOffset);
+
+				result.push(
+					createFindMatch(
+						new Range(
+							startPosition.lineNumber,
+							startPosition.column,
+							endPosition.lineNumber,
+							endPosition.column,
+						),
+						m,
+						captureMatches,
+					),
+				);
+
+				if (result.length >= limitResultCount) {
+					return result;
+				}
+
+				if (m[0].length === 0) {
+					// don't report the same empty match from the next window again
+					cursor = toPosition(
+						matchEndOffset +
+							(getNextCodePoint(
+								text,
+								text.length,
+								matchEndOffset,
+							) > 0xffff
+								? 2
+								: 1),
+					);
+				} else {
+					cursor = endPosition;
+				}
+			}
+
+			if (isLastWindow) {
+				return result;
+			}
+
+			if (pendingMatchOffset !== -1) {
+				cursor = toPosition(pendingMatchOffset);
+			}
+
+			if (cursor.lineNumber !== windowStartLineNumber) {
+				windowStartLineNumber = cursor.lineNumber;
+
+				windowSize = MultilineSearchWindowSize;
+			} else if (windowSize < MultilineSearchMaxWindowSize) {
+				// a match starting at the cursor might end after this window.
+				windowSize *= 2;
+			} else {
+				// a match starting in the first half of the window would span more than half of it.
+				windowStartLineNumber += windowSize / 2;
+
+				cursor = new Position(windowStartLineNumber, 1);
+			}
+		}
+	}
+
+	private _findMatchesInLine(
+		searchData: SearchData,
+		searcher: Searcher,
+		text: string,
+		lineNumber: number,
+		deltaOffset: number,
+		resultLen: number,
+		result: FindMatch[],
+		captureMatches: boolean,
+		limitResultCount: number,
+	): number {
+		const wordSeparators = searchData.wordSeparators;
+
+		if (!captureMatches && searchData.simpleSearch) {
+			const searchString = searchData.simpleSearch;
+
+			const searchStringLen = searchString.length;
+
+			const textLength = text.length;
+
+			let lastMatchIndex = -searchStringLen;
+
+			while (
+				(lastMatchIndex = text.indexOf(
+					searchString,
+					lastMatchIndex + searchStringLen,
+				)) !== -1
+			) {
+				if (
+					!wordSeparators ||
+					isValidMatch(
+						wordSeparators,
+						text,
+						textLength,
+						lastMatchIndex,
+						searchStringLen,
+					)
+				) {
+					result[resultLen++] = new FindMatch(
+						new Range(
+							lineNumber,
+							lastMatchIndex + 1 + deltaOffset,
+							lineNumber,
+							lastMatchIndex + 1 + searchStringLen + deltaOffset,
+						),
+						null,
+					);
+
+					if (resultLen >= limitResultCount) {
+						return resultLen;
+					}
+				}
 			}
 
-			return value.replace(/\r\n|\r|\n/g, eol);
+			return resultLen;
 		}
 
-		return value;
+		let m: RegExpExecArray | null;
+
+		// Reset regex to search from the beginning
+		searcher.reset(0);
+
+		do {
+			m = searcher.next(text);
+
+			if (m) {
+				result[resultLen++] = createFindMatch(
+					new Range(
+						lineNumber,
+						m.index + 1 + deltaOffset,
+						lineNumber,
+						m.index + 1 + m[0].length + deltaOffset,
+					),
+					m,
+					captureMatches,
+				);
+
+				if (resultLen >= limitResultCount) {
+					return resultLen;
+				}
+			}
+		} while (m);
+
+		return resultLen;
 	}
 
-	public getValueInRange2(
-		startPosition: NodePosition,
-		endPosition: NodePosition,
-	): string {
-		if (startPosition.node === endPosition.node) {
-			let node = startPosition.node;
+	// #endregion
 
-			let buffer = this._buffers[node.piece.bufferIndex].buffer;
+	// #region Serialization
+	/**
+	 * Serialize the buffers, the pieces and the EOL settings. `PieceTreeBase.deserialize` restores
+	 * the tree from the result without recomputing line starts.
+	 * The data uses the byte order of the machine that wrote it.
+	 */
+	public serialize(): Uint8Array {
+		let pieces: Piece[] = [];
 
-			let startOffset = this.offsetInBuffer(
-				node.piece.bufferIndex,
-				node.piece.start,
+		if (this.root !== SENTINEL) {
+			this.iterate(this.root, (node) => {
+				if (node !== SENTINEL) {
+					pieces.push(node.piece);
+				}
+
+				return true;
+			});
+		}
+
+		let wordCount =
+			SerializationConstants.HeaderLength +
+			pieces.length * SerializationConstants.PieceLength;
+
+		for (const buffer of this._buffers) {
+			wordCount +=
+				2 +
+				buffer.lineStarts.length +
+				Math.ceil(buffer.buffer.length / 2);
+		}
+
+		const data = new Uint32Array(wordCount);
+
+		let offset = 0;
+
+		data[offset++] = SerializationConstants.Magic;
+
+		data[offset++] = SerializationConstants.Version;
+
+		data[offset++] = SerializationConstants.ByteOrderMark;
+
+		data[offset++] =
+			(this._EOL === "\r\n" ? SerializationConstants.FlagCRLF : 0) |
+			(this._EOLNormalized
+				? SerializationConstants.FlagEOLNormalized
+				: 0) |
+			(this._preserveEOL ? SerializationConstants.FlagPreserveEOL : 0) |
+			(this._lineBreakPolicy === LineBreakPolicy.Unicode
+				? SerializationConstants.FlagUnicodeLineBreaks
+				: 0);
+
+		data[offset++] = this._lastChangeBufferPos.line;
+
+		data[offset++] = this._lastChangeBufferPos.column;
+
+		data[offset++] = this._buffers.length;
+
+		data[offset++] = pieces.length;
+
+		for (const buffer of this._buffers) {
+			const text = buffer.buffer;
+
+			const len = text.length;
+
+			data[offset++] = len;
+
+			data[offset++] = buffer.lineStarts.length;
+
+			data.set(buffer.lineStarts, offset);
+
+			offset += buffer.lineStarts.length;
+
+			const charCodes = new Uint16Array(data.buffer, offset * 4, len);
+
+			for (let i = 0; i < len; i++) {
+				charCodes[i] = text.charCodeAt(i);
+			}
+
+			offset += Math.ceil(len / 2);
+		}
+
+		for (const piece of pieces) {
+			data[offset++] = piece.bufferIndex;
+
+			data[offset++] = piece.start.line;
+
+			data[offset++] = piece.start.column;
+
+			data[offset++] = piece.end.line;
+
+			data[offset++] = piece.end.column;
+
+			data[offset++] = piece.lineFeedCnt;
+
+			data[offset++] = piece.length;
+
+			data[offset++] = piece.utf8Length;
+		}
+
+		return new Uint8Array(data.buffer);
+	}
+
+	/**
+	 * Restore a tree written by `serialize`.
+	 */
+	public static deserialize(data: Uint8Array): PieceTreeBase {
+		if (data.byteLength % 4 !== 0) {
+			throw new Error("Invalid piece tree data");
+		}
+
+		if (data.byteOffset % 4 !== 0) {
+			// typed array views need aligned offsets. Not `slice`, Node's Buffer returns a view from it.
+			data = new Uint8Array(data);
+		}
+
+		const words = new Uint32Array(
+			data.buffer,
+			data.byteOffset,
+			data.byteLength / 4,
+		);
+
+		if (words.length < SerializationConstants.HeaderLength) {
+			throw new Error("Invalid piece tree data");
+		}
+
+		if (words[0] === SerializationConstants.SwappedMagic) {
+			throw new Error(
+				"Piece tree data was written with a different byte order",
 			);
+		}
+
+		if (words[0] !== SerializationConstants.Magic) {
+			throw new Error("Invalid piece tree data");
+		}
 
-			return buffer.substring(
-				startOffset + startPosition.remainder,
-				startOffset + endPosition.remainder,
+		if (words[1] !== SerializationConstants.Version) {
+			throw new Error(`Unsupported piece tree data version ${words[1]}`);
+		}
+
+		if (words[2] !== SerializationConstants.ByteOrderMark) {
+			throw new Error(
+				"Piece tree data was written with a different byte order",
 			);
 		}
 
-		let x = startPosition.node;
+		const flags = words[3];
 
-		let buffer = this._buffers[x.piece.bufferIndex].buffer;
+		const lastChangeBufferPos = { line: words[4], column: words[5] };
 
-		let startOffset = this.offsetInBuffer(
-			x.piece.bufferIndex,
-			x.piece.start,
-		);
+		const bufferCnt = words[6];
 
-		let ret = buffer.substring(
-			startOffset + startPosition.remainder,
-			startOffset + x.piece.length,
-		);
+		const pieceCnt = words[7];
 
-		x = x.next();
+		let offset = SerializationConstants.HeaderLength;
 
-		while (x !== SENTINEL) {
-			let buffer = this._buffers[x.piece.bufferIndex].buffer;
+		let buffers: StringBuffer[] = [];
 
-			let startOffset = this.offsetInBuffer(
-				x.piece.bufferIndex,
-				x.piece.start,
+		for (let i = 0; i < bufferCnt; i++) {
+			const len = words[offset++];
+
+			const lineStartsLength = words[offset++];
+
+			const lineStartsView = words.subarray(
+				offset,
+				offset + lineStartsLength,
 			);
 
-			if (x === endPosition.node) {
-				ret += buffer.substring(
-					startOffset,
-					startOffset + endPosition.remainder,
-				);
+			offset += lineStartsLength;
 
-				break;
+			let lineStarts: Uint32Array | Uint16Array | number[];
+
+			if (i === 0) {
+				// the change buffer's line starts are appended to
+				lineStarts = Array.from(lineStartsView);
+			} else if (lineStartsView[lineStartsLength - 1] < 65536) {
+				lineStarts = new Uint16Array(lineStartsView);
 			} else {
-				ret += buffer.substr(startOffset, x.piece.length);
+				lineStarts = new Uint32Array(lineStartsView);
 			}
 
-			x = x.next();
-		}
+			const text = decodeCharCodes(
+				new Uint16Array(data.buffer, data.byteOffset + offset * 4, len),
+			);
 
-		return ret;
-	}
+			offset += Math.ceil(len / 2);
 
-	public getLinesContent(): string[] {
-		return this.getContentOfSubTree(this.root).split(/\r\n|\r|\n/);
-	}
+			buffers.push(new StringBuffer(text, lineStarts));
+		}
 
-	public getLength(): number {
-		return this._length;
-	}
+		if (
+			bufferCnt === 0 ||
+			offset + pieceCnt * SerializationConstants.PieceLength !==
+				words.length
+		) {
+			throw new Error("Invalid piece tree data");
+		}
 
-	public getLineCount(): number {
-		return this._lineCnt;
-	}
+		const tree = new PieceTreeBase(
+			[],
+			flags & SerializationConstants.FlagCRLF ? "\r\n" : "\n",
+			(flags & SerializationConstants.FlagEOLNormalized) !== 0,
+			(flags & SerializationConstants.FlagPreserveEOL) !== 0,
+			flags & SerializationConstants.FlagUnicodeLineBreaks
+				? LineBreakPolicy.Unicode
+				: LineBreakPolicy.Standard,
+		);
 
-	/**
-	 * @param lineNumber 1 based
-	 */
-	public getLineContent(lineNumber: number): string {
-		if (this._lastVisitedLine.lineNumber === lineNumber) {
-			return this._lastVisitedLine.value;
-		}
+		tree._buffers = buffers;
 
-		this._lastVisitedLine.lineNumber = lineNumber;
+		tree._lastChangeBufferPos = lastChangeBufferPos;
 
-		if (lineNumber === this._lineCnt) {
-			this._lastVisitedLine.value = this.getLineRawContent(lineNumber);
-		} else if (this._EOLNormalized) {
-			this._lastVisitedLine.value = this.getLineRawContent(
-				lineNumber,
-				this._EOLLength,
+		let lastNode: TreeNode | null = null;
+
+		for (let i = 0; i < pieceCnt; i++) {
+			lastNode = tree.rbInsertRight(
+				lastNode,
+				new Piece(
+					words[offset],
+					{ line: words[offset + 1], column: words[offset + 2] },
+					{ line: words[offset + 3], column: words[offset + 4] },
+					words[offset + 5],
+					words[offset + 6],
+					words[offset + 7],
+				),
 			);
-		} else {
-			this._lastVisitedLine.value = this.getLineRawContent(
-				lineNumber,
-			).replace(/(\r\n|\r|\n)$/, "");
+
+			offset += SerializationConstants.PieceLength;
 		}
 
-		return this._lastVisitedLine.value;
+		tree.computeBufferMetadata();
+
+		tree._setEOLStatistics(tree._countEOLStatistics());
+
+		return tree;
 	}
 
-	public getLineCharCode(lineNumber: number, index: number): number {
-		let nodePos = this.nodeAt2(lineNumber, index + 1);
+	// #endregion
 
-		if (nodePos.remainder === nodePos.node.piece.length) {
-			// the char we want to fetch is at the head of next node.
-			let matchingNode = nodePos.node.next();
+	// #region Piece Table
+	insert(
+		offset: number,
+		value: string,
+		eolNormalized: boolean = false,
+	): void {
+		if (value.length === 0) {
+			return;
+		}
 
-			if (!matchingNode) {
-				return 0;
-			}
+		let range: Range | null = null;
 
-			let buffer = this._buffers[matchingNode.piece.bufferIndex];
+		if (this._onDidChangeContent.hasListeners()) {
+			const position = this.getPositionAt(offset);
 
-			let startOffset = this.offsetInBuffer(
-				matchingNode.piece.bufferIndex,
-				matchingNode.piece.start,
+			range = new Range(
+				position.lineNumber,
+				position.column,
+				position.lineNumber,
+				position.column,
 			);
+		}
 
-			return buffer.buffer.charCodeAt(startOffset);
-		} else {
-			let buffer = this._buffers[nodePos.node.piece.bufferIndex];
+		this._insert(offset, value, eolNormalized);
 
-			let startOffset = this.offsetInBuffer(
-				nodePos.node.piece.bufferIndex,
-				nodePos.node.piece.start,
-			);
+		this._emitContentChanged(
+			range
+				? [
+						{
+							range,
+							rangeOffset: offset,
+							rangeLength: 0,
+							text: value,
+							forceMoveMarkers: false,
+						},
+					]
+				: [],
+			false,
+		);
+	}
 
-			let targetOffset = startOffset + nodePos.remainder;
+	/**
+	 * The deleted range is clamped to the buffer.
+	 */
+	delete(offset: number, cnt: number): void {
+		const startOffset = Math.min(Math.max(0, offset), this._length);
 
-			return buffer.buffer.charCodeAt(targetOffset);
+		cnt = Math.min(offset + cnt, this._length) - startOffset;
+
+		offset = startOffset;
+
+		if (cnt <= 0 || this.root === SENTINEL) {
+			return;
 		}
-	}
 
-	public getLineLength(lineNumber: number): number {
-		if (lineNumber === this.getLineCount()) {
-			let startOffset = this.getOffsetAt(lineNumber, 1);
+		let range: Range | null = null;
 
-			return this.getLength() - startOffset;
+		if (this._onDidChangeContent.hasListeners()) {
+			const startPosition = this.getPositionAt(offset);
+
+			const endPosition = this.getPositionAt(offset + cnt);
+
+			range = new Range(
+				startPosition.lineNumber,
+				startPosition.column,
+				endPosition.lineNumber,
+				endPosition.column,
+			);
 		}
 
-		return (
-			this.getOffsetAt(lineNumber + 1, 1) -
-			this.getOffsetAt(lineNumber, 1) -
-			this._EOLLength
+		this._delete(offset, cnt);
+
+		this._emitContentChanged(
+			range
+				? [
+						{
+							range,
+							rangeOffset: offset,
+							rangeLength: cnt,
+							text: "",
+							forceMoveMarkers: false,
+						},
+					]
+				: [],
+			false,
 		);
 	}
 
-	// #endregion
+	private _emitContentChanged(
+		changes: IInternalModelContentChange[],
+		isFlush: boolean,
+	): void {
+		this._versionId++;
 
-	// #region Piece Table
-	insert(
+		this._onDidChangeContent.fire({
+			changes,
+			eol: this._EOL,
+			versionId: this._versionId,
+			isFlush,
+		});
+	}
+
+	private _insert(
 		offset: number,
 		value: string,
-		eolNormalized: boolean = false,
+		eolNormalized: boolean,
 	): void {
 		this._EOLNormalized = this._EOLNormalized && eolNormalized;
 
-		this._lastVisitedLine.lineNumber = 0;
+		this._updateEOLStatistics(offset, 0, value);
 
-		this._lastVisitedLine.value = "";
+		this.invalidateCaches(offset);
 
 		if (this.root !== SENTINEL) {
 			let { node, remainder, nodeStartOffset } = this.nodeAt(offset);
@@ -869,6 +4616,11 @@ export class PieceTreeBase {
 					),
 					this.offsetInBuffer(bufferIndex, piece.end) -
 						this.offsetInBuffer(bufferIndex, insertPosInBuffer),
+					this.getPieceUTF8Length(
+						piece,
+						insertPosInBuffer,
+						piece.end,
+					),
 				);
 
 				if (this.shouldCheckCRLF() && this.endWithCR(value)) {
@@ -890,6 +4642,7 @@ export class PieceTreeBase {
 								newRightPiece.end,
 							),
 							newRightPiece.length - 1,
+							newRightPiece.utf8Length - 1,
 						);
 
 						value += "\n";
@@ -951,15 +4704,15 @@ export class PieceTreeBase {
 		this.computeBufferMetadata();
 	}
 
-	delete(offset: number, cnt: number): void {
-		this._lastVisitedLine.lineNumber = 0;
-
-		this._lastVisitedLine.value = "";
-
+	private _delete(offset: number, cnt: number): void {
 		if (cnt <= 0 || this.root === SENTINEL) {
 			return;
 		}
 
+		this._updateEOLStatistics(offset, cnt, "");
+
+		this.invalidateCaches(offset);
+
 		let startPosition = this.nodeAt(offset);
 
 		let endPosition = this.nodeAt(offset + cnt);
@@ -1100,13 +4853,14 @@ export class PieceTreeBase {
 				piece.end,
 				this.getLineFeedCnt(piece.bufferIndex, newStart, piece.end),
 				piece.length - 1,
+				piece.utf8Length - 1,
 			);
 
 			node.piece = nPiece;
 
 			value += "\n";
 
-			updateTreeMetadata(this, node, -1, -1);
+			updateTreeMetadata(this, node, -1, -1, -1);
 
 			if (node.piece.length === 0) {
 				nodesToDel.push(node);
@@ -1259,6 +5013,111 @@ export class PieceTreeBase {
 		return lineStarts[cursor.line] + cursor.column;
 	}
 
+	/**
+	 * Number of UTF-16 code units at the start of `piece` that fit in `utf8Length` bytes,
+	 * without splitting a character.
+	 */
+	getPieceLengthForUTF8Length(piece: Piece, utf8Length: number): number {
+		const buffer = this._buffers[piece.bufferIndex].buffer;
+
+		const startOffset = this.offsetInBuffer(piece.bufferIndex, piece.start);
+
+		let bytes = 0;
+
+		let i = 0;
+
+		while (i < piece.length) {
+			const charCode = buffer.charCodeAt(startOffset + i);
+
+			let charLength = 1;
+
+			let byteLength: number;
+
+			if (charCode < 0x80) {
+				byteLength = 1;
+			} else if (charCode < 0x800) {
+				byteLength = 2;
+			} else if (
+				isHighSurrogate(charCode) &&
+				i + 1 < piece.length &&
+				isLowSurrogate(buffer.charCodeAt(startOffset + i + 1))
+			) {
+				charLength = 2;
+
+				byteLength = 4;
+			} else {
+				byteLength = 3;
+			}
+
+			if (bytes + byteLength > utf8Length) {
+				break;
+			}
+
+			bytes += byteLength;
+
+			i += charLength;
+		}
+
+		return i;
+	}
+
+	/**
+	 * UTF-8 length of the part of `piece` between `start` and `end`.
+	 * Scans whichever is shorter, that part or the rest of the piece.
+	 */
+	getPieceUTF8Length(
+		piece: Piece,
+		start: BufferCursor,
+		end: BufferCursor,
+	): number {
+		const buffer = this._buffers[piece.bufferIndex].buffer;
+
+		const pieceStartOffset = this.offsetInBuffer(
+			piece.bufferIndex,
+			piece.start,
+		);
+
+		const pieceEndOffset = this.offsetInBuffer(
+			piece.bufferIndex,
+			piece.end,
+		);
+
+		const startOffset = this.offsetInBuffer(piece.bufferIndex, start);
+
+		const endOffset = this.offsetInBuffer(piece.bufferIndex, end);
+
+		if (
+			2 * (endOffset - startOffset) <=
+			pieceEndOffset - pieceStartOffset
+		) {
+			return getUTF8Length(buffer, startOffset, endOffset);
+		}
+
+		// a pair split by `start` or `end` counts 2 bytes more in its halves than in the piece
+		let splitPairs = 0;
+
+		if (
+			startOffset > pieceStartOffset &&
+			isSurrogatePairAt(buffer, startOffset - 1)
+		) {
+			splitPairs++;
+		}
+
+		if (
+			endOffset < pieceEndOffset &&
+			isSurrogatePairAt(buffer, endOffset - 1)
+		) {
+			splitPairs++;
+		}
+
+		return (
+			piece.utf8Length -
+			getUTF8Length(buffer, pieceStartOffset, startOffset) -
+			getUTF8Length(buffer, endOffset, pieceEndOffset) +
+			2 * splitPairs
+		);
+	}
+
 	deleteNodes(nodes: TreeNode[]): void {
 		for (let i = 0; i < nodes.length; i++) {
 			rbDelete(this, nodes[i]);
@@ -1290,7 +5149,11 @@ export class PieceTreeBase {
 					text = text.substring(AverageBufferSize);
 				}
 
-				let lineStarts = createLineStartsFast(splitText);
+				let lineStarts = createLineStartsFast(
+					splitText,
+					true,
+					this._lineBreakPolicy,
+				);
 
 				newPieces.push(
 					new Piece(
@@ -1304,13 +5167,18 @@ export class PieceTreeBase {
 						},
 						lineStarts.length - 1,
 						splitText.length,
+						getUTF8Length(splitText, 0, splitText.length),
 					),
 				);
 
 				this._buffers.push(new StringBuffer(splitText, lineStarts));
 			}
 
-			let lineStarts = createLineStartsFast(text);
+			let lineStarts = createLineStartsFast(
+				text,
+				true,
+				this._lineBreakPolicy,
+			);
 
 			newPieces.push(
 				new Piece(
@@ -1322,6 +5190,7 @@ export class PieceTreeBase {
 					},
 					lineStarts.length - 1,
 					text.length,
+					getUTF8Length(text, 0, text.length),
 				),
 			);
 
@@ -1332,7 +5201,11 @@ export class PieceTreeBase {
 
 		let startOffset = this._buffers[0].buffer.length;
 
-		const lineStarts = createLineStartsFast(text, false);
+		const lineStarts = createLineStartsFast(
+			text,
+			false,
+			this._lineBreakPolicy,
+		);
 
 		let start = this._lastChangeBufferPos;
 
@@ -1390,6 +5263,7 @@ export class PieceTreeBase {
 			endPos,
 			this.getLineFeedCnt(0, start, endPos),
 			endOffset - startOffset,
+			getUTF8Length(text, 0, text.length),
 		);
 
 		this._lastChangeBufferPos = endPos;
@@ -1552,11 +5426,15 @@ export class PieceTreeBase {
 
 		let len = 0;
 
+		let utf8Len = 0;
+
 		while (x !== SENTINEL) {
 			lfCnt += x.lf_left + x.piece.lineFeedCnt;
 
 			len += x.size_left + x.piece.length;
 
+			utf8Len += x.utf8_size_left + x.piece.utf8Length;
+
 			x = x.right;
 		}
 
@@ -1564,6 +5442,8 @@ export class PieceTreeBase {
 
 		this._length = len;
 
+		this._utf8Length = utf8Len;
+
 		this._searchCache.valdiate(this._length);
 	}
 
@@ -1652,15 +5532,28 @@ export class PieceTreeBase {
 
 		const newLength = piece.length + size_delta;
 
+		const newUTF8Length = this.getPieceUTF8Length(
+			piece,
+			piece.start,
+			newEnd,
+		);
+
 		node.piece = new Piece(
 			piece.bufferIndex,
 			piece.start,
 			newEnd,
 			newLineFeedCnt,
 			newLength,
+			newUTF8Length,
 		);
 
-		updateTreeMetadata(this, node, size_delta, lf_delta);
+		updateTreeMetadata(
+			this,
+			node,
+			size_delta,
+			lf_delta,
+			newUTF8Length - piece.utf8Length,
+		);
 	}
 
 	deleteNodeHead(node: TreeNode, pos: BufferCursor) {
@@ -1689,15 +5582,28 @@ export class PieceTreeBase {
 
 		const newLength = piece.length + size_delta;
 
+		const newUTF8Length = this.getPieceUTF8Length(
+			piece,
+			newStart,
+			piece.end,
+		);
+
 		node.piece = new Piece(
 			piece.bufferIndex,
 			newStart,
 			piece.end,
 			newLineFeedCnt,
 			newLength,
+			newUTF8Length,
 		);
 
-		updateTreeMetadata(this, node, size_delta, lf_delta);
+		updateTreeMetadata(
+			this,
+			node,
+			size_delta,
+			lf_delta,
+			newUTF8Length - piece.utf8Length,
+		);
 	}
 
 	shrinkNode(node: TreeNode, start: BufferCursor, end: BufferCursor) {
@@ -1724,12 +5630,19 @@ export class PieceTreeBase {
 			this.offsetInBuffer(piece.bufferIndex, start) -
 			this.offsetInBuffer(piece.bufferIndex, originalStartPos);
 
+		const newUTF8Length = this.getPieceUTF8Length(
+			piece,
+			piece.start,
+			newEnd,
+		);
+
 		node.piece = new Piece(
 			piece.bufferIndex,
 			piece.start,
 			newEnd,
 			newLineFeedCnt,
 			newLength,
+			newUTF8Length,
 		);
 
 		updateTreeMetadata(
@@ -1737,6 +5650,7 @@ export class PieceTreeBase {
 			node,
 			newLength - oldLength,
 			newLineFeedCnt - oldLFCnt,
+			newUTF8Length - piece.utf8Length,
 		);
 
 		// new right piece, end, originalEndPos
@@ -1747,6 +5661,7 @@ export class PieceTreeBase {
 			this.getLineFeedCnt(piece.bufferIndex, end, originalEndPos),
 			this.offsetInBuffer(piece.bufferIndex, originalEndPos) -
 				this.offsetInBuffer(piece.bufferIndex, end),
+			this.getPieceUTF8Length(piece, end, originalEndPos),
 		);
 
 		let newNode = this.rbInsertRight(node, newPiece);
@@ -1768,18 +5683,26 @@ export class PieceTreeBase {
 
 		this._buffers[0].buffer += value;
 
-		const lineStarts = createLineStartsFast(value, false);
+		const lineStarts = createLineStartsFast(
+			value,
+			false,
+			this._lineBreakPolicy,
+		);
 
 		for (let i = 0; i < lineStarts.length; i++) {
 			lineStarts[i] += startOffset;
 		}
 
+		let changeBufferLineStarts = <number[]>this._buffers[0].lineStarts;
+
 		if (hitCRLF) {
 			let prevStartOffset =
-				this._buffers[0].lineStarts[
-					this._buffers[0].lineStarts.length - 2
-				];
-			(<number[]>this._buffers[0].lineStarts).pop();
+				changeBufferLineStarts[changeBufferLineStarts.length - 2];
+			// don't pop in place, persistent snapshots may still reference the array
+			changeBufferLineStarts = changeBufferLineStarts.slice(
+				0,
+				changeBufferLineStarts.length - 1,
+			);
 			// _lastChangeBufferPos is already wrong
 			this._lastChangeBufferPos = {
 				line: this._lastChangeBufferPos.line - 1,
@@ -1787,9 +5710,9 @@ export class PieceTreeBase {
 			};
 		}
 
-		this._buffers[0].lineStarts = (<number[]>(
-			this._buffers[0].lineStarts
-		)).concat(<number[]>lineStarts.slice(1));
+		this._buffers[0].lineStarts = changeBufferLineStarts.concat(
+			<number[]>lineStarts.slice(1),
+		);
 
 		const endIndex = this._buffers[0].lineStarts.length - 1;
 
@@ -1807,17 +5730,30 @@ export class PieceTreeBase {
 
 		const lf_delta = newLineFeedCnt - oldLineFeedCnt;
 
+		let utf8_delta = getUTF8Length(value, 0, value.length);
+
+		if (
+			isHighSurrogate(
+				this._buffers[0].buffer.charCodeAt(startOffset - 1),
+			) &&
+			isLowSurrogate(value.charCodeAt(0))
+		) {
+			// the lone halves were counted as 3 bytes each, together they are a 4 byte pair
+			utf8_delta -= 2;
+		}
+
 		node.piece = new Piece(
 			node.piece.bufferIndex,
 			node.piece.start,
 			newEnd,
 			newLineFeedCnt,
 			newLength,
+			node.piece.utf8Length + utf8_delta,
 		);
 
 		this._lastChangeBufferPos = newEnd;
 
-		updateTreeMetadata(this, node, value.length, lf_delta);
+		updateTreeMetadata(this, node, value.length, lf_delta, utf8_delta);
 	}
 
 	nodeAt(offset: number): NodePosition {
@@ -2090,9 +6026,10 @@ export class PieceTreeBase {
 			newEnd,
 			prevNewLFCnt,
 			prevNewLength,
+			prev.piece.utf8Length - 1,
 		);
 
-		updateTreeMetadata(this, prev, -1, -1);
+		updateTreeMetadata(this, prev, -1, -1, -1);
 
 		if (prev.piece.length === 0) {
 			nodesToDel.push(prev);
@@ -2118,9 +6055,10 @@ export class PieceTreeBase {
 			next.piece.end,
 			newLineFeedCnt,
 			newLength,
+			next.piece.utf8Length - 1,
 		);
 
-		updateTreeMetadata(this, next, -1, -1);
+		updateTreeMetadata(this, next, -1, -1, -1);
 
 		if (next.piece.length === 0) {
 			nodesToDel.push(next);
@@ -2169,9 +6107,10 @@ export class PieceTreeBase {
 						piece.end,
 						newLineFeedCnt,
 						newLength,
+						piece.utf8Length - 1,
 					);
 
-					updateTreeMetadata(this, nextNode, -1, -1);
+					updateTreeMetadata(this, nextNode, -1, -1, -1);
 				}
 
 				return true;
@@ -2186,6 +6125,40 @@ export class PieceTreeBase {
 	// #endregion
 
 	// #region Tree operations
+	/**
+	 * Forget cached nodes and lines an edit at `offset` may move or change.
+	 */
+	private invalidateCaches(offset: number): void {
+		if (this._lineCache.size > 0) {
+			this._lineCache.invalidate(this.getPositionAt(offset).lineNumber);
+		}
+
+		this._searchCache.valdiate(offset);
+	}
+
+	private copySubTree(node: TreeNode, parent: TreeNode): TreeNode {
+		if (node === SENTINEL) {
+			return SENTINEL;
+		}
+
+		// pieces are immutable and can be shared
+		const copy = new TreeNode(node.piece, node.color);
+
+		copy.size_left = node.size_left;
+
+		copy.lf_left = node.lf_left;
+
+		copy.utf8_size_left = node.utf8_size_left;
+
+		copy.parent = parent;
+
+		copy.left = this.copySubTree(node.left, copy);
+
+		copy.right = this.copySubTree(node.right, copy);
+
+		return copy;
+	}
+
 	iterate(node: TreeNode, callback: (node: TreeNode) => boolean): boolean {
 		if (node === SENTINEL) {
 			return callback(SENTINEL);
@@ -2200,6 +6173,20 @@ export class PieceTreeBase {
 		return callback(node) && this.iterate(node.right, callback);
 	}
 
+	getTreeHeight(node: TreeNode): number {
+		if (node === SENTINEL) {
+			return 0;
+		}
+
+		return (
+			1 +
+			Math.max(
+				this.getTreeHeight(node.left),
+				this.getTreeHeight(node.right),
+			)
+		);
+	}
+
 	getNodeContent(node: TreeNode) {
 		if (node === SENTINEL) {
 			return "";
@@ -2252,6 +6239,8 @@ export class PieceTreeBase {
 
 		z.lf_left = 0;
 
+		z.utf8_size_left = 0;
+
 		let x = this.root;
 
 		if (x === SENTINEL) {
@@ -2295,6 +6284,8 @@ export class PieceTreeBase {
 
 		z.lf_left = 0;
 
+		z.utf8_size_left = 0;
+
 		if (this.root === SENTINEL) {
 			this.root = z;
 
@@ -4,9 +4,23 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { CharCode } from "./common/charCode";
+import { getLineBreakRegex, LineBreakPolicy } from "./common/eolCounter";
+import {
+	detectEncodingByBOM,
+	EncodingConstants,
+	getCanonicalEncoding,
+	guessEncoding,
+	UTF8,
+} from "./encoding";
+import {
+	guessIndentation,
+	IGuessedIndentation,
+	IndentationGuesserConstants,
+} from "./indentationGuesser";
 import {
 	createLineStarts,
 	createLineStartsFast,
+	IEOLStatistics,
 	PieceTreeBase,
 	StringBuffer,
 } from "./pieceTreeBase";
@@ -28,6 +42,102 @@ export const enum DefaultEndOfLine {
 	CRLF = 2,
 }
 
+/**
+ * The subset of a Node.js `Readable` used by `PieceTreeTextBufferBuilder.fromStream`.
+ */
+export interface INodeReadableStream {
+	on(event: string, listener: (...args: unknown[]) => void): unknown;
+	removeListener(
+		event: string,
+		listener: (...args: unknown[]) => void,
+	): unknown;
+	destroy?(error?: Error): unknown;
+}
+
+export type TextBufferStream =
+	INodeReadableStream | ReadableStream<Uint8Array | string>;
+
+export interface ITextBufferBuilderOptions {
+	/**
+	 * Encoding of the bytes passed to `acceptBytes`, as a `TextDecoder` label. A BOM overrides it.
+	 * When neither is present the encoding is guessed.
+	 */
+	encoding?: string;
+	/**
+	 * Encoding assumed when guessing finds neither UTF-16 nor valid UTF-8.
+	 * Defaults to `windows-1252`.
+	 */
+	fallbackEncoding?: string;
+	/**
+	 * Lines longer than this are counted in `ITextBufferContentAnalysis.longLineCount`.
+	 * Defaults to 10000.
+	 */
+	longLineThreshold?: number;
+	/**
+	 * Which characters end a line. Defaults to `LineBreakPolicy.Standard`.
+	 */
+	lineBreakPolicy?: LineBreakPolicy;
+}
+
+const DEFAULT_LONG_LINE_THRESHOLD = 10000;
+
+/**
+ * What the builder learned about the content while accepting it, to decide whether it is
+ * worth creating a buffer for.
+ */
+export interface ITextBufferContentAnalysis {
+	/**
+	 * Number of NUL characters.
+	 */
+	readonly nulCount: number;
+	/**
+	 * Content with NUL characters is most likely not text.
+	 */
+	readonly isBinary: boolean;
+	/**
+	 * Length of the longest line, without its end of line sequence.
+	 */
+	readonly longestLineLength: number;
+	/**
+	 * Number of lines longer than `longLineThreshold`.
+	 */
+	readonly longLineCount: number;
+	readonly longLineThreshold: number;
+	/**
+	 * Whether all characters are tabs, line breaks or printable ASCII.
+	 */
+	readonly isBasicASCII: boolean;
+}
+
+export interface ITextBufferStreamOptions extends ITextBufferBuilderOptions {
+	/**
+	 * Passed to `finish`. Defaults to `true`.
+	 */
+	normalizeEOL?: boolean;
+	/**
+	 * Stops reading the stream and rejects with the signal's reason.
+	 */
+	signal?: AbortSignal;
+}
+
+function isWebReadableStream(
+	stream: TextBufferStream,
+): stream is ReadableStream<Uint8Array | string> {
+	return typeof (stream as ReadableStream).getReader === "function";
+}
+
+function getAbortReason(signal: AbortSignal): unknown {
+	if (signal.reason !== undefined) {
+		return signal.reason;
+	}
+
+	const error = new Error("The operation was aborted");
+
+	error.name = "AbortError";
+
+	return error;
+}
+
 export class PieceTreeTextBufferFactory {
 	constructor(
 		private readonly _chunks: StringBuffer[],
@@ -36,8 +146,34 @@ export class PieceTreeTextBufferFactory {
 		private readonly _lf: number,
 		private readonly _crlf: number,
 		private readonly _normalizeEOL: boolean,
+		private readonly _encoding: string = UTF8,
+		private readonly _analysis: ITextBufferContentAnalysis | null = null,
+		private readonly _lineBreakPolicy: LineBreakPolicy = LineBreakPolicy.Standard,
+		private readonly _unicode: number = 0,
 	) {}
 
+	/**
+	 * Results of analysing the content as it was accepted, or `null` when the factory was not
+	 * created by a builder.
+	 */
+	public getContentAnalysis(): ITextBufferContentAnalysis | null {
+		return this._analysis;
+	}
+
+	/**
+	 * The BOM the content started with, as a string to pass to `createSnapshot`.
+	 */
+	public getBOM(): string {
+		return this._bom;
+	}
+
+	/**
+	 * The canonical name of the encoding the content was read in, `utf-8` for string input.
+	 */
+	public getEncoding(): string {
+		return this._encoding;
+	}
+
 	private _getEOL(defaultEOL: DefaultEndOfLine): "\r\n" | "\n" {
 		const totalEOLCount = this._cr + this._lf + this._crlf;
 
@@ -56,31 +192,126 @@ export class PieceTreeTextBufferFactory {
 		return "\n";
 	}
 
-	public create(defaultEOL: DefaultEndOfLine): PieceTreeBase {
+	/**
+	 * Line break counts of the content as it was read, before any normalization.
+	 */
+	public getEOLStatistics(): IEOLStatistics {
+		return {
+			cr: this._cr,
+			lf: this._lf,
+			crlf: this._crlf,
+			unicode: this._unicode,
+		};
+	}
+
+	/**
+	 * @param preserveEOL Keep every line's terminator as it was read, and insert text passed to
+	 * `applyEdits` without converting its line breaks. `getEOL` still reports the most common one.
+	 */
+	public create(
+		defaultEOL: DefaultEndOfLine,
+		preserveEOL: boolean = false,
+	): PieceTreeBase {
 		const eol = this._getEOL(defaultEOL);
 
 		let chunks = this._chunks;
 
-		if (
-			this._normalizeEOL &&
-			((eol === "\r\n" && (this._cr > 0 || this._lf > 0)) ||
-				(eol === "\n" && (this._cr > 0 || this._crlf > 0)))
-		) {
+		const otherEOLCount =
+			this._cr + this._unicode + (eol === "\r\n" ? this._lf : this._crlf);
+
+		if (preserveEOL) {
+			return new PieceTreeBase(
+				chunks,
+				eol,
+				otherEOLCount === 0,
+				true,
+				this._lineBreakPolicy,
+				this.getEOLStatistics(),
+			);
+		}
+
+		if (this._normalizeEOL && otherEOLCount > 0) {
 			// Normalize pieces
 			for (let i = 0, len = chunks.length; i < len; i++) {
-				let str = chunks[i].buffer.replace(/\r\n|\r|\n/g, eol);
+				let str = chunks[i].buffer.replace(
+					getLineBreakRegex(this._lineBreakPolicy),
+					eol,
+				);
 
-				let newLineStart = createLineStartsFast(str);
+				let newLineStart = createLineStartsFast(
+					str,
+					true,
+					this._lineBreakPolicy,
+				);
 
 				chunks[i] = new StringBuffer(str, newLineStart);
 			}
 		}
 
-		return new PieceTreeBase(chunks, eol, this._normalizeEOL);
+		return new PieceTreeBase(
+			chunks,
+			eol,
+			this._normalizeEOL,
+			false,
+			this._lineBreakPolicy,
+			this.getEOLStatistics(),
+		);
 	}
 
 	public getFirstLineText(lengthLimit: number): string {
-		return this._chunks[0].buffer.substr(0, 100).split(/\r\n|\r|\n/)[0];
+		return this._chunks[0].buffer
+			.substr(0, 100)
+			.split(getLineBreakRegex(this._lineBreakPolicy))[0];
+	}
+
+	/**
+	 * Guess the indentation from the chunks, without creating a buffer.
+	 */
+	public guessIndentation(
+		defaultTabSize: number,
+		defaultInsertSpaces: boolean,
+	): IGuessedIndentation {
+		const lines = this._getFirstLines(
+			IndentationGuesserConstants.MaxLineCount,
+		);
+
+		return guessIndentation(
+			{
+				getLineCount: () => lines.length,
+				getLineContent: (lineNumber) => lines[lineNumber - 1],
+			},
+			defaultTabSize,
+			defaultInsertSpaces,
+		);
+	}
+
+	private _getFirstLines(maxLineCount: number): string[] {
+		let result: string[] = [];
+
+		let partialLine = "";
+
+		for (const chunk of this._chunks) {
+			// the builder never splits \r\n across chunks
+			const lines = chunk.buffer.split(
+				getLineBreakRegex(this._lineBreakPolicy),
+			);
+
+			lines[0] = partialLine + lines[0];
+
+			partialLine = lines.pop()!;
+
+			for (const line of lines) {
+				result.push(line);
+
+				if (result.length >= maxLineCount) {
+					return result;
+				}
+			}
+		}
+
+		result.push(partialLine);
+
+		return result;
 	}
 }
 
@@ -101,7 +332,34 @@ export class PieceTreeTextBufferBuilder {
 
 	private crlf: number;
 
-	constructor() {
+	private unicode: number;
+
+	private readonly _options: ITextBufferBuilderOptions;
+
+	private _encoding: string | null;
+
+	private _decoder: TextDecoder | null;
+
+	private _pendingBytes: Uint8Array[];
+
+	private _pendingBytesLength: number;
+
+	private _nulCount: number;
+
+	private _isBasicASCII: boolean;
+
+	private _longestLineLength: number;
+
+	private _longLineCount: number;
+
+	private readonly _longLineThreshold: number;
+
+	/**
+	 * Length of the last line seen so far, which may continue in the next chunk.
+	 */
+	private _currentLineLength: number;
+
+	constructor(options: ITextBufferBuilderOptions = {}) {
 		this.chunks = [];
 
 		this.BOM = "";
@@ -117,6 +375,245 @@ export class PieceTreeTextBufferBuilder {
 		this.lf = 0;
 
 		this.crlf = 0;
+
+		this.unicode = 0;
+
+		this._options = options;
+
+		this._encoding = null;
+
+		this._decoder = null;
+
+		this._pendingBytes = [];
+
+		this._pendingBytesLength = 0;
+
+		this._nulCount = 0;
+
+		this._isBasicASCII = true;
+
+		this._longestLineLength = 0;
+
+		this._longLineCount = 0;
+
+		this._longLineThreshold =
+			options.longLineThreshold ?? DEFAULT_LONG_LINE_THRESHOLD;
+
+		this._currentLineLength = 0;
+	}
+
+	/**
+	 * Read a Node.js `Readable` or a WHATWG `ReadableStream` of bytes or strings to its end.
+	 * Byte chunks go through `acceptBytes`, so their encoding is detected unless `options.encoding` is set.
+	 */
+	public static fromStream(
+		stream: TextBufferStream,
+		options: ITextBufferStreamOptions = {},
+	): Promise<PieceTreeTextBufferFactory> {
+		return new Promise<PieceTreeTextBufferFactory>((resolve, reject) => {
+			const signal = options.signal;
+
+			if (signal && signal.aborted) {
+				reject(getAbortReason(signal));
+
+				return;
+			}
+
+			const builder = new PieceTreeTextBufferBuilder(options);
+
+			let settled = false;
+
+			let stopReading: () => void;
+
+			let detach: () => void;
+
+			const onAbort = () => {
+				if (settled) {
+					return;
+				}
+
+				onError(getAbortReason(signal!));
+
+				stopReading();
+			};
+
+			const onData = (chunk: Uint8Array | string) => {
+				if (settled) {
+					return;
+				}
+
+				try {
+					if (typeof chunk === "string") {
+						builder.acceptChunk(chunk);
+					} else {
+						builder.acceptBytes(chunk);
+					}
+				} catch (err) {
+					onError(err);
+
+					stopReading();
+				}
+			};
+
+			const onEnd = () => {
+				if (settled) {
+					return;
+				}
+
+				settled = true;
+
+				detach();
+
+				try {
+					resolve(builder.finish(options.normalizeEOL));
+				} catch (err) {
+					reject(err);
+				}
+			};
+
+			const onError = (err: unknown) => {
+				if (settled) {
+					return;
+				}
+
+				settled = true;
+
+				detach();
+
+				reject(err);
+			};
+
+			if (isWebReadableStream(stream)) {
+				const reader = stream.getReader();
+
+				stopReading = () => {
+					reader.cancel().catch(() => {});
+				};
+
+				detach = () => {
+					signal?.removeEventListener("abort", onAbort);
+				};
+
+				const pump = async (): Promise<void> => {
+					try {
+						while (!settled) {
+							const result = await reader.read();
+
+							if (result.done) {
+								onEnd();
+
+								break;
+							}
+
+							onData(result.value);
+						}
+					} catch (err) {
+						onError(err);
+					} finally {
+						// `stopReading` has cancelled the reader by now, if it was called
+						reader.releaseLock();
+					}
+				};
+
+				pump();
+			} else {
+				stopReading = () => {
+					stream.destroy?.();
+				};
+
+				detach = () => {
+					signal?.removeEventListener("abort", onAbort);
+
+					stream.removeListener("data", onData);
+
+					stream.removeListener("end", onEnd);
+
+					stream.removeListener("error", onError);
+
+					stream.removeListener("close", onClose);
+				};
+
+				// a destroyed stream closes without ending
+				const onClose = () => {
+					onError(new Error("The stream closed before its end"));
+				};
+
+				stream.on("data", onData);
+
+				stream.on("end", onEnd);
+
+				stream.on("error", onError);
+
+				stream.on("close", onClose);
+			}
+
+			signal?.addEventListener("abort", onAbort);
+		});
+	}
+
+	/**
+	 * Accept encoded content. Bytes are held back until there are enough to detect the encoding,
+	 * and multi-byte sequences may be split across chunks. Do not mix with `acceptChunk`.
+	 */
+	public acceptBytes(chunk: Uint8Array): void {
+		if (chunk.length === 0) {
+			return;
+		}
+
+		if (this._decoder) {
+			this.acceptChunk(this._decoder.decode(chunk, { stream: true }));
+
+			return;
+		}
+
+		this._pendingBytes.push(chunk);
+
+		this._pendingBytesLength += chunk.length;
+
+		if (this._pendingBytesLength >= EncodingConstants.GuessSampleLength) {
+			this._flushPendingBytes(false);
+		}
+	}
+
+	private _flushPendingBytes(isComplete: boolean): void {
+		let bytes: Uint8Array;
+
+		if (this._pendingBytes.length === 1) {
+			bytes = this._pendingBytes[0];
+		} else {
+			bytes = new Uint8Array(this._pendingBytesLength);
+
+			let offset = 0;
+
+			for (const chunk of this._pendingBytes) {
+				bytes.set(chunk, offset);
+
+				offset += chunk.length;
+			}
+		}
+
+		this._pendingBytes = [];
+
+		this._pendingBytesLength = 0;
+
+		let encoding = detectEncodingByBOM(bytes);
+
+		if (!encoding) {
+			encoding = this._options.encoding
+				? getCanonicalEncoding(this._options.encoding)
+				: guessEncoding(
+						bytes,
+						isComplete,
+						this._options.fallbackEncoding,
+					);
+		}
+
+		this._encoding = encoding;
+
+		// keep the BOM so that `acceptChunk` records it
+		this._decoder = new TextDecoder(encoding, { ignoreBOM: true });
+
+		this.acceptChunk(this._decoder.decode(bytes, { stream: true }));
 	}
 
 	public acceptChunk(chunk: string): void {
@@ -167,7 +664,11 @@ export class PieceTreeTextBufferBuilder {
 	}
 
 	private _acceptChunk2(chunk: string): void {
-		const lineStarts = createLineStarts(this._tmpLineStarts, chunk);
+		const lineStarts = createLineStarts(
+			this._tmpLineStarts,
+			chunk,
+			this._options.lineBreakPolicy,
+		);
 
 		this.chunks.push(new StringBuffer(chunk, lineStarts.lineStarts));
 
@@ -176,6 +677,56 @@ export class PieceTreeTextBufferBuilder {
 		this.lf += lineStarts.lf;
 
 		this.crlf += lineStarts.crlf;
+
+		this.unicode += lineStarts.unicode;
+
+		this._nulCount += lineStarts.nulCount;
+
+		this._isBasicASCII = this._isBasicASCII && lineStarts.isBasicASCII;
+
+		this._analyzeLineLengths(chunk, lineStarts.lineStarts);
+	}
+
+	private _analyzeLineLengths(
+		chunk: string,
+		lineStarts: Uint32Array | Uint16Array | number[],
+	): void {
+		const lastLineStart = lineStarts[lineStarts.length - 1];
+
+		for (let i = 1, len = lineStarts.length; i < len; i++) {
+			const lineStart = lineStarts[i - 1];
+
+			const lineEnd = lineStarts[i];
+
+			let eolLength = 1;
+
+			if (
+				lineEnd - 2 >= lineStart &&
+				chunk.charCodeAt(lineEnd - 1) === CharCode.LineFeed &&
+				chunk.charCodeAt(lineEnd - 2) === CharCode.CarriageReturn
+			) {
+				eolLength = 2;
+			}
+
+			// the first line continues the last line of the previous chunk
+			this._acceptLineLength(
+				this._currentLineLength + lineEnd - lineStart - eolLength,
+			);
+
+			this._currentLineLength = 0;
+		}
+
+		this._currentLineLength += chunk.length - lastLineStart;
+	}
+
+	private _acceptLineLength(lineLength: number): void {
+		if (lineLength > this._longestLineLength) {
+			this._longestLineLength = lineLength;
+		}
+
+		if (lineLength > this._longLineThreshold) {
+			this._longLineCount++;
+		}
 	}
 
 	public finish(normalizeEOL: boolean = true): PieceTreeTextBufferFactory {
@@ -188,10 +739,34 @@ export class PieceTreeTextBufferBuilder {
 			this.lf,
 			this.crlf,
 			normalizeEOL,
+			this._encoding ||
+				(this._options.encoding
+					? getCanonicalEncoding(this._options.encoding)
+					: UTF8),
+			{
+				nulCount: this._nulCount,
+				isBinary: this._nulCount > 0,
+				longestLineLength: this._longestLineLength,
+				longLineCount: this._longLineCount,
+				longLineThreshold: this._longLineThreshold,
+				isBasicASCII: this._isBasicASCII,
+			},
+			this._options.lineBreakPolicy,
+			this.unicode,
 		);
 	}
 
 	private _finish(): void {
+		if (this._pendingBytesLength > 0) {
+			this._flushPendingBytes(true);
+		}
+
+		if (this._decoder) {
+			this.acceptChunk(this._decoder.decode());
+
+			this._decoder = null;
+		}
+
 		if (this.chunks.length === 0) {
 			this._acceptChunk1("", true);
 		}
@@ -203,13 +778,28 @@ export class PieceTreeTextBufferBuilder {
 
 			lastChunk.buffer += String.fromCharCode(this._previousChar);
 
-			let newLineStarts = createLineStartsFast(lastChunk.buffer);
+			let newLineStarts = createLineStartsFast(
+				lastChunk.buffer,
+				true,
+				this._options.lineBreakPolicy,
+			);
 
 			lastChunk.lineStarts = newLineStarts;
 
 			if (this._previousChar === CharCode.CarriageReturn) {
 				this.cr++;
+
+				this._acceptLineLength(this._currentLineLength);
+
+				this._currentLineLength = 0;
+			} else {
+				// a lone high surrogate
+				this._currentLineLength++;
+
+				this._isBasicASCII = false;
 			}
 		}
+
+		this._acceptLineLength(this._currentLineLength);
 	}
 }
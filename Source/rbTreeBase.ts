@@ -19,6 +19,7 @@ export class TreeNode {
 
 	size_left: number; // size of the left subtree (not inorder)
 	lf_left: number; // line feeds cnt in the left subtree (not in order)
+	utf8_size_left: number; // utf-8 byte length of the left subtree (not inorder)
 
 	constructor(piece: Piece, color: NodeColor) {
 		this.piece = piece;
@@ -29,6 +30,8 @@ export class TreeNode {
 
 		this.lf_left = 0;
 
+		this.utf8_size_left = 0;
+
 		this.parent = this;
 
 		this.left = this;
@@ -94,11 +97,13 @@ export const enum NodeColor {
 	Red = 1,
 }
 
-export const SENTINEL: TreeNode = new TreeNode(null!, NodeColor.Black);
-SENTINEL.parent = SENTINEL;
-SENTINEL.left = SENTINEL;
-SENTINEL.right = SENTINEL;
-SENTINEL.color = NodeColor.Black;
+/**
+ * The leaf of every tree. It is shared by all trees and never written to, so it is frozen to
+ * make a write throw instead of leaking state from one tree into another.
+ */
+export const SENTINEL: TreeNode = Object.freeze(
+	new TreeNode(null!, NodeColor.Black),
+);
 
 export function leftest(node: TreeNode): TreeNode {
 	while (node.left !== SENTINEL) {
@@ -132,8 +137,22 @@ export function calculateLF(node: TreeNode): number {
 	return node.lf_left + node.piece.lineFeedCnt + calculateLF(node.right);
 }
 
-export function resetSentinel(): void {
-	SENTINEL.parent = SENTINEL;
+export function calculateUTF8Size(node: TreeNode): number {
+	if (node === SENTINEL) {
+		return 0;
+	}
+
+	return (
+		node.utf8_size_left +
+		node.piece.utf8Length +
+		calculateUTF8Size(node.right)
+	);
+}
+
+function setParent(node: TreeNode, parent: TreeNode): void {
+	if (node !== SENTINEL) {
+		node.parent = parent;
+	}
 }
 
 export function leftRotate(tree: PieceTreeBase, x: TreeNode) {
@@ -144,6 +163,8 @@ export function leftRotate(tree: PieceTreeBase, x: TreeNode) {
 
 	y.lf_left += x.lf_left + (x.piece ? x.piece.lineFeedCnt : 0);
 
+	y.utf8_size_left += x.utf8_size_left + (x.piece ? x.piece.utf8Length : 0);
+
 	x.right = y.left;
 
 	if (y.left !== SENTINEL) {
@@ -181,6 +202,8 @@ export function rightRotate(tree: PieceTreeBase, y: TreeNode) {
 
 	y.lf_left -= x.lf_left + (x.piece ? x.piece.lineFeedCnt : 0);
 
+	y.utf8_size_left -= x.utf8_size_left + (x.piece ? x.piece.utf8Length : 0);
+
 	if (y.parent === SENTINEL) {
 		tree.root = x;
 	} else if (y === y.parent.right) {
@@ -199,6 +222,9 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 
 	let y: TreeNode;
 
+	// x may be the SENTINEL, so its parent is kept here instead of in x.parent
+	let xParent: TreeNode;
+
 	if (z.left === SENTINEL) {
 		y = z;
 
@@ -216,14 +242,14 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 	if (y === tree.root) {
 		tree.root = x;
 
-		// if x is null, we are removing the only node
-		x.color = NodeColor.Black;
-
 		z.detach();
 
-		resetSentinel();
+		// if x is the SENTINEL, we are removing the only node
+		if (x !== SENTINEL) {
+			x.color = NodeColor.Black;
 
-		tree.root.parent = SENTINEL;
+			x.parent = SENTINEL;
+		}
 
 		return;
 	}
@@ -237,18 +263,22 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 	}
 
 	if (y === z) {
-		x.parent = y.parent;
+		xParent = y.parent;
 
-		recomputeTreeMetadata(tree, x);
+		setParent(x, xParent);
+
+		recomputeTreeMetadata(tree, x, xParent);
 	} else {
 		if (y.parent === z) {
-			x.parent = y;
+			xParent = y;
 		} else {
-			x.parent = y.parent;
+			xParent = y.parent;
 		}
 
+		setParent(x, xParent);
+
 		// as we make changes to x's hierarchy, update size_left of subtree first
-		recomputeTreeMetadata(tree, x);
+		recomputeTreeMetadata(tree, x, xParent);
 
 		y.left = z.left;
 
@@ -281,37 +311,44 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 
 		y.lf_left = z.lf_left;
 
+		y.utf8_size_left = z.utf8_size_left;
+
 		recomputeTreeMetadata(tree, y);
 	}
 
 	z.detach();
 
-	if (x.parent.left === x) {
+	if (xParent.left === x) {
 		let newSizeLeft = calculateSize(x);
 
 		let newLFLeft = calculateLF(x);
 
+		let newUTF8SizeLeft = calculateUTF8Size(x);
+
 		if (
-			newSizeLeft !== x.parent.size_left ||
-			newLFLeft !== x.parent.lf_left
+			newSizeLeft !== xParent.size_left ||
+			newLFLeft !== xParent.lf_left ||
+			newUTF8SizeLeft !== xParent.utf8_size_left
 		) {
-			let delta = newSizeLeft - x.parent.size_left;
+			let delta = newSizeLeft - xParent.size_left;
 
-			let lf_delta = newLFLeft - x.parent.lf_left;
+			let lf_delta = newLFLeft - xParent.lf_left;
 
-			x.parent.size_left = newSizeLeft;
+			let utf8_delta = newUTF8SizeLeft - xParent.utf8_size_left;
 
-			x.parent.lf_left = newLFLeft;
+			xParent.size_left = newSizeLeft;
 
-			updateTreeMetadata(tree, x.parent, delta, lf_delta);
+			xParent.lf_left = newLFLeft;
+
+			xParent.utf8_size_left = newUTF8SizeLeft;
+
+			updateTreeMetadata(tree, xParent, delta, lf_delta, utf8_delta);
 		}
 	}
 
-	recomputeTreeMetadata(tree, x.parent);
+	recomputeTreeMetadata(tree, xParent);
 
 	if (yWasRed) {
-		resetSentinel();
-
 		return;
 	}
 
@@ -319,17 +356,17 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 	let w: TreeNode;
 
 	while (x !== tree.root && x.color === NodeColor.Black) {
-		if (x === x.parent.left) {
-			w = x.parent.right;
+		if (x === xParent.left) {
+			w = xParent.right;
 
 			if (w.color === NodeColor.Red) {
 				w.color = NodeColor.Black;
 
-				x.parent.color = NodeColor.Red;
+				xParent.color = NodeColor.Red;
 
-				leftRotate(tree, x.parent);
+				leftRotate(tree, xParent);
 
-				w = x.parent.right;
+				w = xParent.right;
 			}
 
 			if (
@@ -338,7 +375,9 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 			) {
 				w.color = NodeColor.Red;
 
-				x = x.parent;
+				x = xParent;
+
+				xParent = x.parent;
 			} else {
 				if (w.right.color === NodeColor.Black) {
 					w.left.color = NodeColor.Black;
@@ -347,30 +386,30 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 
 					rightRotate(tree, w);
 
-					w = x.parent.right;
+					w = xParent.right;
 				}
 
-				w.color = x.parent.color;
+				w.color = xParent.color;
 
-				x.parent.color = NodeColor.Black;
+				xParent.color = NodeColor.Black;
 
 				w.right.color = NodeColor.Black;
 
-				leftRotate(tree, x.parent);
+				leftRotate(tree, xParent);
 
 				x = tree.root;
 			}
 		} else {
-			w = x.parent.left;
+			w = xParent.left;
 
 			if (w.color === NodeColor.Red) {
 				w.color = NodeColor.Black;
 
-				x.parent.color = NodeColor.Red;
+				xParent.color = NodeColor.Red;
 
-				rightRotate(tree, x.parent);
+				rightRotate(tree, xParent);
 
-				w = x.parent.left;
+				w = xParent.left;
 			}
 
 			if (
@@ -379,7 +418,9 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 			) {
 				w.color = NodeColor.Red;
 
-				x = x.parent;
+				x = xParent;
+
+				xParent = x.parent;
 			} else {
 				if (w.left.color === NodeColor.Black) {
 					w.right.color = NodeColor.Black;
@@ -388,16 +429,16 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 
 					leftRotate(tree, w);
 
-					w = x.parent.left;
+					w = xParent.left;
 				}
 
-				w.color = x.parent.color;
+				w.color = xParent.color;
 
-				x.parent.color = NodeColor.Black;
+				xParent.color = NodeColor.Black;
 
 				w.left.color = NodeColor.Black;
 
-				rightRotate(tree, x.parent);
+				rightRotate(tree, xParent);
 
 				x = tree.root;
 			}
@@ -405,8 +446,6 @@ export function rbDelete(tree: PieceTreeBase, z: TreeNode) {
 	}
 
 	x.color = NodeColor.Black;
-
-	resetSentinel();
 }
 
 export function fixInsert(tree: PieceTreeBase, x: TreeNode) {
@@ -472,6 +511,7 @@ export function updateTreeMetadata(
 	x: TreeNode,
 	delta: number,
 	lineFeedCntDelta: number,
+	utf8Delta: number,
 ): void {
 	// node length change or line feed count change
 	while (x !== tree.root && x !== SENTINEL) {
@@ -479,25 +519,38 @@ export function updateTreeMetadata(
 			x.parent.size_left += delta;
 
 			x.parent.lf_left += lineFeedCntDelta;
+
+			x.parent.utf8_size_left += utf8Delta;
 		}
 
 		x = x.parent;
 	}
 }
 
-export function recomputeTreeMetadata(tree: PieceTreeBase, x: TreeNode) {
+/**
+ * @param parent The parent of `x`, which must be passed when `x` is the SENTINEL.
+ */
+export function recomputeTreeMetadata(
+	tree: PieceTreeBase,
+	x: TreeNode,
+	parent: TreeNode = x.parent,
+) {
 	let delta = 0;
 
 	let lf_delta = 0;
 
+	let utf8_delta = 0;
+
 	if (x === tree.root) {
 		return;
 	}
 
 	if (delta === 0) {
 		// go upwards till the node whose left subtree is changed.
-		while (x !== tree.root && x === x.parent.right) {
-			x = x.parent;
+		while (x !== tree.root && x === parent.right) {
+			x = parent;
+
+			parent = x.parent;
 		}
 
 		if (x === tree.root) {
@@ -506,23 +559,32 @@ export function recomputeTreeMetadata(tree: PieceTreeBase, x: TreeNode) {
 		}
 
 		// x is the node whose right subtree is changed.
-		x = x.parent;
+		x = parent;
 
 		delta = calculateSize(x.left) - x.size_left;
 
 		lf_delta = calculateLF(x.left) - x.lf_left;
 
+		utf8_delta = calculateUTF8Size(x.left) - x.utf8_size_left;
+
 		x.size_left += delta;
 
 		x.lf_left += lf_delta;
+
+		x.utf8_size_left += utf8_delta;
 	}
 
 	// go upwards till root. O(logN)
-	while (x !== tree.root && (delta !== 0 || lf_delta !== 0)) {
+	while (
+		x !== tree.root &&
+		(delta !== 0 || lf_delta !== 0 || utf8_delta !== 0)
+	) {
 		if (x.parent.left === x) {
 			x.parent.size_left += delta;
 
 			x.parent.lf_left += lf_delta;
+
+			x.parent.utf8_size_left += utf8_delta;
 		}
 
 		x = x.parent;
@@ -0,0 +1,203 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import { IModelContentChangedEvent } from "../pieceTreeBase";
+import { createRandom, createTree, randomText } from "./testUtils";
+
+describe("PieceTreeBase.applyEdits", () => {
+	test("applies edits given in any order", () => {
+		const tree = createTree("one\ntwo\nthree");
+
+		tree.applyEdits([
+			{ range: new Range(3, 1, 3, 6), text: "THREE" },
+			{ range: new Range(1, 1, 1, 1), text: "zero\n" },
+			{ range: new Range(2, 1, 2, 4), text: "2" },
+		]);
+
+		expect(tree.getLinesRawContent()).toBe("zero\none\n2\nTHREE");
+	});
+
+	test("rejects overlapping edits and accepts touching ones", () => {
+		const tree = createTree("abcdef");
+
+		expect(() =>
+			tree.applyEdits([
+				{ range: new Range(1, 4, 1, 6), text: "x" },
+				{ range: new Range(1, 2, 1, 5), text: "y" },
+			]),
+		).toThrow("Overlapping ranges are not allowed!");
+
+		expect(tree.getLinesRawContent()).toBe("abcdef");
+
+		tree.applyEdits([
+			{ range: new Range(1, 3, 1, 5), text: "x" },
+			{ range: new Range(1, 1, 1, 3), text: "y" },
+		]);
+
+		expect(tree.getLinesRawContent()).toBe("yxef");
+	});
+
+	test("returns reverse edits in the order of the edits", () => {
+		const tree = createTree("one\ntwo\nthree");
+
+		const result = tree.applyEdits(
+			[
+				{ range: new Range(3, 1, 3, 6), text: "3" },
+				{ range: new Range(1, 4, 2, 1), text: " and " },
+			],
+			false,
+			true,
+		);
+
+		expect(tree.getLinesRawContent()).toBe("one and two\n3");
+
+		expect(result.reverseEdits).toEqual([
+			{ sortIndex: 0, range: new Range(2, 1, 2, 2), text: "three" },
+			{ sortIndex: 1, range: new Range(1, 4, 1, 9), text: "\n" },
+		]);
+
+		tree.applyEdits(result.reverseEdits!);
+
+		expect(tree.getLinesRawContent()).toBe("one\ntwo\nthree");
+	});
+
+	test("clamps edits past the end of the buffer", () => {
+		const tree = createTree("abc\ndef");
+
+		const changes: IModelContentChangedEvent[] = [];
+
+		tree.onDidChangeContent((e) => changes.push(e));
+
+		const result = tree.applyEdits(
+			[{ range: new Range(2, 2, 5, 10), text: "X" }],
+			false,
+			true,
+		);
+
+		expect(tree.getLinesRawContent()).toBe("abc\ndX");
+
+		expect(result.reverseEdits).toEqual([
+			{ sortIndex: 0, range: new Range(2, 2, 2, 3), text: "ef" },
+		]);
+
+		expect(changes[0].changes).toEqual([
+			{
+				range: new Range(2, 2, 2, 4),
+				rangeOffset: 5,
+				rangeLength: 2,
+				text: "X",
+				forceMoveMarkers: false,
+			},
+		]);
+	});
+
+	test("reports the clamped length of a delete past the end", () => {
+		const tree = createTree("abc\ndef");
+
+		const changes: IModelContentChangedEvent[] = [];
+
+		tree.onDidChangeContent((e) => changes.push(e));
+
+		tree.delete(5, 100);
+
+		tree.delete(-2, 3);
+
+		expect(tree.getLinesRawContent()).toBe("bc\nd");
+
+		expect(changes.map((e) => e.changes)).toEqual([
+			[
+				{
+					range: new Range(2, 2, 2, 4),
+					rangeOffset: 5,
+					rangeLength: 2,
+					text: "",
+					forceMoveMarkers: false,
+				},
+			],
+			[
+				{
+					range: new Range(1, 1, 1, 2),
+					rangeOffset: 0,
+					rangeLength: 1,
+					text: "",
+					forceMoveMarkers: false,
+				},
+			],
+		]);
+	});
+
+	test("undoes random edits with the reverse edits", () => {
+		const random = createRandom(17);
+
+		const tree = createTree(randomText(random, 300));
+
+		for (let iteration = 0; iteration < 200; iteration++) {
+			const before = tree.getLinesRawContent();
+
+			const lineCount = tree.getLineCount();
+
+			// random non overlapping ranges, one per line at most
+			const operations = [];
+
+			for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+				if (random(4) !== 0) {
+					continue;
+				}
+
+				const maxColumn = tree.getLineLength(lineNumber) + 1;
+
+				const startColumn = random(maxColumn) + 1;
+
+				const endColumn =
+					startColumn + random(maxColumn - startColumn + 1);
+
+				operations.push({
+					range: new Range(
+						lineNumber,
+						startColumn,
+						lineNumber,
+						endColumn,
+					),
+					text: randomText(random, 4),
+				});
+			}
+
+			// the order of the operations does not matter
+			operations.reverse();
+
+			let expected = before;
+
+			for (const operation of operations) {
+				const { range, text } = operation;
+
+				const start = tree.getOffsetAt(
+					range.startLineNumber,
+					range.startColumn,
+				);
+
+				const end = tree.getOffsetAt(
+					range.endLineNumber,
+					range.endColumn,
+				);
+
+				expected =
+					expected.slice(0, start) +
+					text.replace(/\r\n|\r|\n/g, "\n") +
+					expected.slice(end);
+			}
+
+			const result = tree.applyEdits(operations, false, true);
+
+			expect(tree.getLinesRawContent()).toBe(expected);
+
+			tree.applyEdits(result.reverseEdits!);
+
+			expect(tree.getLinesRawContent()).toBe(before);
+
+			tree.applyEdits(operations);
+		}
+	});
+});
@@ -0,0 +1,487 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	BracketPair,
+	BracketPairsTree,
+	DEFAULT_BRACKET_PAIRS,
+} from "../bracketPairs";
+import { Position } from "../common/position";
+import { Range } from "../common/range";
+import { escapeRegExpCharacters } from "../common/strings";
+import { PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree } from "./testUtils";
+
+const alphabet = ["a", " ", "(", ")", "[", "]", "{", "}", "\n", "\r\n", "\r"];
+
+interface IModelBracket {
+	readonly lineNumber: number;
+	readonly column: number;
+	readonly length: number;
+	readonly pairIndex: number;
+	readonly isOpen: boolean;
+}
+
+/**
+ * All brackets of `lines` in order, found without the index.
+ */
+function getModelBrackets(
+	lines: string[],
+	brackets: BracketPair[],
+): IModelBracket[] {
+	const sources = brackets
+		.reduce<string[]>((result, pair) => result.concat(pair), [])
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExpCharacters);
+
+	const regex = new RegExp(sources.join("|"), "g");
+
+	const result: IModelBracket[] = [];
+
+	lines.forEach((line, i) => {
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(line)) !== null) {
+			const text = match[0];
+
+			const pairIndex = brackets.findIndex(
+				(pair) => pair.indexOf(text) !== -1,
+			);
+
+			result.push({
+				lineNumber: i + 1,
+				column: match.index + 1,
+				length: text.length,
+				pairIndex,
+				isOpen: brackets[pairIndex][0] === text,
+			});
+		}
+	});
+
+	return result;
+}
+
+function toRange(bracket: IModelBracket): Range {
+	return new Range(
+		bracket.lineNumber,
+		bracket.column,
+		bracket.lineNumber,
+		bracket.column + bracket.length,
+	);
+}
+
+function findModelMatch(
+	brackets: IModelBracket[],
+	index: number,
+): IModelBracket | null {
+	const { pairIndex, isOpen } = brackets[index];
+
+	const step = isOpen ? 1 : -1;
+
+	let depth = 0;
+
+	for (let i = index; i >= 0 && i < brackets.length; i += step) {
+		if (brackets[i].pairIndex !== pairIndex) {
+			continue;
+		}
+
+		depth += brackets[i].isOpen === isOpen ? 1 : -1;
+
+		if (depth === 0) {
+			return brackets[i];
+		}
+	}
+
+	return null;
+}
+
+function matchModelBracket(
+	brackets: IModelBracket[],
+	position: Position,
+): [Range, Range] | null {
+	let index = -1;
+
+	for (let i = 0; i < brackets.length; i++) {
+		const bracket = brackets[i];
+
+		if (bracket.lineNumber !== position.lineNumber) {
+			continue;
+		}
+
+		const end = bracket.column + bracket.length;
+
+		if (bracket.column < position.column && position.column <= end) {
+			index = i;
+
+			break;
+		}
+
+		if (bracket.column === position.column && index === -1) {
+			index = i;
+		}
+	}
+
+	if (index === -1) {
+		return null;
+	}
+
+	const match = findModelMatch(brackets, index);
+
+	return match ? [toRange(brackets[index]), toRange(match)] : null;
+}
+
+function findModelEnclosingBrackets(
+	brackets: IModelBracket[],
+	position: Position,
+): [Range, Range] | null {
+	const counts = brackets.map(() => 0);
+
+	for (let i = brackets.length - 1; i >= 0; i--) {
+		const bracket = brackets[i];
+
+		if (
+			bracket.lineNumber > position.lineNumber ||
+			(bracket.lineNumber === position.lineNumber &&
+				bracket.column + bracket.length > position.column)
+		) {
+			continue;
+		}
+
+		if (!bracket.isOpen) {
+			counts[bracket.pairIndex]++;
+		} else if (counts[bracket.pairIndex] > 0) {
+			counts[bracket.pairIndex]--;
+		} else {
+			const match = findModelMatch(brackets, i);
+
+			if (match) {
+				return [toRange(bracket), toRange(match)];
+			}
+		}
+	}
+
+	return null;
+}
+
+function assertBrackets(
+	tree: PieceTreeBase,
+	bracketPairs: BracketPairsTree,
+	pairs: BracketPair[] = DEFAULT_BRACKET_PAIRS,
+): void {
+	const lines = tree.getLinesContent();
+
+	const brackets = getModelBrackets(lines, pairs);
+
+	const positions = brackets.map(
+		(bracket) => new Position(bracket.lineNumber, bracket.column),
+	);
+
+	for (let lineNumber = 1; lineNumber <= lines.length; lineNumber += 7) {
+		positions.push(
+			new Position(lineNumber, 1),
+			new Position(lineNumber, lines[lineNumber - 1].length + 1),
+		);
+	}
+
+	for (const position of positions) {
+		expect(bracketPairs.matchBracket(position)).toEqual(
+			matchModelBracket(brackets, position),
+		);
+
+		expect(bracketPairs.findEnclosingBrackets(position)).toEqual(
+			findModelEnclosingBrackets(brackets, position),
+		);
+	}
+}
+
+function randomText(
+	random: (max: number) => number,
+	maxLength: number,
+): string {
+	let result = "";
+
+	for (let i = random(maxLength + 1); i > 0; i--) {
+		result += alphabet[random(alphabet.length)];
+	}
+
+	return result;
+}
+
+describe("BracketPairsTree", () => {
+	test("matches a bracket in both directions", () => {
+		const tree = createTree("f(a[b]{c})");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		const parens: [Range, Range] = [
+			new Range(1, 2, 1, 3),
+			new Range(1, 10, 1, 11),
+		];
+
+		// starting at or ending at the position
+		expect(bracketPairs.matchBracket(new Position(1, 2))).toEqual(parens);
+
+		expect(bracketPairs.matchBracket(new Position(1, 3))).toEqual(parens);
+
+		expect(bracketPairs.matchBracket(new Position(1, 11))).toEqual([
+			parens[1],
+			parens[0],
+		]);
+
+		expect(bracketPairs.matchBracket(new Position(1, 7))).toEqual([
+			new Range(1, 6, 1, 7),
+			new Range(1, 4, 1, 5),
+		]);
+
+		expect(bracketPairs.matchBracket(new Position(1, 1))).toBeNull();
+
+		expect(bracketPairs.matchBracket(new Position(2, 1))).toBeNull();
+	});
+
+	test("prefers the bracket ending at the position", () => {
+		const tree = createTree("()");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		expect(bracketPairs.matchBracket(new Position(1, 2))).toEqual([
+			new Range(1, 1, 1, 2),
+			new Range(1, 2, 1, 3),
+		]);
+	});
+
+	test("nests only brackets of the same pair", () => {
+		const tree = createTree("([)]\n((])");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		expect(bracketPairs.matchBracket(new Position(1, 1))).toEqual([
+			new Range(1, 1, 1, 2),
+			new Range(1, 3, 1, 4),
+		]);
+
+		expect(bracketPairs.matchBracket(new Position(1, 3))).toEqual([
+			new Range(1, 2, 1, 3),
+			new Range(1, 4, 1, 5),
+		]);
+
+		// the ] has no [ and the first ( has no )
+		expect(bracketPairs.matchBracket(new Position(2, 4))).toBeNull();
+
+		expect(bracketPairs.matchBracket(new Position(2, 1))).toBeNull();
+
+		expect(bracketPairs.matchBracket(new Position(2, 3))).toEqual([
+			new Range(2, 2, 2, 3),
+			new Range(2, 4, 2, 5),
+		]);
+	});
+
+	test("finds the closest enclosing brackets", () => {
+		const tree = createTree("a(b[c]d)e\n{x}\n{(y}");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		expect(bracketPairs.findEnclosingBrackets(new Position(1, 5))).toEqual([
+			new Range(1, 4, 1, 5),
+			new Range(1, 6, 1, 7),
+		]);
+
+		expect(bracketPairs.findEnclosingBrackets(new Position(1, 8))).toEqual([
+			new Range(1, 2, 1, 3),
+			new Range(1, 8, 1, 9),
+		]);
+
+		expect(
+			bracketPairs.findEnclosingBrackets(new Position(1, 1)),
+		).toBeNull();
+
+		expect(
+			bracketPairs.findEnclosingBrackets(new Position(2, 1)),
+		).toBeNull();
+
+		expect(bracketPairs.findEnclosingBrackets(new Position(2, 2))).toEqual([
+			new Range(2, 1, 2, 2),
+			new Range(2, 3, 2, 4),
+		]);
+
+		// an unclosed bracket encloses nothing
+		expect(bracketPairs.findEnclosingBrackets(new Position(3, 3))).toEqual([
+			new Range(3, 1, 3, 2),
+			new Range(3, 4, 3, 5),
+		]);
+	});
+
+	test("supports custom bracket pairs", () => {
+		const pairs: BracketPair[] = [
+			["begin", "end"],
+			["{{", "}}"],
+		];
+
+		const tree = createTree("begin {{{ x }} (end)");
+
+		const bracketPairs = new BracketPairsTree(tree, pairs);
+
+		expect(bracketPairs.matchBracket(new Position(1, 1))).toEqual([
+			new Range(1, 1, 1, 6),
+			new Range(1, 17, 1, 20),
+		]);
+
+		// the longest bracket wins, so the third { is text
+		expect(bracketPairs.matchBracket(new Position(1, 7))).toEqual([
+			new Range(1, 7, 1, 9),
+			new Range(1, 13, 1, 15),
+		]);
+
+		expect(bracketPairs.matchBracket(new Position(1, 16))).toBeNull();
+
+		expect(bracketPairs.findEnclosingBrackets(new Position(1, 10))).toEqual(
+			[new Range(1, 7, 1, 9), new Range(1, 13, 1, 15)],
+		);
+
+		assertBrackets(tree, bracketPairs, pairs);
+	});
+
+	test("rejects invalid bracket pairs", () => {
+		const tree = createTree("");
+
+		for (const pairs of [
+			[["", ")"]],
+			[["|", "|"]],
+			[
+				["(", ")"],
+				["(", "]"],
+			],
+		] as BracketPair[][]) {
+			expect(() => new BracketPairsTree(tree, pairs)).toThrow(
+				"Invalid bracket pair",
+			);
+		}
+	});
+
+	test("follows inserts and deletes", () => {
+		const tree = createTree("(a\nb)");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		tree.insert(3, "[\n");
+
+		expect(bracketPairs.matchBracket(new Position(2, 1))).toBeNull();
+
+		tree.insert(tree.getLength(), "]");
+
+		expect(bracketPairs.matchBracket(new Position(2, 1))).toEqual([
+			new Range(2, 1, 2, 2),
+			new Range(3, 3, 3, 4),
+		]);
+
+		tree.delete(0, 1);
+
+		expect(bracketPairs.matchBracket(new Position(3, 2))).toBeNull();
+
+		tree.applyEdits([{ range: new Range(1, 1, 1, 1), text: "(\n" }]);
+
+		expect(bracketPairs.findEnclosingBrackets(new Position(3, 1))).toEqual([
+			new Range(1, 1, 1, 2),
+			new Range(4, 2, 4, 3),
+		]);
+
+		// a flush
+		tree.setEOL("\r\n");
+
+		assertBrackets(tree, bracketPairs);
+	});
+
+	test("follows a \\r and a \\n joining into one line break", () => {
+		const tree = createTree("(\rx)", { normalizeEOL: false });
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		tree.insert(2, "\n");
+
+		expect(tree.getLineCount()).toBe(2);
+
+		expect(bracketPairs.matchBracket(new Position(1, 1))).toEqual([
+			new Range(1, 1, 1, 2),
+			new Range(2, 2, 2, 3),
+		]);
+
+		tree.insert(2, "y");
+
+		assertBrackets(tree, bracketPairs);
+	});
+
+	test("stops following the tree once disposed", () => {
+		const tree = createTree("()");
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		bracketPairs.dispose();
+
+		tree.insert(0, "\n");
+
+		expect(bracketPairs.matchBracket(new Position(2, 1))).toBeNull();
+	});
+
+	test("skips whole blocks of lines", () => {
+		const lines = ["("];
+
+		for (let i = 0; i < 1000; i++) {
+			lines.push(i % 2 === 0 ? "{[" : "]}");
+		}
+
+		lines.push(")");
+
+		const tree = createTree(lines.join("\n"));
+
+		const bracketPairs = new BracketPairsTree(tree);
+
+		expect(bracketPairs.matchBracket(new Position(1, 1))).toEqual([
+			new Range(1, 1, 1, 2),
+			new Range(1002, 1, 1002, 2),
+		]);
+
+		expect(
+			bracketPairs.findEnclosingBrackets(new Position(600, 1)),
+		).toEqual([new Range(1, 1, 1, 2), new Range(1002, 1, 1002, 2)]);
+
+		assertBrackets(tree, bracketPairs);
+	});
+
+	test("keeps matching the brackets through random edits", () => {
+		const random = createRandom(24);
+
+		for (let iteration = 0; iteration < 10; iteration++) {
+			const tree = createTree(randomText(random, 2000), {
+				normalizeEOL: false,
+			});
+
+			const bracketPairs = new BracketPairsTree(tree);
+
+			assertBrackets(tree, bracketPairs);
+
+			for (let i = 0; i < 100; i++) {
+				const length = tree.getLength();
+
+				// scattered, so that edits touch every block
+				const offset = (i * 7919 + random(100)) % (length + 1);
+
+				const count = Math.min(random(40), length - offset);
+
+				if (count > 0 && random(2) === 0) {
+					tree.delete(offset, count);
+				} else {
+					tree.insert(offset, randomText(random, 30));
+				}
+
+				if (i % 25 === 0) {
+					assertBrackets(tree, bracketPairs);
+				}
+			}
+
+			assertBrackets(tree, bracketPairs);
+
+			bracketPairs.dispose();
+		}
+	});
+});
@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "../common/position";
+import { getUTF8Length, PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree, randomText } from "./testUtils";
+
+const encoder = new TextEncoder();
+
+function getByteLength(text: string): number {
+	// lone surrogates are encoded as U+FFFD
+	return encoder.encode(text).length;
+}
+
+function assertByteOffsets(tree: PieceTreeBase): void {
+	const content = tree.getLinesRawContent();
+
+	expect(tree.getByteLength()).toBe(getByteLength(content));
+
+	for (let offset = 0; offset <= content.length; offset++) {
+		if (
+			/[\ud800-\udbff]/.test(content.charAt(offset - 1)) &&
+			/[\udc00-\udfff]/.test(content.charAt(offset))
+		) {
+			// inside a pair
+			continue;
+		}
+
+		const position = tree.getPositionAt(offset);
+
+		const byteOffset = getByteLength(content.substring(0, offset));
+
+		expect(tree.getByteOffsetAt(position)).toBe(byteOffset);
+
+		expect(tree.getPositionAtByteOffset(byteOffset)).toEqual(position);
+	}
+}
+
+describe("PieceTreeBase byte offsets", () => {
+	test("count 1 to 4 bytes per character", () => {
+		const tree = createTree("aé€😀\nb");
+
+		expect(tree.getByteLength()).toBe(1 + 2 + 3 + 4 + 1 + 1);
+
+		expect(tree.getByteOffsetAt(new Position(1, 4))).toBe(6);
+
+		expect(tree.getByteOffsetAt(new Position(2, 1))).toBe(11);
+
+		expect(tree.getPositionAtByteOffset(10)).toEqual(new Position(1, 6));
+	});
+
+	test("resolve an offset inside a character to its start", () => {
+		const tree = createTree("a😀b");
+
+		for (const byteOffset of [2, 3, 4]) {
+			expect(tree.getPositionAtByteOffset(byteOffset)).toEqual(
+				new Position(1, 2),
+			);
+		}
+
+		expect(tree.getPositionAtByteOffset(5)).toEqual(new Position(1, 4));
+
+		expect(tree.getPositionAtByteOffset(-1)).toEqual(new Position(1, 1));
+
+		expect(tree.getPositionAtByteOffset(100)).toEqual(new Position(1, 5));
+	});
+
+	test("count a lone surrogate as the 3 bytes of U+FFFD", () => {
+		expect(getUTF8Length("a\ud83db", 0, 3)).toBe(5);
+
+		expect(getUTF8Length("\ude00\ud83d", 0, 2)).toBe(6);
+
+		// the other half is outside of the range
+		expect(getUTF8Length("😀", 0, 1)).toBe(3);
+
+		expect(getUTF8Length("😀", 0, 2)).toBe(4);
+
+		assertByteOffsets(createTree("x\ud83dy\ude00z"));
+	});
+
+	test("count the halves of a pair split by an edit as lone surrogates", () => {
+		const tree = createTree("a😀b");
+
+		tree.insert(2, "x");
+
+		expect(tree.getLinesRawContent()).toBe("a\ud83dx\ude00b");
+
+		assertByteOffsets(tree);
+
+		tree.delete(2, 2);
+
+		expect(tree.getLinesRawContent()).toBe("a\ud83db");
+
+		assertByteOffsets(tree);
+	});
+
+	test("count a pair typed one half at a time as a pair", () => {
+		const tree = createTree("ab");
+
+		tree.insert(1, "\ud83d");
+
+		tree.insert(2, "\ude00");
+
+		expect(tree.getLinesRawContent()).toBe("a😀b");
+
+		assertByteOffsets(tree);
+	});
+
+	test("keep byte offsets through random edits and compact", () => {
+		const random = createRandom(37);
+
+		const tree = createTree(randomText(random, 100), {
+			normalizeEOL: false,
+		});
+
+		for (let i = 0; i < 100; i++) {
+			const content = tree.getLinesRawContent();
+
+			let offset = random(content.length + 1);
+
+			// between code points, so no edit splits a surrogate pair
+			if (/[\udc00-\udfff]/.test(content.charAt(offset))) {
+				offset--;
+			}
+
+			if (random(2) === 0) {
+				let end = Math.min(content.length, offset + random(10));
+
+				if (/[\udc00-\udfff]/.test(content.charAt(end))) {
+					end++;
+				}
+
+				tree.delete(offset, end - offset);
+			} else {
+				tree.insert(offset, randomText(random, 5));
+			}
+
+			if (i % 10 === 0) {
+				assertByteOffsets(tree);
+			}
+		}
+
+		tree.compact();
+
+		assertByteOffsets(tree);
+	});
+});
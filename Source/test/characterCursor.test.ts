@@ -0,0 +1,256 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "../common/position";
+import { CharacterStepMode, PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree } from "./testUtils";
+
+/**
+ * Pieces of text for grapheme clusters: combining marks, regional indicators, emoji with
+ * modifiers and zero width joiners, and line breaks.
+ */
+const graphemeAlphabet = [
+	"a",
+	"é",
+	"\u0301",
+	"🇫",
+	"🇷",
+	"👨",
+	"👩",
+	"\u200d",
+	"\ufe0f",
+	"🏽",
+	"\r",
+	"\n",
+	"😀",
+];
+
+function splitForwards(tree: PieceTreeBase, mode: CharacterStepMode): string[] {
+	const cursor = tree.createCharacterCursor(new Position(1, 1), mode);
+
+	const result: string[] = [];
+
+	let character: string | null;
+
+	while ((character = cursor.next()) !== null) {
+		result.push(character);
+	}
+
+	expect(cursor.offset).toBe(tree.getLength());
+
+	return result;
+}
+
+function splitBackwards(
+	tree: PieceTreeBase,
+	mode: CharacterStepMode,
+): string[] {
+	const cursor = tree.createCharacterCursor(
+		tree.getPositionAt(tree.getLength()),
+		mode,
+	);
+
+	const result: string[] = [];
+
+	let character: string | null;
+
+	while ((character = cursor.prev()) !== null) {
+		result.unshift(character);
+	}
+
+	expect(cursor.offset).toBe(0);
+
+	return result;
+}
+
+describe("character cursor", () => {
+	test("steps over code points in both directions", () => {
+		const tree = createTree("a😀\r\nb");
+
+		const cursor = tree.createCharacterCursor(new Position(1, 1));
+
+		expect(cursor.prev()).toBeNull();
+
+		expect(cursor.next()).toBe("a");
+
+		expect(cursor.next()).toBe("😀");
+
+		expect(cursor.offset).toBe(3);
+
+		expect(cursor.next()).toBe("\r");
+
+		expect(cursor.next()).toBe("\n");
+
+		expect(cursor.getPosition()).toEqual(new Position(2, 1));
+
+		expect(cursor.next()).toBe("b");
+
+		expect(cursor.next()).toBeNull();
+
+		expect(cursor.prev()).toBe("b");
+
+		expect(cursor.prev()).toBe("\n");
+
+		expect(cursor.prev()).toBe("\r");
+
+		expect(cursor.prev()).toBe("😀");
+
+		expect(cursor.offset).toBe(1);
+	});
+
+	test("peeks without moving", () => {
+		const tree = createTree("x😀y");
+
+		const cursor = tree.createCharacterCursor(new Position(1, 2));
+
+		expect(cursor.peekNext()).toBe("😀");
+
+		expect(cursor.peekPrev()).toBe("x");
+
+		expect(cursor.offset).toBe(1);
+
+		expect(cursor.next()).toBe("😀");
+	});
+
+	test("starts inside the buffer", () => {
+		const tree = createTree("ab\ncd");
+
+		expect(tree.createCharacterCursor(new Position(5, 1)).offset).toBe(5);
+
+		expect(
+			tree.createCharacterCursor(new Position(2, 100)).next(),
+		).toBeNull();
+
+		expect(
+			createTree("").createCharacterCursor(new Position(1, 1)).next(),
+		).toBeNull();
+	});
+
+	test("returns a lone surrogate as one code point", () => {
+		const tree = createTree("a\ud83db\ude00");
+
+		expect(splitForwards(tree, CharacterStepMode.CodePoint)).toEqual([
+			"a",
+			"\ud83d",
+			"b",
+			"\ude00",
+		]);
+
+		expect(splitBackwards(tree, CharacterStepMode.CodePoint)).toEqual([
+			"a",
+			"\ud83d",
+			"b",
+			"\ude00",
+		]);
+	});
+
+	test("joins a surrogate pair split between pieces", () => {
+		const tree = createTree("ab");
+
+		tree.insert(1, "\ud83d");
+
+		tree.insert(2, "\ude00");
+
+		expect(tree.getStatistics().nodeCount).toBeGreaterThan(1);
+
+		expect(splitForwards(tree, CharacterStepMode.CodePoint)).toEqual([
+			"a",
+			"😀",
+			"b",
+		]);
+
+		expect(splitBackwards(tree, CharacterStepMode.CodePoint)).toEqual([
+			"a",
+			"😀",
+			"b",
+		]);
+	});
+
+	test("steps over grapheme clusters", () => {
+		const family = "👨\u200d👩\u200d👧";
+
+		const text = `e\u0301${family}🇫🇷🇩🇪🇫👍🏽\r\nx`;
+
+		const tree = createTree(text, { normalizeEOL: false });
+
+		const graphemes = [
+			"e\u0301",
+			family,
+			"🇫🇷",
+			"🇩🇪",
+			"🇫",
+			"👍🏽",
+			"\r\n",
+			"x",
+		];
+
+		expect(splitForwards(tree, CharacterStepMode.Grapheme)).toEqual(
+			graphemes,
+		);
+
+		expect(splitBackwards(tree, CharacterStepMode.Grapheme)).toEqual(
+			graphemes,
+		);
+	});
+
+	test("does not join a ZWJ and a pictograph after other characters", () => {
+		const tree = createTree("a\u200d👩");
+
+		expect(splitForwards(tree, CharacterStepMode.Grapheme)).toEqual([
+			"a\u200d",
+			"👩",
+		]);
+
+		expect(splitBackwards(tree, CharacterStepMode.Grapheme)).toEqual([
+			"a\u200d",
+			"👩",
+		]);
+	});
+
+	test("finds the same grapheme clusters in both directions", () => {
+		const random = createRandom(23);
+
+		for (let iteration = 0; iteration < 50; iteration++) {
+			let text = "";
+
+			for (let i = random(40); i > 0; i--) {
+				text += graphemeAlphabet[random(graphemeAlphabet.length)];
+			}
+
+			const tree = createTree(text, { normalizeEOL: false });
+
+			// split the text over several pieces
+			for (let i = 0; i < 5; i++) {
+				const offset = random(tree.getLength() + 1);
+
+				tree.insert(offset, "a");
+
+				tree.delete(offset, 1);
+			}
+
+			const forwards = splitForwards(tree, CharacterStepMode.Grapheme);
+
+			expect(forwards.join("")).toBe(text);
+
+			expect(splitBackwards(tree, CharacterStepMode.Grapheme)).toEqual(
+				forwards,
+			);
+		}
+	});
+
+	test("stops when the buffer changes", () => {
+		const tree = createTree("abc");
+
+		const cursor = tree.createCharacterCursor(new Position(1, 1));
+
+		cursor.next();
+
+		tree.delete(0, 1);
+
+		expect(() => cursor.next()).toThrow(
+			"The buffer changed while moving over its characters",
+		);
+	});
+});
@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	ITextBufferBuilderOptions,
+	ITextBufferContentAnalysis,
+	PieceTreeTextBufferBuilder,
+	PieceTreeTextBufferFactory,
+} from "../pieceTreeBuilder";
+
+function analyze(
+	chunks: string[],
+	options?: ITextBufferBuilderOptions,
+): ITextBufferContentAnalysis {
+	const builder = new PieceTreeTextBufferBuilder(options);
+
+	for (const chunk of chunks) {
+		builder.acceptChunk(chunk);
+	}
+
+	return builder.finish().getContentAnalysis()!;
+}
+
+describe("content analysis", () => {
+	test("describes plain text", () => {
+		expect(analyze(["hello\tworld\nfoo\n"])).toEqual({
+			nulCount: 0,
+			isBinary: false,
+			longestLineLength: 11,
+			longLineCount: 0,
+			longLineThreshold: 10000,
+			isBasicASCII: true,
+		});
+
+		expect(analyze([])).toEqual({
+			nulCount: 0,
+			isBinary: false,
+			longestLineLength: 0,
+			longLineCount: 0,
+			longLineThreshold: 10000,
+			isBasicASCII: true,
+		});
+	});
+
+	test("counts NUL characters in every chunk as binary content", () => {
+		const analysis = analyze(["PK\0\0", "\u0003\0"]);
+
+		expect(analysis.nulCount).toBe(3);
+
+		expect(analysis.isBinary).toBe(true);
+
+		expect(analysis.isBasicASCII).toBe(false);
+	});
+
+	test("tells basic ASCII from other characters", () => {
+		expect(analyze(["a\tb\r\nc\rd~ "]).isBasicASCII).toBe(true);
+
+		expect(analyze(["abc", "é"]).isBasicASCII).toBe(false);
+
+		expect(analyze(["abc\u007f"]).isBasicASCII).toBe(false);
+
+		expect(analyze(["abc\u001b[0m"]).isBasicASCII).toBe(false);
+
+		expect(analyze(["a\ud83d"]).isBasicASCII).toBe(false);
+	});
+
+	test("measures lines that continue across chunks", () => {
+		const analysis = analyze(["abc", "def\r", "\nxy\n", "1234", "567"], {
+			longLineThreshold: 5,
+		});
+
+		expect(analysis.longestLineLength).toBe(7);
+
+		expect(analysis.longLineCount).toBe(2);
+
+		expect(analysis.longLineThreshold).toBe(5);
+	});
+
+	test("does not count line breaks as part of a line", () => {
+		const analysis = analyze(
+			["abcde\r", "\nabcde\r", "abcde\n", "abcde\r"],
+			{
+				longLineThreshold: 5,
+			},
+		);
+
+		expect(analysis.longestLineLength).toBe(5);
+
+		expect(analysis.longLineCount).toBe(0);
+	});
+
+	test("counts a lone high surrogate at the end in the last line", () => {
+		const analysis = analyze(["a\n", "bcd\ud83d"], {
+			longLineThreshold: 3,
+		});
+
+		expect(analysis.longestLineLength).toBe(4);
+
+		expect(analysis.longLineCount).toBe(1);
+	});
+
+	test("flags a minified line among short ones", () => {
+		const analysis = analyze([
+			"// header\n",
+			"var a=1;".repeat(2000),
+			"\n// footer\n",
+		]);
+
+		expect(analysis.longestLineLength).toBe(16000);
+
+		expect(analysis.longLineCount).toBe(1);
+
+		expect(analysis.isBinary).toBe(false);
+	});
+
+	test("analyzes decoded bytes", () => {
+		const builder = new PieceTreeTextBufferBuilder();
+
+		// UTF-16LE with a BOM, one byte at a time
+		const bytes = new Uint8Array([0xff, 0xfe, 0x61, 0, 0, 0, 0xe9, 0]);
+
+		for (let i = 0; i < bytes.length; i++) {
+			builder.acceptBytes(bytes.subarray(i, i + 1));
+		}
+
+		const analysis = builder.finish().getContentAnalysis()!;
+
+		expect(analysis.nulCount).toBe(1);
+
+		expect(analysis.longestLineLength).toBe(3);
+
+		expect(analysis.isBasicASCII).toBe(false);
+	});
+
+	test("is null for a factory not created by a builder", () => {
+		const factory = new PieceTreeTextBufferFactory([], "", 0, 0, 0, true);
+
+		expect(factory.getContentAnalysis()).toBeNull();
+	});
+});
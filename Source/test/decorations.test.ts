@@ -0,0 +1,157 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import { DecorationsTree, TrackedRangeStickiness } from "../decorations";
+import { createTree } from "./testUtils";
+
+function toArray(range: Range | null): number[] | null {
+	return range
+		? [
+				range.startLineNumber,
+				range.startColumn,
+				range.endLineNumber,
+				range.endColumn,
+			]
+		: null;
+}
+
+describe("DecorationsTree", () => {
+	test("follows inserts and deletes", () => {
+		const tree = createTree("hello world\nfoo bar");
+
+		const decorations = new DecorationsTree(tree);
+
+		const world = decorations.addDecoration(new Range(1, 7, 1, 12));
+
+		const bar = decorations.addDecoration(new Range(2, 5, 2, 8));
+
+		tree.insert(5, " big");
+
+		expect(toArray(decorations.getDecorationRange(world))).toEqual([
+			1, 11, 1, 16,
+		]);
+
+		tree.insert(0, "first\n");
+
+		expect(toArray(decorations.getDecorationRange(world))).toEqual([
+			2, 11, 2, 16,
+		]);
+
+		expect(toArray(decorations.getDecorationRange(bar))).toEqual([
+			3, 5, 3, 8,
+		]);
+
+		// joins the last two lines and cuts into `world`
+		tree.delete(tree.getOffsetAt(2, 14), 6);
+
+		expect(toArray(decorations.getDecorationRange(world))).toEqual([
+			2, 11, 2, 14,
+		]);
+
+		expect(toArray(decorations.getDecorationRange(bar))).toEqual([
+			2, 15, 2, 18,
+		]);
+
+		expect(tree.getLineContent(2)).toBe("hello big wor bar");
+	});
+
+	test("grows at the edges as the stickiness says", () => {
+		const expected = [
+			[TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges, "x<amb>y"],
+			[TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges, "xa<m>by"],
+			[TrackedRangeStickiness.GrowsOnlyWhenTypingBefore, "x<am>by"],
+			[TrackedRangeStickiness.GrowsOnlyWhenTypingAfter, "xa<mb>y"],
+		] as const;
+
+		for (const [stickiness, marked] of expected) {
+			const tree = createTree("xmy");
+
+			const decorations = new DecorationsTree(tree);
+
+			const id = decorations.addDecoration(
+				new Range(1, 2, 1, 3),
+				stickiness,
+			);
+
+			tree.insert(1, "a");
+
+			tree.insert(3, "b");
+
+			const range = decorations.getDecorationRange(id)!;
+
+			const line = tree.getLineContent(1);
+
+			expect(
+				line.substring(0, range.startColumn - 1) +
+					"<" +
+					line.substring(range.startColumn - 1, range.endColumn - 1) +
+					">" +
+					line.substring(range.endColumn - 1),
+			).toBe(marked);
+		}
+	});
+
+	test("keeps line and column positions across a flush", () => {
+		const tree = createTree("one\ntwo\nthree");
+
+		const decorations = new DecorationsTree(tree);
+
+		const id = decorations.addDecoration(new Range(2, 2, 3, 3));
+
+		tree.setEOL("\r\n");
+
+		expect(tree.getOffsetAt(2, 2)).toBe(6);
+
+		expect(toArray(decorations.getDecorationRange(id))).toEqual([
+			2, 2, 3, 3,
+		]);
+
+		tree.insert(tree.getOffsetAt(2, 1), "x");
+
+		expect(toArray(decorations.getDecorationRange(id))).toEqual([
+			2, 3, 3, 3,
+		]);
+	});
+
+	test("finds the decorations intersecting or touching a range", () => {
+		const tree = createTree("abcdef\nghijkl\nmnopqr");
+
+		const decorations = new DecorationsTree(tree);
+
+		const [first, second, third] = decorations.deltaDecorations(
+			[],
+			[
+				{ range: new Range(1, 1, 1, 3) },
+				{ range: new Range(1, 5, 2, 2) },
+				{ range: new Range(3, 4, 3, 4) },
+			],
+		);
+
+		const ids = (range: Range) =>
+			decorations
+				.getDecorationsInRange(range)
+				.map((decoration) => decoration.id)
+				.sort();
+
+		expect(ids(new Range(1, 3, 1, 5))).toEqual([first, second]);
+
+		expect(ids(new Range(1, 4, 1, 4))).toEqual([]);
+
+		expect(ids(new Range(2, 3, 3, 3))).toEqual([]);
+
+		expect(ids(new Range(3, 1, 3, 10))).toEqual([third]);
+
+		expect(decorations.getLinesDecorations(2, 2).map((d) => d.id)).toEqual([
+			second,
+		]);
+
+		decorations.deltaDecorations([second], []);
+
+		expect(ids(new Range(1, 1, 3, 7))).toEqual([first, third]);
+
+		expect(decorations.getDecorationRange(second)).toBeNull();
+	});
+});
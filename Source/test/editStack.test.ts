@@ -0,0 +1,201 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { EditStack } from "../editStack";
+import { createRandom, createTree, randomText } from "./testUtils";
+
+describe("EditStack", () => {
+	test("undoes and redoes nothing when empty", () => {
+		const stack = new EditStack(createTree("abc"));
+
+		expect(stack.canUndo()).toBe(false);
+
+		expect(stack.canRedo()).toBe(false);
+
+		expect(stack.undo()).toBe(false);
+
+		expect(stack.redo()).toBe(false);
+	});
+
+	test("groups typing into one undo step", () => {
+		const tree = createTree("ac");
+
+		const stack = new EditStack(tree);
+
+		stack.insert(1, "b");
+
+		stack.insert(2, "b");
+
+		stack.insert(3, "b");
+
+		expect(tree.getLinesRawContent()).toBe("abbbc");
+
+		expect(stack.undo()).toBe(true);
+
+		expect(tree.getLinesRawContent()).toBe("ac");
+
+		expect(stack.canUndo()).toBe(false);
+
+		expect(stack.redo()).toBe(true);
+
+		expect(tree.getLinesRawContent()).toBe("abbbc");
+	});
+
+	test("groups backspace and delete into one undo step each", () => {
+		const tree = createTree("abcdef");
+
+		const stack = new EditStack(tree);
+
+		// backspace from the end of "abc"
+		stack.delete(2, 1);
+
+		stack.delete(1, 1);
+
+		expect(tree.getLinesRawContent()).toBe("adef");
+
+		stack.pushStackElement();
+
+		// delete forward at the start of "def"
+		stack.delete(1, 1);
+
+		stack.delete(1, 1);
+
+		expect(tree.getLinesRawContent()).toBe("af");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("adef");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("abcdef");
+
+		expect(stack.canUndo()).toBe(false);
+	});
+
+	test("undoes unrelated edits of one step together, in reverse order", () => {
+		const tree = createTree("one two three");
+
+		const stack = new EditStack(tree);
+
+		stack.delete(4, 4);
+
+		stack.insert(0, "zero ");
+
+		stack.insert(tree.getLength(), " four");
+
+		expect(tree.getLinesRawContent()).toBe("zero one three four");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("one two three");
+
+		stack.redo();
+
+		expect(tree.getLinesRawContent()).toBe("zero one three four");
+	});
+
+	test("starts a new step after pushStackElement, undo and redo", () => {
+		const tree = createTree("");
+
+		const stack = new EditStack(tree);
+
+		stack.insert(0, "a");
+
+		stack.pushStackElement();
+
+		stack.insert(1, "b");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("a");
+
+		stack.redo();
+
+		// typing after a redo does not join the redone step
+		stack.insert(2, "c");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("ab");
+	});
+
+	test("drops the redo steps on a new edit", () => {
+		const tree = createTree("a");
+
+		const stack = new EditStack(tree);
+
+		stack.insert(1, "b");
+
+		stack.undo();
+
+		expect(stack.canRedo()).toBe(true);
+
+		stack.insert(1, "c");
+
+		expect(stack.canRedo()).toBe(false);
+
+		expect(stack.redo()).toBe(false);
+
+		expect(tree.getLinesRawContent()).toBe("ac");
+	});
+
+	test("records the clamped range of a delete past the end", () => {
+		const tree = createTree("abc");
+
+		const stack = new EditStack(tree);
+
+		stack.delete(1, 100);
+
+		expect(tree.getLinesRawContent()).toBe("a");
+
+		stack.undo();
+
+		expect(tree.getLinesRawContent()).toBe("abc");
+	});
+
+	test("undoes and redoes random edits back to each state", () => {
+		const random = createRandom(23);
+
+		const tree = createTree(randomText(random, 100), {
+			normalizeEOL: false,
+		});
+
+		const stack = new EditStack(tree);
+
+		const states = [tree.getLinesRawContent()];
+
+		for (let i = 0; i < 100; i++) {
+			for (let j = random(5); j >= 0; j--) {
+				const length = tree.getLength();
+
+				const offset = random(length + 1);
+
+				// no edit is empty, so every step is an undo element
+				if (offset < length && random(2) === 0) {
+					stack.delete(offset, random(5) + 1);
+				} else {
+					stack.insert(offset, randomText(random, 5) || "a");
+				}
+			}
+
+			stack.pushStackElement();
+
+			states.push(tree.getLinesRawContent());
+		}
+
+		for (let i = states.length - 2; i >= 0; i--) {
+			stack.undo();
+
+			expect(tree.getLinesRawContent()).toBe(states[i]);
+		}
+
+		for (let i = 1; i < states.length; i++) {
+			stack.redo();
+
+			expect(tree.getLinesRawContent()).toBe(states[i]);
+		}
+	});
+});
@@ -0,0 +1,295 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	createEncodedSnapshot,
+	detectEncodingByBOM,
+	guessEncoding,
+	IEncodedTextSnapshot,
+} from "../encoding";
+import { ITextSnapshot } from "../pieceTreeBase";
+import {
+	DefaultEndOfLine,
+	ITextBufferBuilderOptions,
+	PieceTreeTextBufferBuilder,
+	PieceTreeTextBufferFactory,
+} from "../pieceTreeBuilder";
+
+function encodeUTF16(text: string, littleEndian: boolean): Uint8Array {
+	const result = new Uint8Array(text.length * 2);
+
+	const view = new DataView(result.buffer);
+
+	for (let i = 0; i < text.length; i++) {
+		view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+	}
+
+	return result;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(
+		chunks.reduce((length, chunk) => length + chunk.length, 0),
+	);
+
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+
+		offset += chunk.length;
+	}
+
+	return result;
+}
+
+function readBytes(snapshot: IEncodedTextSnapshot): Uint8Array {
+	const chunks: Uint8Array[] = [];
+
+	let bytes: Uint8Array | null;
+
+	while ((bytes = snapshot.read()) !== null) {
+		chunks.push(bytes);
+	}
+
+	return concat(chunks);
+}
+
+/**
+ * A snapshot returning `chunks` one by one.
+ */
+function createSnapshot(chunks: string[]): ITextSnapshot {
+	let index = 0;
+
+	return {
+		read: () => (index < chunks.length ? chunks[index++] : null),
+	};
+}
+
+/**
+ * Build from `bytes`, passed to the builder `chunkLength` bytes at a time.
+ */
+function buildFromBytes(
+	bytes: Uint8Array,
+	chunkLength: number = bytes.length,
+	options?: ITextBufferBuilderOptions,
+): PieceTreeTextBufferFactory {
+	const builder = new PieceTreeTextBufferBuilder(options);
+
+	for (let i = 0; i < bytes.length; i += chunkLength) {
+		builder.acceptBytes(bytes.subarray(i, i + chunkLength));
+	}
+
+	return builder.finish(false);
+}
+
+/**
+ * Write the content of `factory` back in the encoding and with the BOM it was read.
+ */
+function writeBack(factory: PieceTreeTextBufferFactory): Uint8Array {
+	const tree = factory.create(DefaultEndOfLine.LF);
+
+	return readBytes(
+		createEncodedSnapshot(
+			tree.createSnapshot(factory.getBOM()),
+			factory.getEncoding(),
+		),
+	);
+}
+
+describe("encoding detection", () => {
+	test("detects the BOM of UTF-8, UTF-16LE and UTF-16BE", () => {
+		expect(
+			detectEncodingByBOM(new Uint8Array([0xef, 0xbb, 0xbf, 0x61])),
+		).toBe("utf-8");
+
+		expect(detectEncodingByBOM(new Uint8Array([0xff, 0xfe, 0x61, 0]))).toBe(
+			"utf-16le",
+		);
+
+		expect(detectEncodingByBOM(new Uint8Array([0xfe, 0xff, 0, 0x61]))).toBe(
+			"utf-16be",
+		);
+
+		expect(detectEncodingByBOM(new Uint8Array([0xef, 0xbb]))).toBeNull();
+
+		expect(detectEncodingByBOM(new Uint8Array([0x61, 0x62]))).toBeNull();
+	});
+
+	test("guesses UTF-16 from the zero bytes of ASCII", () => {
+		expect(guessEncoding(encodeUTF16("hello\n", true), true)).toBe(
+			"utf-16le",
+		);
+
+		expect(guessEncoding(encodeUTF16("hello\n", false), true)).toBe(
+			"utf-16be",
+		);
+	});
+
+	test("guesses UTF-8 for valid UTF-8 and the fallback otherwise", () => {
+		const bytes = new TextEncoder().encode("naïve 😀");
+
+		expect(guessEncoding(bytes, true)).toBe("utf-8");
+
+		// a sample may end in the middle of a character
+		expect(guessEncoding(bytes.subarray(0, bytes.length - 1), false)).toBe(
+			"utf-8",
+		);
+
+		expect(guessEncoding(bytes.subarray(0, bytes.length - 1), true)).toBe(
+			"windows-1252",
+		);
+
+		const latin1 = new Uint8Array([0x63, 0x61, 0x66, 0xe9]);
+
+		expect(guessEncoding(latin1, true)).toBe("windows-1252");
+
+		expect(guessEncoding(latin1, true, "latin2")).toBe("iso-8859-2");
+	});
+
+	test("records the BOM and encoding of the bytes the builder accepts", () => {
+		const text = "line 😀\r\nnaïve\n";
+
+		const cases: [string, Uint8Array][] = [
+			[
+				"utf-8",
+				concat([
+					new Uint8Array([0xef, 0xbb, 0xbf]),
+					new TextEncoder().encode(text),
+				]),
+			],
+			["utf-16le", encodeUTF16("\ufeff" + text, true)],
+			["utf-16be", encodeUTF16("\ufeff" + text, false)],
+		];
+
+		for (const [encoding, bytes] of cases) {
+			// one byte at a time splits every character and the BOM itself
+			for (const chunkLength of [1, 3, bytes.length]) {
+				const factory = buildFromBytes(bytes, chunkLength);
+
+				expect(factory.getEncoding()).toBe(encoding);
+
+				expect(factory.getBOM()).toBe("\ufeff");
+
+				expect(
+					factory.create(DefaultEndOfLine.LF).getLinesRawContent(),
+				).toBe(text);
+
+				expect(writeBack(factory)).toEqual(bytes);
+			}
+		}
+	});
+
+	test("guesses the encoding of bytes without a BOM", () => {
+		const utf16 = buildFromBytes(encodeUTF16("abc\n", false), 1);
+
+		expect(utf16.getEncoding()).toBe("utf-16be");
+
+		expect(utf16.getBOM()).toBe("");
+
+		expect(utf16.create(DefaultEndOfLine.LF).getLinesRawContent()).toBe(
+			"abc\n",
+		);
+
+		const legacy = new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x20, 0x80]);
+
+		const factory = buildFromBytes(legacy);
+
+		expect(factory.getEncoding()).toBe("windows-1252");
+
+		expect(factory.create(DefaultEndOfLine.LF).getLinesRawContent()).toBe(
+			"café €",
+		);
+
+		expect(writeBack(factory)).toEqual(legacy);
+	});
+
+	test("uses the configured encoding unless there is a BOM", () => {
+		const bytes = new Uint8Array([0x63, 0x61, 0x66, 0xe9]);
+
+		const factory = buildFromBytes(bytes, 2, { encoding: "latin1" });
+
+		expect(factory.getEncoding()).toBe("windows-1252");
+
+		expect(factory.create(DefaultEndOfLine.LF).getLinesRawContent()).toBe(
+			"café",
+		);
+
+		const withBOM = buildFromBytes(encodeUTF16("\ufeffab", true), 1, {
+			encoding: "latin1",
+		});
+
+		expect(withBOM.getEncoding()).toBe("utf-16le");
+
+		expect(withBOM.create(DefaultEndOfLine.LF).getLinesRawContent()).toBe(
+			"ab",
+		);
+	});
+
+	test("reports utf-8 for string input", () => {
+		const builder = new PieceTreeTextBufferBuilder();
+
+		builder.acceptChunk("abc");
+
+		const factory = builder.finish();
+
+		expect(factory.getEncoding()).toBe("utf-8");
+
+		expect(factory.getBOM()).toBe("");
+	});
+});
+
+describe("createEncodedSnapshot", () => {
+	test("encodes a surrogate pair split across snapshot chunks", () => {
+		const chunks = ["a\ud83d", "\ude00b"];
+
+		expect(
+			readBytes(createEncodedSnapshot(createSnapshot(chunks), "utf-8")),
+		).toEqual(new TextEncoder().encode("a😀b"));
+
+		expect(
+			readBytes(
+				createEncodedSnapshot(createSnapshot(chunks), "utf-16le"),
+			),
+		).toEqual(encodeUTF16("a😀b", true));
+	});
+
+	test("writes a lone surrogate at the end as U+FFFD in UTF-8", () => {
+		expect(
+			readBytes(
+				createEncodedSnapshot(createSnapshot(["a", "\ud83d"]), "utf-8"),
+			),
+		).toEqual(new Uint8Array([0x61, 0xef, 0xbf, 0xbd]));
+	});
+
+	test("writes characters a single-byte encoding lacks as ?", () => {
+		expect(
+			readBytes(
+				createEncodedSnapshot(
+					createSnapshot(["é€ž😀ā"]),
+					"windows-1252",
+				),
+			),
+		).toEqual(new Uint8Array([0xe9, 0x80, 0x9e, 0x3f, 0x3f]));
+	});
+
+	test("returns null once the snapshot is read", () => {
+		const snapshot = createEncodedSnapshot(createSnapshot([]), "utf-16be");
+
+		expect(snapshot.read()).toBeNull();
+
+		expect(snapshot.read()).toBeNull();
+	});
+
+	test("refuses encodings it cannot write", () => {
+		expect(() =>
+			createEncodedSnapshot(createSnapshot(["a"]), "shift_jis"),
+		).toThrow("Writing shift_jis is not supported");
+
+		expect(() =>
+			createEncodedSnapshot(createSnapshot(["a"]), "no-such-encoding"),
+		).toThrow('"no-such-encoding"');
+	});
+});
@@ -0,0 +1,257 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import { IEOLStatistics, PieceTreeBase } from "../pieceTreeBase";
+import {
+	DefaultEndOfLine,
+	PieceTreeTextBufferBuilder,
+} from "../pieceTreeBuilder";
+import { createRandom, createTree, getLines, randomText } from "./testUtils";
+
+function countLineBreaks(text: string): IEOLStatistics {
+	const crlf = text.split("\r\n").length - 1;
+
+	return {
+		cr: text.split("\r").length - 1 - crlf,
+		lf: text.split("\n").length - 1 - crlf,
+		crlf,
+		unicode: 0,
+	};
+}
+
+function assertEOLStatistics(tree: PieceTreeBase): void {
+	expect(tree.getEOLStatistics()).toEqual(
+		countLineBreaks(tree.getLinesRawContent()),
+	);
+}
+
+describe("EOL statistics", () => {
+	const text = "a\r\nb\nc\rd\r\ne\n";
+
+	test("reports the counts of the builder", () => {
+		const builder = new PieceTreeTextBufferBuilder();
+
+		// the \r\n of the first line is split between chunks
+		builder.acceptChunk("a\r");
+
+		builder.acceptChunk("\nb\nc\rd\r\ne\n");
+
+		const factory = builder.finish(false);
+
+		const statistics = { cr: 1, lf: 2, crlf: 2, unicode: 0 };
+
+		expect(factory.getEOLStatistics()).toEqual(statistics);
+
+		expect(factory.create(DefaultEndOfLine.LF).getEOLStatistics()).toEqual(
+			statistics,
+		);
+
+		expect(
+			factory.create(DefaultEndOfLine.LF, true).getEOLStatistics(),
+		).toEqual(statistics);
+	});
+
+	test("counts only the EOL of a normalized buffer", () => {
+		const tree = createTree(text);
+
+		// most lines end with \r or \r\n
+		expect(tree.getEOL()).toBe("\r\n");
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 0,
+			crlf: 5,
+			unicode: 0,
+		});
+
+		tree.setEOL("\n");
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 5,
+			crlf: 0,
+			unicode: 0,
+		});
+	});
+
+	test("follows edits that join or split a \\r\\n", () => {
+		const tree = createTree("a\rb\nc\r\nd", { normalizeEOL: false });
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 1,
+			lf: 1,
+			crlf: 1,
+			unicode: 0,
+		});
+
+		// a\r\nb\nc\r\nd
+		tree.insert(2, "\n");
+
+		assertEOLStatistics(tree);
+
+		expect(tree.getEOLStatistics().crlf).toBe(2);
+
+		// a\r\nb\nc\rx\nd
+		tree.insert(7, "x");
+
+		assertEOLStatistics(tree);
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 1,
+			lf: 2,
+			crlf: 1,
+			unicode: 0,
+		});
+
+		// a\r\nb\nc\r\nd
+		tree.delete(7, 1);
+
+		assertEOLStatistics(tree);
+
+		// a\r\nd
+		tree.delete(3, 5);
+
+		assertEOLStatistics(tree);
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 0,
+			crlf: 1,
+			unicode: 0,
+		});
+	});
+
+	test("follows random edits, forks, compaction and serialization", () => {
+		const random = createRandom(5);
+
+		for (let iteration = 0; iteration < 20; iteration++) {
+			const tree = createTree(randomText(random, 100), {
+				normalizeEOL: false,
+			});
+
+			assertEOLStatistics(tree);
+
+			for (let i = 0; i < 200; i++) {
+				const length = tree.getLength();
+
+				const offset = random(length + 1);
+
+				const count = Math.min(random(6), length - offset);
+
+				if (count > 0 && random(2) === 0) {
+					tree.delete(offset, count);
+				} else {
+					tree.insert(offset, randomText(random, 4));
+				}
+
+				if (i % 20 === 0) {
+					assertEOLStatistics(tree);
+				}
+			}
+
+			assertEOLStatistics(tree);
+
+			const fork = tree.fork();
+
+			fork.insert(0, "\n");
+
+			tree.compact();
+
+			assertEOLStatistics(tree);
+
+			assertEOLStatistics(fork);
+
+			assertEOLStatistics(PieceTreeBase.deserialize(tree.serialize()));
+		}
+	});
+});
+
+describe("EOL preserve mode", () => {
+	const text = "a\r\nb\nc\rd\r\ne";
+
+	test("keeps every line's terminator", () => {
+		const tree = createTree(text, { preserveEOL: true });
+
+		expect(tree.isPreservingEOL()).toBe(true);
+
+		expect(tree.getEOL()).toBe("\r\n");
+
+		expect(tree.getLinesRawContent()).toBe(text);
+
+		expect(getLines(tree)).toEqual(["a", "b", "c", "d", "e"]);
+
+		expect(
+			[1, 2, 3, 4, 5].map((lineNumber) => tree.getLineEnding(lineNumber)),
+		).toEqual(["\r\n", "\n", "\r", "\r\n", ""]);
+
+		expect(
+			[1, 2, 3, 4, 5].map((lineNumber) => tree.getLineLength(lineNumber)),
+		).toEqual([1, 1, 1, 1, 1]);
+
+		expect(tree.getValueInRange(new Range(1, 1, 3, 2))).toBe("a\r\nb\nc");
+
+		expect(tree.getValueInRange(new Range(1, 1, 3, 2), "\n")).toBe(
+			"a\nb\nc",
+		);
+	});
+
+	test("normalizes the terminators without it", () => {
+		const tree = createTree(text);
+
+		expect(tree.isPreservingEOL()).toBe(false);
+
+		expect(tree.getLinesRawContent()).toBe("a\r\nb\r\nc\r\nd\r\ne");
+
+		expect(tree.getLineEnding(2)).toBe("\r\n");
+	});
+
+	test("inserts text passed to applyEdits as is", () => {
+		const tree = createTree(text, { preserveEOL: true });
+
+		tree.applyEdits([
+			{ range: new Range(2, 2, 2, 2), text: "x\ry\nz" },
+			{ range: new Range(5, 2, 5, 2), text: "\r\n" },
+		]);
+
+		expect(tree.getLinesRawContent()).toBe("a\r\nbx\ry\nz\nc\rd\r\ne\r\n");
+
+		expect(tree.getLineEnding(2)).toBe("\r");
+
+		expect(tree.getLineEnding(3)).toBe("\n");
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 2,
+			lf: 2,
+			crlf: 3,
+			unicode: 0,
+		});
+
+		const normalized = createTree(text, { normalizeEOL: true });
+
+		normalized.applyEdits([
+			{ range: new Range(2, 2, 2, 2), text: "x\ry\nz" },
+		]);
+
+		expect(normalized.getLinesRawContent()).toBe(
+			"a\r\nbx\r\ny\r\nz\r\nc\r\nd\r\ne",
+		);
+	});
+
+	test("converts all terminators on setEOL", () => {
+		const tree = createTree(text, { preserveEOL: true });
+
+		tree.setEOL("\n");
+
+		expect(tree.getLinesRawContent()).toBe("a\nb\nc\nd\ne");
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 4,
+			crlf: 0,
+			unicode: 0,
+		});
+	});
+});
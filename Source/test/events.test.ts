@@ -0,0 +1,133 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import { IModelContentChangedEvent } from "../pieceTreeBase";
+import { createTree } from "./testUtils";
+
+describe("PieceTreeBase events", () => {
+	test("fire content changes for inserts and deletes", () => {
+		const tree = createTree("abc\ndef");
+
+		const events: IModelContentChangedEvent[] = [];
+
+		tree.onDidChangeContent((e) => events.push(e));
+
+		const versionId = tree.getVersionId();
+
+		tree.insert(5, "XY\n");
+
+		tree.delete(2, 4);
+
+		expect(events).toEqual([
+			{
+				changes: [
+					{
+						range: new Range(2, 2, 2, 2),
+						rangeOffset: 5,
+						rangeLength: 0,
+						text: "XY\n",
+						forceMoveMarkers: false,
+					},
+				],
+				eol: "\n",
+				versionId: versionId + 1,
+				isFlush: false,
+			},
+			{
+				changes: [
+					{
+						range: new Range(1, 3, 2, 3),
+						rangeOffset: 2,
+						rangeLength: 4,
+						text: "",
+						forceMoveMarkers: false,
+					},
+				],
+				eol: "\n",
+				versionId: versionId + 2,
+				isFlush: false,
+			},
+		]);
+
+		expect(tree.getLinesRawContent()).toBe("abY\nef");
+	});
+
+	test("fire one event with the ranges of all edits of applyEdits", () => {
+		const tree = createTree("one\ntwo\nthree");
+
+		const events: IModelContentChangedEvent[] = [];
+
+		tree.onDidChangeContent((e) => events.push(e));
+
+		tree.applyEdits([
+			{ range: new Range(1, 1, 1, 4), text: "1", forceMoveMarkers: true },
+			{ range: new Range(3, 1, 3, 6), text: "3" },
+		]);
+
+		expect(events.length).toBe(1);
+
+		expect(events[0].changes).toEqual([
+			{
+				range: new Range(3, 1, 3, 6),
+				rangeOffset: 8,
+				rangeLength: 5,
+				text: "3",
+				forceMoveMarkers: false,
+			},
+			{
+				range: new Range(1, 1, 1, 4),
+				rangeOffset: 0,
+				rangeLength: 3,
+				text: "1",
+				forceMoveMarkers: true,
+			},
+		]);
+	});
+
+	test("fire a flush after onWillFlush when the content is replaced", () => {
+		const tree = createTree("a\nb");
+
+		const fired: string[] = [];
+
+		tree.onWillFlush(() => fired.push("willFlush"));
+
+		tree.onDidChangeContent((e) => {
+			fired.push("flush");
+
+			expect(e.isFlush).toBe(true);
+
+			expect(e.changes).toEqual([]);
+
+			expect(e.eol).toBe("\r\n");
+		});
+
+		tree.setEOL("\r\n");
+
+		expect(fired).toEqual(["willFlush", "flush"]);
+
+		expect(tree.getLinesRawContent()).toBe("a\r\nb");
+	});
+
+	test("stop calling a listener once it is disposed", () => {
+		const tree = createTree("abc");
+
+		const receiver = { count: 0 };
+
+		const listener = tree.onDidChangeContent(function (
+			this: typeof receiver,
+		) {
+			this.count++;
+		}, receiver);
+
+		tree.insert(0, "x");
+
+		listener.dispose();
+
+		tree.insert(0, "y");
+
+		expect(receiver.count).toBe(1);
+	});
+});
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import {
+	MultilineSearchMaxWindowSize,
+	MultilineSearchWindowSize,
+	PieceTreeBase,
+} from "../pieceTreeBase";
+import { createTree } from "./testUtils";
+
+function findAll(tree: PieceTreeBase, regex: string): string[] {
+	const end = tree.getPositionAt(tree.getLength());
+
+	return tree
+		.findMatches(
+			regex,
+			new Range(1, 1, end.lineNumber, end.column),
+			true,
+			true,
+			null,
+			false,
+			1000,
+		)
+		.map((match) => match.range.toString());
+}
+
+/**
+ * The number of lines of each window a multiline search reads.
+ */
+function spyOnWindows(tree: PieceTreeBase): number[] {
+	const windows: number[] = [];
+
+	const getValueInRange = tree.getValueInRange.bind(tree);
+
+	jest.spyOn(tree, "getValueInRange").mockImplementation((range, eol) => {
+		windows.push(range.endLineNumber - range.startLineNumber);
+
+		return getValueInRange(range, eol);
+	});
+
+	return windows;
+}
+
+describe("findMatches", () => {
+	test("a multiline match spanning more lines than the search window is found", () => {
+		const blankLines = "\n".repeat(MultilineSearchWindowSize * 1.5);
+
+		const tree = createTree(`foo${blankLines}bar`);
+
+		const expected = [`[1,1 -> ${MultilineSearchWindowSize * 1.5 + 1},4]`];
+
+		expect(findAll(tree, "foo\\n+bar")).toEqual(expected);
+
+		expect(findAll(tree, "foo[^]*bar")).toEqual(expected);
+	});
+
+	test("a long multiline match after a short one in the same window is found", () => {
+		const tree = createTree(
+			`a\nb\nfoo${"\n".repeat(MultilineSearchWindowSize * 3)}bar\na\nb`,
+		);
+
+		expect(findAll(tree, "a\\nb|foo\\n+bar")).toEqual([
+			"[1,1 -> 2,2]",
+			`[3,1 -> ${MultilineSearchWindowSize * 3 + 3},4]`,
+			`[${MultilineSearchWindowSize * 3 + 4},1 -> ${MultilineSearchWindowSize * 3 + 5},2]`,
+		]);
+	});
+
+	test("a multiline search without matches reads a bounded window at a time", () => {
+		const lineCount = MultilineSearchMaxWindowSize * 4;
+
+		const tree = createTree(`${"\n".repeat(lineCount)}foo\nbar`);
+
+		const windows = spyOnWindows(tree);
+
+		expect(findAll(tree, "foo\\nbar")).toEqual([
+			`[${lineCount + 1},1 -> ${lineCount + 2},4]`,
+		]);
+
+		expect(Math.max(...windows)).toBe(MultilineSearchMaxWindowSize);
+
+		// each line is read at most twice, apart from growing the first window
+		expect(windows.reduce((a, b) => a + b)).toBeLessThan(
+			lineCount * 2 + MultilineSearchMaxWindowSize * 2,
+		);
+
+		expect(findAll(tree, "baz\\n")).toEqual([]);
+	});
+
+	test("the search window shrinks again after a long match", () => {
+		const tree = createTree(
+			`foo${"\n".repeat(MultilineSearchWindowSize * 3)}bar\na\nb${"\n".repeat(MultilineSearchWindowSize * 3)}`,
+		);
+
+		const windows = spyOnWindows(tree);
+
+		expect(findAll(tree, "foo\\n+bar|a\\nb")).toEqual([
+			`[1,1 -> ${MultilineSearchWindowSize * 3 + 1},4]`,
+			`[${MultilineSearchWindowSize * 3 + 2},1 -> ${MultilineSearchWindowSize * 3 + 3},2]`,
+		]);
+
+		expect(windows).toEqual([
+			MultilineSearchWindowSize,
+			MultilineSearchWindowSize * 2,
+			MultilineSearchWindowSize * 4,
+			MultilineSearchWindowSize,
+			MultilineSearchWindowSize * 2,
+			// the rest of the range
+			MultilineSearchWindowSize * 3,
+		]);
+	});
+});
@@ -0,0 +1,139 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree, getLines, randomText } from "./testUtils";
+
+/**
+ * Apply the same random edit to `tree` and to `model`, and return the new model.
+ */
+function editRandomly(
+	tree: PieceTreeBase,
+	model: string,
+	random: (max: number) => number,
+): string {
+	const offset = random(model.length + 1);
+
+	const count = Math.min(random(10), model.length - offset);
+
+	if (count > 0 && random(2) === 0) {
+		tree.delete(offset, count);
+
+		return model.slice(0, offset) + model.slice(offset + count);
+	}
+
+	const text = randomText(random, 10);
+
+	tree.insert(offset, text);
+
+	return model.slice(0, offset) + text + model.slice(offset);
+}
+
+describe("PieceTreeBase.fork", () => {
+	test("starts with the content, version and options of its parent", () => {
+		const tree = createTree("one\r\ntwo", {
+			normalizeEOL: false,
+			preserveEOL: true,
+		});
+
+		tree.insert(3, "\n");
+
+		const fork = tree.fork();
+
+		expect(fork.getLinesRawContent()).toBe("one\n\r\ntwo");
+
+		expect(getLines(fork)).toEqual(getLines(tree));
+
+		expect(fork.getVersionId()).toBe(tree.getVersionId());
+
+		expect(fork.getEOL()).toBe(tree.getEOL());
+
+		expect(fork.getCacheOptions()).toEqual(tree.getCacheOptions());
+
+		fork.insert(0, "\r");
+
+		// the inserted line break is preserved in the fork as well
+		expect(fork.getLinesRawContent()).toBe("\rone\n\r\ntwo");
+	});
+
+	test("edits to a fork and to its parent do not show in the other", () => {
+		const tree = createTree("abc\ndef");
+
+		const fork = tree.fork();
+
+		// both append to the shared change buffer string
+		tree.insert(3, "-parent");
+
+		fork.insert(3, "-fork");
+
+		tree.insert(0, ">");
+
+		fork.delete(0, 1);
+
+		expect(tree.getLinesRawContent()).toBe(">abc-parent\ndef");
+
+		expect(fork.getLinesRawContent()).toBe("bc-fork\ndef");
+
+		expect(tree.getLineContent(1)).toBe(">abc-parent");
+
+		expect(fork.getLineContent(1)).toBe("bc-fork");
+	});
+
+	test("forks of forks stay independent through random edits", () => {
+		const random = createRandom(31);
+
+		const trees = [
+			createTree(randomText(random, 100), { normalizeEOL: false }),
+		];
+
+		const models = [trees[0].getLinesRawContent()];
+
+		for (let i = 0; i < 400; i++) {
+			const index = random(trees.length);
+
+			if (random(20) === 0) {
+				trees.push(trees[index].fork());
+
+				models.push(models[index]);
+
+				continue;
+			}
+
+			models[index] = editRandomly(trees[index], models[index], random);
+		}
+
+		expect(trees.length).toBeGreaterThan(5);
+
+		for (let i = 0; i < trees.length; i++) {
+			expect(trees[i].getLinesRawContent()).toBe(models[i]);
+
+			expect(getLines(trees[i])).toEqual(
+				getLines(createTree(models[i], { normalizeEOL: false })),
+			);
+		}
+	});
+
+	test("compacting a fork leaves its parent readable", () => {
+		const tree = createTree("line\n".repeat(10));
+
+		for (let i = 0; i < 10; i++) {
+			tree.insert(i * 6, "x");
+		}
+
+		const content = tree.getLinesRawContent();
+
+		const fork = tree.fork();
+
+		fork.insert(0, "fork ");
+
+		fork.compact();
+
+		tree.insert(0, "tree ");
+
+		expect(tree.getLinesRawContent()).toBe("tree " + content);
+
+		expect(fork.getLinesRawContent()).toBe("fork " + content);
+	});
+});
@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Readable } from "stream";
+
+import {
+	DefaultEndOfLine,
+	PieceTreeTextBufferBuilder,
+	PieceTreeTextBufferFactory,
+} from "../pieceTreeBuilder";
+
+function getText(factory: PieceTreeTextBufferFactory): string {
+	return factory.create(DefaultEndOfLine.LF).getLinesRawContent();
+}
+
+function createWebStream(
+	chunks: (Uint8Array | string)[],
+): ReadableStream<Uint8Array | string> {
+	return new ReadableStream<Uint8Array | string>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(chunk);
+			}
+
+			controller.close();
+		},
+	});
+}
+
+describe("PieceTreeTextBufferBuilder.fromStream", () => {
+	const bytes = new TextEncoder().encode("naïve 😀\n");
+
+	// splits both the 2 byte ï and the 4 byte 😀
+	const splitChunks = [
+		bytes.subarray(0, 3),
+		bytes.subarray(3, 8),
+		bytes.subarray(8, 10),
+		bytes.subarray(10),
+	];
+
+	test("decodes characters split across chunks of a Node.js stream", async () => {
+		const factory = await PieceTreeTextBufferBuilder.fromStream(
+			Readable.from(splitChunks),
+			{ encoding: "utf8" },
+		);
+
+		expect(getText(factory)).toBe("naïve 😀\n");
+	});
+
+	test("decodes characters split across chunks of a web stream", async () => {
+		const stream = createWebStream(splitChunks);
+
+		const factory = await PieceTreeTextBufferBuilder.fromStream(stream);
+
+		expect(getText(factory)).toBe("naïve 😀\n");
+
+		expect(factory.getEncoding()).toBe("utf-8");
+
+		expect(stream.locked).toBe(false);
+	});
+
+	test("strips a BOM split across chunks", async () => {
+		const withBOM = new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]);
+
+		const factory = await PieceTreeTextBufferBuilder.fromStream(
+			Readable.from([withBOM.subarray(0, 2), withBOM.subarray(2)]),
+		);
+
+		expect(factory.getBOM()).toBe("\ufeff");
+
+		expect(factory.getEncoding()).toBe("utf-8");
+
+		expect(getText(factory)).toBe("naïve 😀\n");
+	});
+
+	test("rejects when the signal aborts and releases the web stream", async () => {
+		const controller = new AbortController();
+
+		const stream = new ReadableStream<string>({
+			start(streamController) {
+				streamController.enqueue("first chunk");
+			},
+		});
+
+		const result = PieceTreeTextBufferBuilder.fromStream(stream, {
+			signal: controller.signal,
+		});
+
+		controller.abort(new Error("aborted"));
+
+		await expect(result).rejects.toThrow("aborted");
+
+		// the reader lock is released once the pending read settles
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(stream.locked).toBe(false);
+	});
+
+	test("rejects when the signal aborts a Node.js stream", async () => {
+		const controller = new AbortController();
+
+		const stream = new Readable({ read() {} });
+
+		stream.push("first chunk");
+
+		const result = PieceTreeTextBufferBuilder.fromStream(stream, {
+			signal: controller.signal,
+		});
+
+		controller.abort(new Error("aborted"));
+
+		await expect(result).rejects.toThrow("aborted");
+
+		expect(stream.destroyed).toBe(true);
+	});
+
+	test("rejects when a Node.js stream closes before its end", async () => {
+		const stream = new Readable({ read() {} });
+
+		stream.push("first chunk");
+
+		const result = PieceTreeTextBufferBuilder.fromStream(stream);
+
+		stream.destroy();
+
+		await expect(result).rejects.toThrow("closed before its end");
+	});
+});
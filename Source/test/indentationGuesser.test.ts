@@ -0,0 +1,185 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	guessIndentation,
+	IGuessedIndentation,
+	IndentationGuesserConstants,
+} from "../indentationGuesser";
+import { PieceTreeTextBufferBuilder } from "../pieceTreeBuilder";
+import { createTree } from "./testUtils";
+
+/**
+ * Guess from `lines` directly, through a tree and through a factory built from small chunks,
+ * and check all three agree.
+ */
+function guess(
+	lines: string[],
+	defaultTabSize: number = 4,
+	defaultInsertSpaces: boolean = true,
+	eol: string = "\n",
+): IGuessedIndentation {
+	const result = guessIndentation(
+		{
+			getLineCount: () => lines.length,
+			getLineContent: (lineNumber) => lines[lineNumber - 1],
+		},
+		defaultTabSize,
+		defaultInsertSpaces,
+	);
+
+	const text = lines.join(eol);
+
+	const tree = createTree(text, { normalizeEOL: false });
+
+	expect(tree.guessIndentation(defaultTabSize, defaultInsertSpaces)).toEqual(
+		result,
+	);
+
+	const builder = new PieceTreeTextBufferBuilder();
+
+	for (let i = 0; i < text.length; i += 7) {
+		builder.acceptChunk(text.substring(i, i + 7));
+	}
+
+	expect(
+		builder
+			.finish(false)
+			.guessIndentation(defaultTabSize, defaultInsertSpaces),
+	).toEqual(result);
+
+	return result;
+}
+
+describe("guessIndentation", () => {
+	test("keeps the defaults without indented lines", () => {
+		expect(guess([], 4, true)).toEqual({ insertSpaces: true, tabSize: 4 });
+
+		expect(guess(["a", "b", "", "   "], 3, false)).toEqual({
+			insertSpaces: false,
+			tabSize: 3,
+		});
+	});
+
+	test("detects tabs and keeps the default tab size", () => {
+		expect(
+			guess(
+				["function f() {", "\tif (x) {", "\t\treturn;", "\t}", "}"],
+				4,
+			),
+		).toEqual({ insertSpaces: false, tabSize: 4 });
+	});
+
+	test("detects the tab size of space indentation", () => {
+		for (const tabSize of [2, 3, 4, 6, 8]) {
+			const indent = " ".repeat(tabSize);
+
+			expect(
+				guess(
+					[
+						"class A {",
+						indent + "m() {",
+						indent + indent + "return;",
+						indent + "}",
+						"}",
+					],
+					tabSize === 4 ? 2 : 4,
+					false,
+				),
+			).toEqual({ insertSpaces: true, tabSize });
+		}
+	});
+
+	test("prefers 2 over 4 when both step sizes are common", () => {
+		expect(
+			guess(["a", "    b", "c", "    d", "e", "  f", "g", "  h"]),
+		).toEqual({ insertSpaces: true, tabSize: 2 });
+
+		expect(
+			guess(["a", "    b", "c", "    d", "e", "    f", "g", "  h"]),
+		).toEqual({ insertSpaces: true, tabSize: 4 });
+	});
+
+	test("follows the majority of indented lines", () => {
+		expect(guess(["a", "\tb", "\tc", "  d"], 4, true)).toEqual({
+			insertSpaces: false,
+			tabSize: 4,
+		});
+
+		expect(guess(["a", "\tb", "  c", "  d"], 4, false)).toEqual({
+			insertSpaces: true,
+			tabSize: 2,
+		});
+
+		// a tie keeps the default
+		expect(guess(["a", "\tb", "c", "  d"], 4, false).insertSpaces).toBe(
+			false,
+		);
+	});
+
+	test("compares tabs and spaces that follow a common prefix", () => {
+		expect(guess(["\ta", "\t  b", "\ta", "\t  b"], 4, true)).toEqual({
+			insertSpaces: false,
+			tabSize: 4,
+		});
+
+		expect(
+			guess(["\ta", "\t  b", "\t    c", "  x", "  y", "    z"], 4, true),
+		).toEqual({ insertSpaces: true, tabSize: 2 });
+	});
+
+	test("ignores indentation that looks like alignment", () => {
+		expect(
+			guess(
+				[
+					"const a = 1,",
+					"      b = 2,",
+					"      c = 3;",
+					"if (a) {",
+					"    b();",
+					"}",
+				],
+				2,
+				false,
+			),
+		).toEqual({ insertSpaces: true, tabSize: 4 });
+	});
+
+	test("reads lines with any line break", () => {
+		for (const eol of ["\n", "\r\n", "\r"]) {
+			expect(guess(["a", "   b", "      c", "d"], 4, false, eol)).toEqual(
+				{ insertSpaces: true, tabSize: 3 },
+			);
+		}
+	});
+
+	test("only looks at the first lines", () => {
+		const lines = new Array<string>(
+			IndentationGuesserConstants.MaxLineCount,
+		)
+			.fill("x")
+			.concat(["  a", "    b", "  c"]);
+
+		expect(guess(lines, 4, false)).toEqual({
+			insertSpaces: false,
+			tabSize: 4,
+		});
+	});
+
+	test("follows edits to the tree", () => {
+		const tree = createTree("a\n\tb\n\tc");
+
+		expect(tree.guessIndentation(4, true).insertSpaces).toBe(false);
+
+		tree.delete(0, tree.getLength());
+
+		tree.insert(0, "a\n  b\n    c\n  d", true);
+
+		expect(tree.guessIndentation(4, false)).toEqual({
+			insertSpaces: true,
+			tabSize: 2,
+		});
+	});
+});
@@ -0,0 +1,277 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	IntervalNode,
+	IntervalTree,
+	nodeAcceptEdit,
+	NodeColor,
+	SENTINEL,
+	TrackedRangeStickiness,
+} from "../intervalTree";
+import { createRandom } from "./testUtils";
+
+function getIntervals(tree: IntervalTree, versionId: number): number[][] {
+	return tree
+		.search(versionId)
+		.map((node) => [node.cachedAbsoluteStart, node.cachedAbsoluteEnd]);
+}
+
+/**
+ * The black height of the subtree, or -1 when a red node has a red child, a child does not point
+ * back to its parent, or the black heights of the children differ.
+ */
+function getBlackHeight(node: IntervalNode): number {
+	if (node === SENTINEL) {
+		return 1;
+	}
+
+	for (const child of [node.left, node.right]) {
+		if (child === SENTINEL) {
+			continue;
+		}
+
+		if (
+			child.parent !== node ||
+			(node.color === NodeColor.Red && child.color === NodeColor.Red)
+		) {
+			return -1;
+		}
+	}
+
+	const blackHeight = getBlackHeight(node.left);
+
+	if (blackHeight === -1 || getBlackHeight(node.right) !== blackHeight) {
+		return -1;
+	}
+
+	return blackHeight + (node.color === NodeColor.Black ? 1 : 0);
+}
+
+describe("IntervalTree", () => {
+	test("moves the edges of each stickiness mode on inserts at the edges", () => {
+		const expected = [
+			[
+				TrackedRangeStickiness.AlwaysGrowsWhenTypingAtEdges,
+				[5, 13],
+				[5, 13],
+			],
+			[
+				TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+				[8, 13],
+				[5, 10],
+			],
+			[
+				TrackedRangeStickiness.GrowsOnlyWhenTypingBefore,
+				[5, 13],
+				[5, 10],
+			],
+			[TrackedRangeStickiness.GrowsOnlyWhenTypingAfter, [8, 13], [5, 13]],
+		] as const;
+
+		for (const [stickiness, atStart, atEnd] of expected) {
+			const before = new IntervalTree();
+
+			const beforeNode = new IntervalNode("1", 5, 10);
+
+			beforeNode.stickiness = stickiness;
+
+			before.insert(beforeNode);
+
+			before.acceptReplace(5, 0, 3, false);
+
+			expect(getIntervals(before, 1)).toEqual([atStart]);
+
+			const after = new IntervalTree();
+
+			const afterNode = new IntervalNode("1", 5, 10);
+
+			afterNode.stickiness = stickiness;
+
+			after.insert(afterNode);
+
+			after.acceptReplace(10, 0, 3, false);
+
+			expect(getIntervals(after, 1)).toEqual([atEnd]);
+		}
+	});
+
+	test("moves both edges past the insert when markers are forced to move", () => {
+		const tree = new IntervalTree();
+
+		tree.insert(new IntervalNode("1", 5, 5));
+
+		tree.acceptReplace(5, 0, 3, true);
+
+		expect(getIntervals(tree, 1)).toEqual([[8, 8]]);
+	});
+
+	test("collapses intervals inside a deleted range", () => {
+		const tree = new IntervalTree();
+
+		tree.insert(new IntervalNode("1", 2, 4));
+
+		tree.insert(new IntervalNode("2", 6, 12));
+
+		tree.insert(new IntervalNode("3", 20, 25));
+
+		tree.acceptReplace(1, 10, 0, false);
+
+		expect(getIntervals(tree, 1)).toEqual([
+			[1, 1],
+			[1, 2],
+			[10, 15],
+		]);
+	});
+
+	test("finds the intervals intersecting or touching a range", () => {
+		const tree = new IntervalTree();
+
+		tree.insert(new IntervalNode("1", 0, 3));
+
+		tree.insert(new IntervalNode("2", 5, 8));
+
+		tree.insert(new IntervalNode("3", 10, 10));
+
+		tree.insert(new IntervalNode("4", 2, 20));
+
+		const ids = (start: number, end: number) =>
+			tree
+				.intervalSearch(start, end, 1)
+				.map((node) => node.id)
+				.sort();
+
+		expect(ids(3, 5)).toEqual(["1", "2", "4"]);
+
+		expect(ids(9, 9)).toEqual(["4"]);
+
+		expect(ids(10, 10)).toEqual(["3", "4"]);
+
+		expect(ids(21, 30)).toEqual([]);
+	});
+
+	test("matches a list of intervals after random inserts, deletes and edits", () => {
+		const random = createRandom(5);
+
+		const tree = new IntervalTree();
+
+		// nodes outside of the tree, edited one by one
+		const model = new Map<IntervalNode, IntervalNode>();
+
+		let lastId = 0;
+
+		for (let i = 0; i < 2000; i++) {
+			const operation = random(4);
+
+			if (operation === 0 || model.size < 5) {
+				const start = random(1000);
+
+				const end = start + random(50);
+
+				const node = new IntervalNode(String(++lastId), start, end);
+
+				node.stickiness = random(4);
+
+				tree.insert(node);
+
+				const copy = new IntervalNode(node.id, start, end);
+
+				copy.stickiness = node.stickiness;
+
+				model.set(node, copy);
+			} else if (operation === 1) {
+				const nodes = [...model.keys()];
+
+				const node = nodes[random(nodes.length)];
+
+				tree.delete(node);
+
+				model.delete(node);
+			} else if (operation === 2) {
+				const offset = random(1000);
+
+				const length = random(20);
+
+				const textLength = random(20);
+
+				const forceMoveMarkers = random(4) === 0;
+
+				tree.acceptReplace(
+					offset,
+					length,
+					textLength,
+					forceMoveMarkers,
+				);
+
+				for (const copy of model.values()) {
+					nodeAcceptEdit(
+						copy,
+						offset,
+						offset + length,
+						textLength,
+						forceMoveMarkers,
+					);
+				}
+			} else {
+				const start = random(1000);
+
+				const end = start + random(100);
+
+				const expected = [...model.values()]
+					.filter((copy) => copy.start <= end && copy.end >= start)
+					.map((copy) => copy.id)
+					.sort();
+
+				expect(
+					tree
+						.intervalSearch(start, end, i)
+						.map((node) => node.id)
+						.sort(),
+				).toEqual(expected);
+			}
+
+			expect(tree.root.color).toBe(NodeColor.Black);
+
+			expect(getBlackHeight(tree.root)).toBeGreaterThan(0);
+		}
+
+		for (const [node, copy] of model) {
+			tree.resolveNode(node, 1);
+
+			expect([node.cachedAbsoluteStart, node.cachedAbsoluteEnd]).toEqual([
+				copy.start,
+				copy.end,
+			]);
+		}
+
+		for (const node of model.keys()) {
+			tree.delete(node);
+		}
+
+		expect(tree.root).toBe(SENTINEL);
+	});
+
+	test("shares a frozen sentinel between trees", () => {
+		expect(Object.isFrozen(SENTINEL)).toBe(true);
+
+		const first = new IntervalTree();
+
+		const second = new IntervalTree();
+
+		const node = new IntervalNode("1", 0, 5);
+
+		first.insert(node);
+
+		second.insert(new IntervalNode("2", 3, 4));
+
+		first.delete(node);
+
+		expect(first.search(1)).toEqual([]);
+
+		expect(getIntervals(second, 1)).toEqual([[3, 4]]);
+
+		expect(SENTINEL.parent).toBe(SENTINEL);
+	});
+});
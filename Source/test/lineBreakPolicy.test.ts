@@ -0,0 +1,211 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { LineBreakPolicy } from "../common/eolCounter";
+import { Position } from "../common/position";
+import { Range } from "../common/range";
+import { PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree, getLines } from "./testUtils";
+
+const unicodeLineBreakRegex = /\r\n|\r|\n|\u0085|\u2028|\u2029/;
+
+const alphabet = ["a", "bc", "\n", "\r", "\r\n", "\u0085", "\u2028", "\u2029"];
+
+function assertLines(tree: PieceTreeBase): void {
+	const content = tree.getLinesRawContent();
+
+	const lines = content.split(unicodeLineBreakRegex);
+
+	expect(tree.getLineCount()).toBe(lines.length);
+
+	expect(getLines(tree)).toEqual(lines);
+
+	let offset = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		expect(tree.getOffsetAt(i + 1, 1)).toBe(offset);
+
+		expect(tree.getPositionAt(offset)).toEqual(new Position(i + 1, 1));
+
+		offset += lines[i].length + tree.getLineEnding(i + 1).length;
+	}
+
+	expect(offset).toBe(content.length);
+}
+
+describe("LineBreakPolicy", () => {
+	const text = "a\u0085b\u2028c\u2029d\r\ne";
+
+	test("only breaks lines at \\r and \\n by default", () => {
+		const tree = createTree(text);
+
+		expect(tree.getLineBreakPolicy()).toBe(LineBreakPolicy.Standard);
+
+		expect(getLines(tree)).toEqual(["a\u0085b\u2028c\u2029d", "e"]);
+
+		expect(tree.getEOLStatistics().unicode).toBe(0);
+	});
+
+	test("also breaks lines at NEL, LS and PS with the Unicode policy", () => {
+		const tree = createTree(text, {
+			normalizeEOL: false,
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		expect(tree.getLineBreakPolicy()).toBe(LineBreakPolicy.Unicode);
+
+		expect(getLines(tree)).toEqual(["a", "b", "c", "d", "e"]);
+
+		expect(
+			[1, 2, 3, 4, 5].map((lineNumber) => tree.getLineEnding(lineNumber)),
+		).toEqual(["\u0085", "\u2028", "\u2029", "\r\n", ""]);
+
+		expect(
+			[1, 2, 3, 4, 5].map((lineNumber) => tree.getLineLength(lineNumber)),
+		).toEqual([1, 1, 1, 1, 1]);
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 0,
+			crlf: 1,
+			unicode: 3,
+		});
+
+		expect(tree.getPositionAt(4)).toEqual(new Position(3, 1));
+
+		expect(tree.getOffsetAt(4, 2)).toBe(7);
+
+		expect(tree.getValueInRange(new Range(2, 1, 4, 2))).toBe(
+			"b\u2028c\u2029d",
+		);
+
+		expect(tree.getValueInRange(new Range(2, 1, 4, 2), "\n")).toBe(
+			"b\nc\nd",
+		);
+	});
+
+	test("normalizes the Unicode line breaks too", () => {
+		const tree = createTree(text, {
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		// only \r, \n and \r\n vote for the EOL
+		expect(tree.getEOL()).toBe("\r\n");
+
+		expect(tree.getLinesRawContent()).toBe("a\r\nb\r\nc\r\nd\r\ne");
+
+		expect(tree.getEOLStatistics()).toEqual({
+			cr: 0,
+			lf: 0,
+			crlf: 4,
+			unicode: 0,
+		});
+	});
+
+	test("keeps them in preserve mode", () => {
+		const tree = createTree(text, {
+			preserveEOL: true,
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		expect(tree.getLinesRawContent()).toBe(text);
+
+		tree.applyEdits([{ range: new Range(5, 2, 5, 2), text: "\u2028f" }]);
+
+		expect(getLines(tree)).toEqual(["a", "b", "c", "d", "e", "f"]);
+
+		expect(tree.getLineEnding(5)).toBe("\u2028");
+
+		expect(tree.getEOLStatistics().unicode).toBe(4);
+	});
+
+	test("counts the line breaks of inserted text", () => {
+		const tree = createTree("ab", {
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		tree.applyEdits([
+			{ range: new Range(1, 2, 1, 2), text: "\u2029x\u0085" },
+		]);
+
+		// text passed to applyEdits gets the buffer's EOL
+		expect(tree.getLinesRawContent()).toBe("a\nx\nb");
+
+		tree.insert(1, "\u2028");
+
+		expect(getLines(tree)).toEqual(["a", "", "x", "b"]);
+
+		assertLines(tree);
+	});
+
+	test("survives serialization and forks", () => {
+		const tree = createTree(text, {
+			normalizeEOL: false,
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		const copy = PieceTreeBase.deserialize(tree.serialize());
+
+		expect(copy.getLineBreakPolicy()).toBe(LineBreakPolicy.Unicode);
+
+		expect(getLines(copy)).toEqual(getLines(tree));
+
+		expect(copy.getEOLStatistics()).toEqual(tree.getEOLStatistics());
+
+		const fork = tree.fork();
+
+		fork.insert(0, "\u0085");
+
+		expect(fork.getLineCount()).toBe(6);
+
+		expect(tree.getLineCount()).toBe(5);
+	});
+
+	test("keeps lines and offsets consistent through random edits", () => {
+		const random = createRandom(3);
+
+		const randomText = (maxLength: number) => {
+			let result = "";
+
+			for (let i = random(maxLength + 1); i > 0; i--) {
+				result += alphabet[random(alphabet.length)];
+			}
+
+			return result;
+		};
+
+		for (let iteration = 0; iteration < 20; iteration++) {
+			// chunks may split a \r\n
+			const tree = createTree([randomText(20), randomText(20)], {
+				normalizeEOL: false,
+				lineBreakPolicy: LineBreakPolicy.Unicode,
+			});
+
+			assertLines(tree);
+
+			for (let i = 0; i < 100; i++) {
+				const length = tree.getLength();
+
+				const offset = random(length + 1);
+
+				const count = Math.min(random(5), length - offset);
+
+				if (count > 0 && random(2) === 0) {
+					tree.delete(offset, count);
+				} else {
+					tree.insert(offset, randomText(4));
+				}
+			}
+
+			assertLines(tree);
+
+			const unicode = tree
+				.getLinesRawContent()
+				.split(/\u0085|\u2028|\u2029/).length;
+
+			expect(tree.getEOLStatistics().unicode).toBe(unicode - 1);
+		}
+	});
+});
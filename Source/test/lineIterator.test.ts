@@ -0,0 +1,170 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { LineBreakPolicy } from "../common/eolCounter";
+import { ILineWithOffset, PieceTreeBase } from "../pieceTreeBase";
+import { createRandom, createTree, randomText } from "./testUtils";
+
+/**
+ * The lines of `text` with their offsets, computed without the tree.
+ */
+function getModelLines(text: string, lineBreak: RegExp): ILineWithOffset[] {
+	const result: ILineWithOffset[] = [];
+
+	const regex = new RegExp(lineBreak.source, "g");
+
+	let offset = 0;
+
+	let match: RegExpExecArray | null;
+
+	while ((match = regex.exec(text)) !== null) {
+		result.push({
+			lineNumber: result.length + 1,
+			offset,
+			content: text.substring(offset, match.index),
+		});
+
+		offset = match.index + match[0].length;
+	}
+
+	result.push({
+		lineNumber: result.length + 1,
+		offset,
+		content: text.substring(offset),
+	});
+
+	return result;
+}
+
+function assertLineRanges(tree: PieceTreeBase, lines: ILineWithOffset[]): void {
+	const lineCount = tree.getLineCount();
+
+	expect(Array.from(tree.createLineIterator())).toEqual(lines);
+
+	for (const [start, end] of [
+		[1, 1],
+		[lineCount, lineCount],
+		[Math.ceil(lineCount / 3), Math.ceil((2 * lineCount) / 3)],
+	]) {
+		expect(tree.getLinesWithOffsets(start, end)).toEqual(
+			lines.slice(start - 1, end),
+		);
+
+		expect(tree.getLinesContent(start, end)).toEqual(
+			lines.slice(start - 1, end).map((line) => line.content),
+		);
+	}
+}
+
+describe("line iterator", () => {
+	test("yields each line with its offset", () => {
+		const tree = createTree("ab\r\n\ncd\re", { normalizeEOL: false });
+
+		expect(tree.getLinesWithOffsets(1, 4)).toEqual([
+			{ lineNumber: 1, offset: 0, content: "ab" },
+			{ lineNumber: 2, offset: 4, content: "" },
+			{ lineNumber: 3, offset: 5, content: "cd" },
+			{ lineNumber: 4, offset: 8, content: "e" },
+		]);
+
+		expect(tree.getLinesContent()).toEqual(["ab", "", "cd", "e"]);
+
+		expect(tree.getLinesContent(2, 3)).toEqual(["", "cd"]);
+	});
+
+	test("yields one empty line for an empty buffer", () => {
+		const tree = createTree("");
+
+		expect(Array.from(tree.createLineIterator())).toEqual([
+			{ lineNumber: 1, offset: 0, content: "" },
+		]);
+
+		tree.insert(0, "\n");
+
+		expect(tree.getLinesContent(1, 2)).toEqual(["", ""]);
+	});
+
+	test("clamps the range to the lines of the buffer", () => {
+		const tree = createTree("a\nb\nc");
+
+		expect(tree.getLinesContent(-5, 2)).toEqual(["a", "b"]);
+
+		expect(tree.getLinesContent(2, 100)).toEqual(["b", "c"]);
+
+		expect(tree.getLinesContent(3, 2)).toEqual([]);
+
+		expect(tree.getLinesWithOffsets(4, 5)).toEqual([]);
+	});
+
+	test("reads lines split across many pieces", () => {
+		const random = createRandom(17);
+
+		for (let iteration = 0; iteration < 20; iteration++) {
+			const preserveEOL = iteration % 2 === 0;
+
+			const tree = createTree(randomText(random, 200), {
+				normalizeEOL: !preserveEOL,
+				preserveEOL,
+			});
+
+			for (let i = 0; i < 100; i++) {
+				const length = tree.getLength();
+
+				const offset = random(length + 1);
+
+				const count = Math.min(random(8), length - offset);
+
+				if (count > 0 && random(3) === 0) {
+					tree.delete(offset, count);
+				} else {
+					tree.insert(offset, randomText(random, 6));
+				}
+			}
+
+			const lines = getModelLines(
+				tree.getLinesRawContent(),
+				/\r\n|\r|\n/,
+			);
+
+			expect(tree.getLineCount()).toBe(lines.length);
+
+			assertLineRanges(tree, lines);
+		}
+	});
+
+	test("follows the Unicode line break policy", () => {
+		const text = "a\u2028b\r\nc\u0085";
+
+		const tree = createTree(text, {
+			normalizeEOL: false,
+			lineBreakPolicy: LineBreakPolicy.Unicode,
+		});
+
+		assertLineRanges(
+			tree,
+			getModelLines(text, /\r\n|\r|\n|\u0085|\u2028|\u2029/),
+		);
+
+		expect(tree.getLinesContent()).toEqual(["a", "b", "c", ""]);
+	});
+
+	test("stops when the buffer changes", () => {
+		const tree = createTree("a\nb\nc");
+
+		const iterator = tree.createLineIterator();
+
+		expect(iterator.next().value).toEqual({
+			lineNumber: 1,
+			offset: 0,
+			content: "a",
+		});
+
+		tree.insert(0, "x");
+
+		expect(() => iterator.next()).toThrow(
+			"The buffer changed while iterating over its lines",
+		);
+	});
+});
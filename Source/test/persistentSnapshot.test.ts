@@ -0,0 +1,140 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Range } from "../common/range";
+import { IPersistentTextSnapshot, PieceTreeBase } from "../pieceTreeBase";
+import {
+	createRandom,
+	createTree,
+	getLines,
+	randomText,
+	readSnapshot,
+} from "./testUtils";
+
+function getSnapshotLines(snapshot: IPersistentTextSnapshot): string[] {
+	const result: string[] = [];
+
+	for (let i = 1; i <= snapshot.getLineCount(); i++) {
+		result.push(snapshot.getLineContent(i));
+	}
+
+	return result;
+}
+
+function editRandomly(
+	tree: PieceTreeBase,
+	random: (max: number) => number,
+): void {
+	for (let i = 0; i < 50; i++) {
+		const length = tree.getLength();
+
+		const offset = random(length + 1);
+
+		if (random(2) === 0) {
+			tree.delete(offset, random(10));
+		} else {
+			tree.insert(offset, randomText(random, 10));
+		}
+	}
+}
+
+describe("PieceTreeBase.createPersistentSnapshot", () => {
+	test("keeps the content of the tree when it was taken", () => {
+		const tree = createTree("one\ntwo\nthree");
+
+		const versionId = tree.getVersionId();
+
+		const snapshot = tree.createPersistentSnapshot("");
+
+		tree.insert(3, " and a half");
+
+		tree.delete(0, 15);
+
+		tree.insert(tree.getLength(), "\nfour");
+
+		expect(tree.getLinesRawContent()).toBe("two\nthree\nfour");
+
+		expect(snapshot.versionId).toBe(versionId);
+
+		expect(snapshot.getLength()).toBe(13);
+
+		expect(snapshot.getLineCount()).toBe(3);
+
+		expect(getSnapshotLines(snapshot)).toEqual(["one", "two", "three"]);
+
+		expect(snapshot.getValueInRange(new Range(1, 2, 3, 3))).toBe(
+			"ne\ntwo\nth",
+		);
+
+		expect(snapshot.getValueInRange(new Range(1, 2, 3, 3), "\r\n")).toBe(
+			"ne\r\ntwo\r\nth",
+		);
+
+		expect(readSnapshot(snapshot)).toBe("one\ntwo\nthree");
+	});
+
+	test("prepends the BOM when read", () => {
+		const tree = createTree("abc");
+
+		const snapshot = tree.createPersistentSnapshot("\ufeff");
+
+		tree.delete(0, 3);
+
+		expect(readSnapshot(snapshot)).toBe("\ufeffabc");
+
+		expect(readSnapshot(tree.createPersistentSnapshot("\ufeff"))).toBe(
+			"\ufeff",
+		);
+	});
+
+	test("keeps its content across large inserts, a flush and compact", () => {
+		const tree = createTree("first\r\nsecond", { normalizeEOL: false });
+
+		const snapshot = tree.createPersistentSnapshot("");
+
+		// larger than a buffer, so it gets buffers of its own
+		tree.insert(6, "x".repeat(70000) + "\n");
+
+		tree.setEOL("\n");
+
+		tree.compact();
+
+		expect(readSnapshot(snapshot)).toBe("first\r\nsecond");
+
+		expect(getSnapshotLines(snapshot)).toEqual(["first", "second"]);
+	});
+
+	test("keeps its content through random edits", () => {
+		const random = createRandom(29);
+
+		const tree = createTree(randomText(random, 200), {
+			normalizeEOL: false,
+		});
+
+		const snapshots: {
+			snapshot: IPersistentTextSnapshot;
+			content: string;
+			lines: string[];
+		}[] = [];
+
+		for (let i = 0; i < 20; i++) {
+			snapshots.push({
+				snapshot: tree.createPersistentSnapshot(""),
+				content: tree.getLinesRawContent(),
+				lines: getLines(tree),
+			});
+
+			editRandomly(tree, random);
+		}
+
+		for (const { snapshot, content, lines } of snapshots) {
+			expect(readSnapshot(snapshot)).toBe(content);
+
+			expect(snapshot.getLength()).toBe(content.length);
+
+			expect(getSnapshotLines(snapshot)).toEqual(lines);
+		}
+	});
+});
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IPieceTreeCacheOptions, PieceTreeBase } from "../pieceTreeBase";
+import { createTree } from "./testUtils";
+
+// Compares the LRU caches with the single entry caches they replaced. Not part of the unit
+// tests, since timings vary between machines: run it with `npm run benchmark`.
+
+/**
+ * The caches before they were made LRU caches remembered a single node and line.
+ */
+const SINGLE_ENTRY_CACHE: IPieceTreeCacheOptions = {
+	nodeCacheSize: 1,
+	lineCacheSize: 1,
+};
+
+/**
+ * Regions read in turn, like the sides of a diff view or far apart cursors.
+ */
+const REGION_COUNT = 3;
+
+const ACCESS_COUNT = 300000;
+
+function createEditedTree(): PieceTreeBase {
+	const lines: string[] = [];
+
+	for (let i = 0; i < 20000; i++) {
+		lines.push(`line ${i} ${"x".repeat(i % 40)}`);
+	}
+
+	const tree = createTree(lines.join("\n"));
+
+	// edits split the buffer into many pieces, which makes uncached lookups walk the tree
+	for (let i = 0; i < 4000; i++) {
+		tree.insert((i * 7919) % tree.getLength(), "ab\n", true);
+	}
+
+	return tree;
+}
+
+/**
+ * Read lines and offsets in `REGION_COUNT` far apart regions in turn, moving slowly down
+ * each region, and return the time taken in milliseconds.
+ */
+function readScattered(tree: PieceTreeBase): number {
+	const lineCount = tree.getLineCount();
+
+	const start = performance.now();
+
+	for (let i = 0; i < ACCESS_COUNT; i++) {
+		const region = i % REGION_COUNT;
+
+		const lineNumber =
+			Math.floor((region * lineCount) / REGION_COUNT) +
+			1 +
+			(Math.floor(i / (REGION_COUNT * 16)) % 1000);
+
+		tree.getLineContent(lineNumber);
+
+		tree.getOffsetAt(lineNumber, 2);
+	}
+
+	return performance.now() - start;
+}
+
+function benchmark(options: IPieceTreeCacheOptions): {
+	time: number;
+	hitRate: number;
+} {
+	const tree = createEditedTree();
+
+	tree.setCacheOptions(options);
+
+	const time = readScattered(tree);
+
+	return { time, hitRate: tree.getStatistics().searchCacheHitRate };
+}
+
+const singleEntry = benchmark(SINGLE_ENTRY_CACHE);
+
+const lru = benchmark(new PieceTreeBase([], "\n", true).getCacheOptions());
+
+console.log(
+	[
+		`scattered access over ${REGION_COUNT} regions, ${ACCESS_COUNT} reads`,
+		`  single entry cache: ${singleEntry.time.toFixed(1)} ms, node cache hit rate ${singleEntry.hitRate.toFixed(3)}`,
+		`  LRU cache:          ${lru.time.toFixed(1)} ms, node cache hit rate ${lru.hitRate.toFixed(3)}`,
+	].join("\n"),
+);
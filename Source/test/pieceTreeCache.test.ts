@@ -0,0 +1,198 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	Piece,
+	PieceTreeLineCache,
+	PieceTreeSearchCache,
+} from "../pieceTreeBase";
+import { NodeColor, TreeNode } from "../rbTreeBase";
+import { createRandom, createTree, getLines, randomText } from "./testUtils";
+
+function createNode(length: number, lineFeedCnt: number): TreeNode {
+	const node = new TreeNode(
+		new Piece(
+			0,
+			{ line: 0, column: 0 },
+			{ line: lineFeedCnt, column: 0 },
+			lineFeedCnt,
+			length,
+			length,
+		),
+		NodeColor.Red,
+	);
+
+	return node;
+}
+
+describe("PieceTreeSearchCache", () => {
+	test("evicts the least recently used entry", () => {
+		const cache = new PieceTreeSearchCache(2);
+
+		const first = createNode(10, 1);
+
+		const second = createNode(10, 1);
+
+		const third = createNode(10, 1);
+
+		cache.set({ node: first, nodeStartOffset: 0, nodeStartLineNumber: 1 });
+
+		cache.set({
+			node: second,
+			nodeStartOffset: 20,
+			nodeStartLineNumber: 3,
+		});
+
+		// reading `first` makes `second` the least recently used entry
+		expect(cache.get(5)!.node).toBe(first);
+
+		cache.set({ node: third, nodeStartOffset: 40, nodeStartLineNumber: 5 });
+
+		expect(cache.get(25)).toBeNull();
+
+		expect(cache.get(45)!.node).toBe(third);
+
+		expect(cache.get2(2)!.node).toBe(first);
+
+		expect(cache.hits).toBe(3);
+
+		expect(cache.misses).toBe(1);
+	});
+
+	test("drops the entries at or after an edit", () => {
+		const cache = new PieceTreeSearchCache(4);
+
+		const first = createNode(10, 0);
+
+		const second = createNode(10, 0);
+
+		cache.set({ node: first, nodeStartOffset: 0 });
+
+		cache.set({ node: second, nodeStartOffset: 10 });
+
+		cache.valdiate(10);
+
+		expect(cache.get(5)!.node).toBe(first);
+
+		expect(cache.get(15)).toBeNull();
+	});
+});
+
+describe("PieceTreeLineCache", () => {
+	test("evicts the least recently used line", () => {
+		const cache = new PieceTreeLineCache(2);
+
+		cache.set(1, "one");
+
+		cache.set(2, "two");
+
+		expect(cache.get(1)).toBe("one");
+
+		cache.set(3, "three");
+
+		expect(cache.size).toBe(2);
+
+		expect(cache.get(2)).toBeUndefined();
+
+		expect(cache.get(1)).toBe("one");
+
+		expect(cache.get(3)).toBe("three");
+	});
+
+	test("forgets a line and the lines after it", () => {
+		const cache = new PieceTreeLineCache(4);
+
+		cache.set(1, "one");
+
+		cache.set(5, "five");
+
+		cache.set(3, "three");
+
+		cache.invalidate(3);
+
+		expect(cache.size).toBe(1);
+
+		expect(cache.get(1)).toBe("one");
+	});
+});
+
+describe("PieceTreeBase caches", () => {
+	test("cache sizes are validated", () => {
+		const tree = createTree("a\nb");
+
+		tree.setCacheOptions({ nodeCacheSize: 2.7, lineCacheSize: 0 });
+
+		expect(tree.getCacheOptions()).toEqual({
+			nodeCacheSize: 2,
+			lineCacheSize: 1,
+		});
+
+		expect(() => tree.setCacheOptions({ nodeCacheSize: NaN })).toThrow();
+
+		expect(() =>
+			tree.setCacheOptions({ lineCacheSize: Infinity }),
+		).toThrow();
+
+		expect(tree.getCacheOptions()).toEqual({
+			nodeCacheSize: 2,
+			lineCacheSize: 1,
+		});
+	});
+
+	test("reads no stale lines or offsets after inserts and deletes", () => {
+		const random = createRandom(3);
+
+		const tree = createTree(randomText(random, 200), {
+			normalizeEOL: false,
+		});
+
+		tree.setCacheOptions({ nodeCacheSize: 8, lineCacheSize: 8 });
+
+		let model = tree.getLinesRawContent();
+
+		for (let i = 0; i < 300; i++) {
+			const expected = createTree(model, { normalizeEOL: false });
+
+			const lines = getLines(expected);
+
+			expect(getLines(tree)).toEqual(lines);
+
+			// reads after the caches were filled by the reads above
+			for (let j = 0; j < 10; j++) {
+				const lineNumber = random(lines.length) + 1;
+
+				expect(tree.getLineContent(lineNumber)).toBe(
+					lines[lineNumber - 1],
+				);
+
+				const offset = random(model.length + 1);
+
+				expect(tree.getPositionAt(offset)).toEqual(
+					expected.getPositionAt(offset),
+				);
+
+				expect(tree.getOffsetAt(lineNumber, 2)).toBe(
+					expected.getOffsetAt(lineNumber, 2),
+				);
+			}
+
+			const offset = random(model.length + 1);
+
+			const count = Math.min(random(10), model.length - offset);
+
+			if (count > 0 && random(2) === 0) {
+				tree.delete(offset, count);
+
+				model = model.slice(0, offset) + model.slice(offset + count);
+			} else {
+				const text = randomText(random, 5);
+
+				tree.insert(offset, text, false);
+
+				model = model.slice(0, offset) + text + model.slice(offset);
+			}
+		}
+	});
+});
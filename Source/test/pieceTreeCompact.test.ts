@@ -0,0 +1,225 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	createRandom,
+	createTree,
+	getLines,
+	randomText,
+	readSnapshot,
+} from "./testUtils";
+
+describe("PieceTreeBase.compact", () => {
+	test("merges the pieces left behind by deletes in typed text", () => {
+		const tree = createTree("", { normalizeEOL: false });
+
+		for (let i = 0; i < 100; i++) {
+			tree.insert(tree.getLength(), "abc\n", true);
+		}
+
+		for (let i = 0; i < 50; i++) {
+			tree.delete(i * 3 + 1, 1);
+		}
+
+		const content = tree.getLinesRawContent();
+
+		const result = tree.compact();
+
+		expect(result.before.pieceCount).toBeGreaterThan(50);
+
+		expect(result.after).toEqual({
+			pieceCount: 1,
+			bufferCount: 2,
+			changeBufferLength: 0,
+			bufferLength: content.length,
+		});
+
+		expect(tree.getLinesRawContent()).toBe(content);
+	});
+
+	test("keeps the original buffers and drops dead change buffer text", () => {
+		const original = "line\n".repeat(1000);
+
+		const tree = createTree(original, { normalizeEOL: false });
+
+		for (let i = 0; i < 200; i++) {
+			tree.insert(i * 7, "typed", true);
+
+			tree.delete(i * 7, 5);
+		}
+
+		const result = tree.compact();
+
+		expect(result.before.changeBufferLength).toBe(1000);
+
+		expect(result.after).toEqual({
+			pieceCount: 1,
+			bufferCount: 2,
+			changeBufferLength: 0,
+			bufferLength: original.length,
+		});
+
+		expect(tree.getLinesRawContent()).toBe(original);
+	});
+
+	test("copies scattered small pieces into a few buffers", () => {
+		const original = "0123456789".repeat(11000);
+
+		const tree = createTree(original, { normalizeEOL: false });
+
+		let model = original;
+
+		for (let i = 0; i < 2000; i++) {
+			const offset = i * 55;
+
+			tree.insert(offset, "x", true);
+
+			model = model.slice(0, offset) + "x" + model.slice(offset);
+		}
+
+		const result = tree.compact();
+
+		expect(result.before.pieceCount).toBeGreaterThanOrEqual(4000);
+
+		expect(result.after.pieceCount).toBeLessThanOrEqual(3);
+
+		expect(result.after.bufferCount).toBeLessThanOrEqual(4);
+
+		expect(result.after.changeBufferLength).toBe(0);
+
+		expect(tree.getLinesRawContent()).toBe(model);
+	});
+
+	test("drops the buffers of large inserts that were deleted", () => {
+		const tree = createTree("abc", { normalizeEOL: false });
+
+		const large = "large\n".repeat(20000);
+
+		tree.insert(1, large, true);
+
+		tree.insert(2, large, true);
+
+		tree.delete(1, 2 * large.length);
+
+		const result = tree.compact();
+
+		expect(result.before.bufferCount).toBeGreaterThan(3);
+
+		expect(result.after.bufferCount).toBe(2);
+
+		expect(result.after.bufferLength).toBe(3);
+
+		expect(tree.getLinesRawContent()).toBe("abc");
+	});
+
+	test("keeps the content when edits interleave original and typed text", () => {
+		const random = createRandom(11);
+
+		const original = "line of the original text\r\n".repeat(200);
+
+		const tree = createTree(original, { normalizeEOL: false });
+
+		let model = original;
+
+		for (let i = 0; i < 2000; i++) {
+			const offset = random(model.length + 1);
+
+			const count = Math.min(random(4), model.length - offset);
+
+			if (count > 0 && random(3) === 0) {
+				tree.delete(offset, count);
+
+				model = model.slice(0, offset) + model.slice(offset + count);
+			} else {
+				const text = randomText(random, 3);
+
+				tree.insert(offset, text, false);
+
+				model = model.slice(0, offset) + text + model.slice(offset);
+			}
+		}
+
+		const lines = getLines(tree);
+
+		const result = tree.compact();
+
+		expect(result.after.pieceCount).toBeLessThan(result.before.pieceCount);
+
+		expect(tree.getLinesRawContent()).toBe(model);
+
+		expect(getLines(tree)).toEqual(lines);
+
+		expect(tree.getLineCount()).toBe(lines.length);
+
+		tree.insert(0, "\n", false);
+
+		tree.insert(model.length + 1, "\n", false);
+
+		expect(tree.getLinesRawContent()).toBe("\n" + model + "\n");
+	});
+
+	test("keeps the content, forks and snapshots after random edits", () => {
+		const random = createRandom(7);
+
+		for (let iteration = 0; iteration < 30; iteration++) {
+			const preserveEOL = iteration % 2 === 1;
+
+			const tree = createTree(randomText(random, 500), {
+				normalizeEOL: false,
+				preserveEOL,
+			});
+
+			for (let i = 0; i < 300; i++) {
+				const length = tree.getLength();
+
+				const offset = random(length + 1);
+
+				const count = Math.min(random(20), length - offset);
+
+				if (count > 0 && random(2) === 0) {
+					tree.delete(offset, count);
+				} else {
+					tree.insert(offset, randomText(random, 10), false);
+				}
+			}
+
+			const content = tree.getLinesRawContent();
+
+			const lines = getLines(tree);
+
+			const versionId = tree.getVersionId();
+
+			const fork = tree.fork();
+
+			const snapshot = tree.createPersistentSnapshot("");
+
+			tree.compact();
+
+			expect(tree.getLinesRawContent()).toBe(content);
+
+			expect(getLines(tree)).toEqual(lines);
+
+			expect(tree.getVersionId()).toBe(versionId);
+
+			expect(readSnapshot(snapshot)).toBe(content);
+
+			let model = content;
+
+			for (let i = 0; i < 100; i++) {
+				const offset = random(model.length + 1);
+
+				const text = randomText(random, 10);
+
+				tree.insert(offset, text, true);
+
+				model = model.slice(0, offset) + text + model.slice(offset);
+			}
+
+			expect(tree.getLinesRawContent()).toBe(model);
+
+			expect(fork.getLinesRawContent()).toBe(content);
+		}
+	});
+});
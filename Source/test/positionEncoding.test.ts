@@ -0,0 +1,168 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "../common/position";
+import {
+	fromEncodedColumn,
+	PositionEncodingKind,
+	toEncodedColumn,
+} from "../common/positionEncoding";
+import { Range } from "../common/range";
+import * as index from "../index";
+import { createTree } from "./testUtils";
+
+describe("position encodings", () => {
+	const tree = createTree("aé😀\nb");
+
+	test("converts columns between encodings", () => {
+		const position = new Position(1, 5);
+
+		expect(
+			tree.toEncodedPosition(position, PositionEncodingKind.UTF8),
+		).toEqual(new Position(1, 8));
+
+		expect(
+			tree.toEncodedPosition(position, PositionEncodingKind.UTF32),
+		).toEqual(new Position(1, 4));
+
+		expect(
+			tree.fromEncodedPosition(
+				new Position(1, 8),
+				PositionEncodingKind.UTF8,
+			),
+		).toEqual(position);
+	});
+
+	test("clamps out of range columns in every encoding", () => {
+		for (const encoding of [
+			PositionEncodingKind.UTF8,
+			PositionEncodingKind.UTF16,
+			PositionEncodingKind.UTF32,
+		]) {
+			expect(
+				tree.fromEncodedPosition(new Position(1, 100), encoding),
+			).toEqual(new Position(1, 5));
+
+			expect(
+				tree.fromEncodedPosition(new Position(2, 0), encoding),
+			).toEqual(new Position(2, 1));
+
+			expect(
+				tree.toEncodedPosition(new Position(2, 100), encoding),
+			).toEqual(new Position(2, 2));
+		}
+	});
+
+	test("exports PositionEncodingKind from the package", () => {
+		expect(index.PositionEncodingKind).toBe(PositionEncodingKind);
+
+		expect([
+			index.PositionEncodingKind.UTF8,
+			index.PositionEncodingKind.UTF16,
+			index.PositionEncodingKind.UTF32,
+		]).toEqual(["utf-8", "utf-16", "utf-32"]);
+	});
+
+	test("counts every column of a line in each encoding", () => {
+		const line = "aé€😀z";
+
+		expect(
+			[1, 2, 3, 4, 6, 7].map((column) =>
+				toEncodedColumn(line, column, PositionEncodingKind.UTF8),
+			),
+		).toEqual([1, 2, 4, 7, 11, 12]);
+
+		expect(
+			[1, 2, 3, 4, 6, 7].map((column) =>
+				toEncodedColumn(line, column, PositionEncodingKind.UTF32),
+			),
+		).toEqual([1, 2, 3, 4, 5, 6]);
+
+		expect(
+			[1, 2, 4, 7, 11, 12].map((column) =>
+				fromEncodedColumn(line, column, PositionEncodingKind.UTF8),
+			),
+		).toEqual([1, 2, 3, 4, 6, 7]);
+
+		expect(
+			[1, 2, 3, 4, 5, 6].map((column) =>
+				fromEncodedColumn(line, column, PositionEncodingKind.UTF32),
+			),
+		).toEqual([1, 2, 3, 4, 6, 7]);
+	});
+
+	test("resolves a column inside a character to its start", () => {
+		const line = "a😀b";
+
+		expect(toEncodedColumn(line, 3, PositionEncodingKind.UTF8)).toBe(2);
+
+		expect(toEncodedColumn(line, 3, PositionEncodingKind.UTF32)).toBe(2);
+
+		for (const column of [2, 3, 4, 5]) {
+			expect(
+				fromEncodedColumn(line, column, PositionEncodingKind.UTF8),
+			).toBe(2);
+		}
+
+		expect(fromEncodedColumn(line, 6, PositionEncodingKind.UTF8)).toBe(4);
+	});
+
+	test("counts a lone surrogate as one character of 3 UTF-8 bytes", () => {
+		const line = "a\ud83db\ude00";
+
+		expect(toEncodedColumn(line, 5, PositionEncodingKind.UTF8)).toBe(9);
+
+		expect(toEncodedColumn(line, 5, PositionEncodingKind.UTF32)).toBe(5);
+
+		expect(fromEncodedColumn(line, 5, PositionEncodingKind.UTF8)).toBe(3);
+
+		expect(fromEncodedColumn(line, 9, PositionEncodingKind.UTF8)).toBe(5);
+	});
+
+	test("round trips positions, ranges and offsets through the tree", () => {
+		const tree = createTree("x😀é\nab€");
+
+		const range = new Range(1, 2, 2, 4);
+
+		const utf8Range = tree.toEncodedRange(range, PositionEncodingKind.UTF8);
+
+		expect(utf8Range).toEqual(new Range(1, 2, 2, 6));
+
+		expect(
+			tree.fromEncodedRange(utf8Range, PositionEncodingKind.UTF8),
+		).toEqual(range);
+
+		expect(
+			tree.getOffsetAtInEncoding(1, 8, PositionEncodingKind.UTF8),
+		).toBe(4);
+
+		expect(
+			tree.getPositionAtInEncoding(4, PositionEncodingKind.UTF32),
+		).toEqual(new Position(1, 4));
+
+		for (let offset = 0; offset <= tree.getLength(); offset++) {
+			if (offset === 2) {
+				// inside the pair
+				continue;
+			}
+
+			for (const encoding of [
+				PositionEncodingKind.UTF8,
+				PositionEncodingKind.UTF16,
+				PositionEncodingKind.UTF32,
+			]) {
+				const position = tree.getPositionAtInEncoding(offset, encoding);
+
+				expect(
+					tree.getOffsetAtInEncoding(
+						position.lineNumber,
+						position.column,
+						encoding,
+					),
+				).toBe(offset);
+			}
+		}
+	});
+});
@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PieceTreeBase } from "../pieceTreeBase";
+import { NodeColor, SENTINEL, TreeNode } from "../rbTreeBase";
+import { createRandom, createTree, randomText } from "./testUtils";
+
+/**
+ * Check the red-black invariants and the subtree metadata of every node, and return the black
+ * height, length and line feed count of the subtree.
+ */
+function assertSubtree(
+	tree: PieceTreeBase,
+	node: TreeNode,
+): [blackHeight: number, length: number, lineFeedCnt: number] {
+	if (node === SENTINEL) {
+		return [1, 0, 0];
+	}
+
+	expect(node.left === SENTINEL || node.left.parent === node).toBe(true);
+
+	expect(node.right === SENTINEL || node.right.parent === node).toBe(true);
+
+	if (node.color === NodeColor.Red) {
+		expect(node.left.color).toBe(NodeColor.Black);
+
+		expect(node.right.color).toBe(NodeColor.Black);
+	}
+
+	const [leftBlackHeight, leftLength, leftLineFeedCnt] = assertSubtree(
+		tree,
+		node.left,
+	);
+
+	const [rightBlackHeight, rightLength, rightLineFeedCnt] = assertSubtree(
+		tree,
+		node.right,
+	);
+
+	expect(leftBlackHeight).toBe(rightBlackHeight);
+
+	expect(node.size_left).toBe(leftLength);
+
+	expect(node.lf_left).toBe(leftLineFeedCnt);
+
+	return [
+		leftBlackHeight + (node.color === NodeColor.Black ? 1 : 0),
+		leftLength + node.piece.length + rightLength,
+		leftLineFeedCnt + node.piece.lineFeedCnt + rightLineFeedCnt,
+	];
+}
+
+function assertTree(tree: PieceTreeBase, model: string): void {
+	expect(tree.root.color).toBe(NodeColor.Black);
+
+	expect(tree.root.parent).toBe(SENTINEL);
+
+	assertSubtree(tree, tree.root);
+
+	expect(tree.getLinesRawContent()).toBe(model);
+
+	expect(tree.getLength()).toBe(model.length);
+}
+
+describe("rbTreeBase", () => {
+	test("SENTINEL is never written to", () => {
+		expect(Object.isFrozen(SENTINEL)).toBe(true);
+
+		expect(SENTINEL.parent).toBe(SENTINEL);
+
+		expect(SENTINEL.left).toBe(SENTINEL);
+
+		expect(SENTINEL.right).toBe(SENTINEL);
+
+		expect(SENTINEL.color).toBe(NodeColor.Black);
+	});
+
+	test("interleaved edits on many trees and forks stay isolated", () => {
+		const random = createRandom(42);
+
+		const trees: PieceTreeBase[] = [];
+
+		const models: string[] = [];
+
+		for (let i = 0; i < 16; i++) {
+			const text = randomText(random, 200);
+
+			trees.push(createTree(text, { normalizeEOL: false }));
+
+			models.push(text);
+		}
+
+		for (let step = 0; step < 20000; step++) {
+			const index = random(trees.length);
+
+			const tree = trees[index];
+
+			const model = models[index];
+
+			const offset = random(model.length + 1);
+
+			if (random(2) === 0) {
+				const count = Math.min(random(16), model.length - offset);
+
+				tree.delete(offset, count);
+
+				models[index] =
+					model.slice(0, offset) + model.slice(offset + count);
+			} else {
+				const text = randomText(random, 8);
+
+				tree.insert(offset, text, true);
+
+				models[index] =
+					model.slice(0, offset) + text + model.slice(offset);
+			}
+
+			if (step % 500 === 0) {
+				// a fork shares the original buffers, but must not share nodes
+				const forkIndex = random(trees.length);
+
+				trees[forkIndex] = trees[index].fork();
+
+				models[forkIndex] = models[index];
+			}
+
+			if (step % 1000 === 0) {
+				for (let i = 0; i < trees.length; i++) {
+					assertTree(trees[i], models[i]);
+				}
+			}
+		}
+
+		for (let i = 0; i < trees.length; i++) {
+			assertTree(trees[i], models[i]);
+		}
+
+		expect(SENTINEL.parent).toBe(SENTINEL);
+	});
+});
@@ -0,0 +1,39 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PieceTreeBase } from "../pieceTreeBase";
+import { createTree } from "./testUtils";
+
+describe("serialization", () => {
+	test("round trips the content", () => {
+		const tree = createTree("abc\ndef");
+
+		tree.insert(3, "xyz\n", true);
+
+		const restored = PieceTreeBase.deserialize(tree.serialize());
+
+		expect(restored.getLinesRawContent()).toBe("abcxyz\n\ndef");
+	});
+
+	test("rejects data written with the other byte order", () => {
+		const data = createTree("abc\ndef").serialize();
+
+		const swapped = new Uint8Array(data.length);
+
+		for (let i = 0; i < data.length; i += 4) {
+			swapped[i] = data[i + 3];
+
+			swapped[i + 1] = data[i + 2];
+
+			swapped[i + 2] = data[i + 1];
+
+			swapped[i + 3] = data[i];
+		}
+
+		expect(() => PieceTreeBase.deserialize(swapped)).toThrow(
+			"Piece tree data was written with a different byte order",
+		);
+	});
+});
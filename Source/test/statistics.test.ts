@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "../common/position";
+import { createTree } from "./testUtils";
+
+describe("PieceTreeBase.getStatistics", () => {
+	test("describes an empty tree", () => {
+		expect(createTree("").getStatistics()).toEqual({
+			nodeCount: 0,
+			treeHeight: 0,
+			bufferCount: 1,
+			buffers: [
+				{
+					length: 0,
+					lineStartsLength: 1,
+					lineStartsType: "number[]",
+				},
+			],
+			changeBufferLiveLength: 0,
+			changeBufferDeadLength: 0,
+			averagePieceLength: 0,
+			searchCacheHits: 0,
+			searchCacheMisses: 0,
+			searchCacheHitRate: 0,
+		});
+	});
+
+	test("reports the size and line starts type of each buffer", () => {
+		const small = "line\n".repeat(10);
+
+		const large = "x".repeat(70000) + "\n";
+
+		const tree = createTree([small, large], { normalizeEOL: false });
+
+		const statistics = tree.getStatistics();
+
+		expect(statistics.nodeCount).toBe(2);
+
+		expect(statistics.bufferCount).toBe(3);
+
+		expect(statistics.buffers).toEqual([
+			{ length: 0, lineStartsLength: 1, lineStartsType: "number[]" },
+			{
+				length: small.length,
+				lineStartsLength: 11,
+				lineStartsType: "Uint16Array",
+			},
+			{
+				length: large.length,
+				lineStartsLength: 2,
+				lineStartsType: "Uint32Array",
+			},
+		]);
+
+		expect(statistics.averagePieceLength).toBe(
+			(small.length + large.length) / 2,
+		);
+	});
+
+	test("tells live from dead change buffer text", () => {
+		const tree = createTree("abc");
+
+		tree.insert(3, "defgh", true);
+
+		tree.insert(0, "123", true);
+
+		tree.delete(6, 2);
+
+		const statistics = tree.getStatistics();
+
+		expect(statistics.buffers[0].length).toBe(8);
+
+		expect(statistics.changeBufferLiveLength).toBe(6);
+
+		expect(statistics.changeBufferDeadLength).toBe(2);
+
+		tree.compact();
+
+		expect(tree.getStatistics().changeBufferDeadLength).toBe(0);
+	});
+
+	test("keeps the tree height logarithmic in the node count", () => {
+		const tree = createTree("0123456789".repeat(100));
+
+		for (let i = 0; i < 2000; i++) {
+			// scattered, so that every insert splits a piece
+			tree.insert((i * 7919) % (tree.getLength() + 1), "x");
+		}
+
+		const { nodeCount, treeHeight } = tree.getStatistics();
+
+		expect(nodeCount).toBeGreaterThan(1000);
+
+		expect(treeHeight).toBeGreaterThanOrEqual(Math.log2(nodeCount + 1));
+
+		expect(treeHeight).toBeLessThanOrEqual(2 * Math.log2(nodeCount + 1));
+	});
+
+	test("counts search cache hits and misses", () => {
+		const tree = createTree("abc\ndef");
+
+		tree.insert(7, "ghi", true);
+
+		tree.setCacheOptions({ nodeCacheSize: 4 });
+
+		const position = new Position(2, 2);
+
+		tree.getByteOffsetAt(position);
+
+		tree.getByteOffsetAt(position);
+
+		tree.getByteOffsetAt(position);
+
+		const statistics = tree.getStatistics();
+
+		expect(statistics.searchCacheMisses).toBe(1);
+
+		expect(statistics.searchCacheHits).toBe(2);
+
+		expect(statistics.searchCacheHitRate).toBeCloseTo(2 / 3);
+	});
+});
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { LineBreakPolicy } from "../common/eolCounter";
+import { ITextSnapshot, PieceTreeBase } from "../pieceTreeBase";
+import {
+	DefaultEndOfLine,
+	PieceTreeTextBufferBuilder,
+} from "../pieceTreeBuilder";
+
+/**
+ * Pieces of random text: line breaks of every kind, and characters of 1 to 4 UTF-8 bytes.
+ */
+const alphabet = ["a", "b", "xyz", "\n", "\r\n", "\r", "é", "😀"];
+
+export interface ICreateTreeOptions {
+	/**
+	 * Convert all line breaks to `\n` when building, `true` by default.
+	 */
+	normalizeEOL?: boolean;
+	preserveEOL?: boolean;
+	lineBreakPolicy?: LineBreakPolicy;
+}
+
+/**
+ * A piece tree over `text`, or over `chunks` passed to the builder one by one.
+ */
+export function createTree(
+	text: string | string[],
+	options: ICreateTreeOptions = {},
+): PieceTreeBase {
+	const builder = new PieceTreeTextBufferBuilder({
+		lineBreakPolicy: options.lineBreakPolicy,
+	});
+
+	for (const chunk of typeof text === "string" ? [text] : text) {
+		builder.acceptChunk(chunk);
+	}
+
+	return builder
+		.finish(options.normalizeEOL ?? true)
+		.create(DefaultEndOfLine.LF, options.preserveEOL);
+}
+
+/**
+ * A random number generator returning integers below `max`. Seeded, so a failure can be replayed.
+ */
+export function createRandom(seed: number): (max: number) => number {
+	return (max: number) => {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+
+		return seed % max;
+	};
+}
+
+export function randomText(
+	random: (max: number) => number,
+	maxLength: number,
+): string {
+	let result = "";
+
+	for (let i = random(maxLength + 1); i > 0; i--) {
+		result += alphabet[random(alphabet.length)];
+	}
+
+	return result;
+}
+
+export function readSnapshot(snapshot: ITextSnapshot): string {
+	let result = "";
+
+	let text: string | null;
+
+	while ((text = snapshot.read()) !== null) {
+		result += text;
+	}
+
+	return result;
+}
+
+export function getLines(tree: PieceTreeBase): string[] {
+	const result: string[] = [];
+
+	for (let i = 1; i <= tree.getLineCount(); i++) {
+		result.push(tree.getLineContent(i));
+	}
+
+	return result;
+}
@@ -0,0 +1,53 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "../common/position";
+import { createTree } from "./testUtils";
+
+describe("wordOperations", () => {
+	test("getWordAtPosition finds Unicode words", () => {
+		const tree = createTree("naïve café—déjà vu");
+
+		expect(tree.getWordAtPosition(new Position(1, 3))).toEqual({
+			word: "naïve",
+			startColumn: 1,
+			endColumn: 6,
+		});
+
+		expect(tree.getWordAtPosition(new Position(1, 13))).toEqual({
+			word: "déjà",
+			startColumn: 12,
+			endColumn: 16,
+		});
+
+		expect(tree.getWordAtPosition(new Position(1, 17))).toEqual({
+			word: "vu",
+			startColumn: 17,
+			endColumn: 19,
+		});
+	});
+
+	test("getWordUntilPosition clamps the column to the line", () => {
+		const tree = createTree("foo bar");
+
+		expect(tree.getWordUntilPosition(new Position(1, 50))).toEqual({
+			word: "bar",
+			startColumn: 5,
+			endColumn: 8,
+		});
+
+		expect(tree.getWordUntilPosition(new Position(1, -3))).toEqual({
+			word: "",
+			startColumn: 1,
+			endColumn: 1,
+		});
+
+		expect(tree.getWordUntilPosition(new Position(1, 4))).toEqual({
+			word: "foo",
+			startColumn: 1,
+			endColumn: 4,
+		});
+	});
+});
@@ -0,0 +1,397 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharCode } from "./common/charCode";
+import { Range } from "./common/range";
+import * as strings from "./common/strings";
+import {
+	getMapForWordSeparators,
+	WordCharacterClass,
+	WordCharacterClassifier,
+} from "./common/wordCharacterClassifier";
+
+export class FindMatch {
+	public readonly range: Range;
+
+	public readonly matches: string[] | null;
+
+	constructor(range: Range, matches: string[] | null) {
+		this.range = range;
+
+		this.matches = matches;
+	}
+}
+
+export class SearchParams {
+	public readonly searchString: string;
+
+	public readonly isRegex: boolean;
+
+	public readonly matchCase: boolean;
+
+	public readonly wordSeparators: string | null;
+
+	constructor(
+		searchString: string,
+		isRegex: boolean,
+		matchCase: boolean,
+		wordSeparators: string | null,
+	) {
+		this.searchString = searchString;
+
+		this.isRegex = isRegex;
+
+		this.matchCase = matchCase;
+
+		this.wordSeparators = wordSeparators;
+	}
+
+	public parseSearchRequest(): SearchData | null {
+		if (this.searchString === "") {
+			return null;
+		}
+
+		// Try to create a RegExp out of the params
+		let multiline: boolean;
+
+		if (this.isRegex) {
+			multiline = isMultilineRegexSource(this.searchString);
+		} else {
+			multiline = this.searchString.indexOf("\n") >= 0;
+		}
+
+		let regex: RegExp | null = null;
+
+		try {
+			// `^` and `$` must hold at every line break, as pieces are searched without being split into lines.
+			regex = strings.createRegExp(this.searchString, this.isRegex, {
+				matchCase: this.matchCase,
+				wholeWord: false,
+				multiline: true,
+				global: true,
+				unicode: true,
+			});
+		} catch (err) {
+			return null;
+		}
+
+		if (!regex) {
+			return null;
+		}
+
+		let canUseSimpleSearch = !this.isRegex && !multiline;
+
+		if (
+			canUseSimpleSearch &&
+			this.searchString.toLowerCase() !== this.searchString.toUpperCase()
+		) {
+			// casing might make a difference
+			canUseSimpleSearch = this.matchCase;
+		}
+
+		return new SearchData(
+			regex,
+			multiline,
+			this.wordSeparators
+				? getMapForWordSeparators(this.wordSeparators)
+				: null,
+			canUseSimpleSearch ? this.searchString : null,
+		);
+	}
+}
+
+export function isMultilineRegexSource(searchString: string): boolean {
+	if (!searchString || searchString.length === 0) {
+		return false;
+	}
+
+	for (let i = 0, len = searchString.length; i < len; i++) {
+		const chCode = searchString.charCodeAt(i);
+
+		if (chCode === CharCode.Backslash) {
+			// move to next char
+			i++;
+
+			if (i >= len) {
+				// string ends with a \
+				break;
+			}
+
+			const nextChCode = searchString.charCodeAt(i);
+
+			if (
+				nextChCode === CharCode.n ||
+				nextChCode === CharCode.r ||
+				nextChCode === CharCode.W
+			) {
+				return true;
+			}
+		}
+	}
+
+	return false;
+}
+
+export class SearchData {
+	/**
+	 * The regex to search for. Always defined.
+	 */
+	public readonly regex: RegExp;
+	/**
+	 * Whether a match can span more than one line.
+	 */
+	public readonly multiline: boolean;
+	/**
+	 * The word separator classifier.
+	 */
+	public readonly wordSeparators: WordCharacterClassifier | null;
+	/**
+	 * The simple string to search for (if possible).
+	 */
+	public readonly simpleSearch: string | null;
+
+	constructor(
+		regex: RegExp,
+		multiline: boolean,
+		wordSeparators: WordCharacterClassifier | null,
+		simpleSearch: string | null,
+	) {
+		this.regex = regex;
+
+		this.multiline = multiline;
+
+		this.wordSeparators = wordSeparators;
+
+		this.simpleSearch = simpleSearch;
+	}
+}
+
+export function createFindMatch(
+	range: Range,
+	rawMatches: RegExpExecArray,
+	captureMatches: boolean,
+): FindMatch {
+	if (!captureMatches) {
+		return new FindMatch(range, null);
+	}
+
+	let matches: string[] = [];
+
+	for (let i = 0, len = rawMatches.length; i < len; i++) {
+		matches[i] = rawMatches[i];
+	}
+
+	return new FindMatch(range, matches);
+}
+
+function leftIsWordBounday(
+	wordSeparators: WordCharacterClassifier,
+	text: string,
+	textLength: number,
+	matchStartIndex: number,
+	matchLength: number,
+): boolean {
+	if (matchStartIndex === 0) {
+		// Match starts at start of string
+		return true;
+	}
+
+	const charBefore = text.charCodeAt(matchStartIndex - 1);
+
+	if (wordSeparators.get(charBefore) !== WordCharacterClass.Regular) {
+		// The character before the match is a word separator
+		return true;
+	}
+
+	if (
+		charBefore === CharCode.CarriageReturn ||
+		charBefore === CharCode.LineFeed
+	) {
+		// The character before the match is line break or carriage return.
+		return true;
+	}
+
+	if (matchLength > 0) {
+		const firstCharInMatch = text.charCodeAt(matchStartIndex);
+
+		if (
+			wordSeparators.get(firstCharInMatch) !== WordCharacterClass.Regular
+		) {
+			// The first character inside the match is a word separator
+			return true;
+		}
+	}
+
+	return false;
+}
+
+function rightIsWordBounday(
+	wordSeparators: WordCharacterClassifier,
+	text: string,
+	textLength: number,
+	matchStartIndex: number,
+	matchLength: number,
+): boolean {
+	if (matchStartIndex + matchLength === textLength) {
+		// Match ends at end of string
+		return true;
+	}
+
+	const charAfter = text.charCodeAt(matchStartIndex + matchLength);
+
+	if (wordSeparators.get(charAfter) !== WordCharacterClass.Regular) {
+		// The character after the match is a word separator
+		return true;
+	}
+
+	if (
+		charAfter === CharCode.CarriageReturn ||
+		charAfter === CharCode.LineFeed
+	) {
+		// The character after the match is line break or carriage return.
+		return true;
+	}
+
+	if (matchLength > 0) {
+		const lastCharInMatch = text.charCodeAt(
+			matchStartIndex + matchLength - 1,
+		);
+
+		if (
+			wordSeparators.get(lastCharInMatch) !== WordCharacterClass.Regular
+		) {
+			// The last character in the match is a word separator
+			return true;
+		}
+	}
+
+	return false;
+}
+
+export function isValidMatch(
+	wordSeparators: WordCharacterClassifier,
+	text: string,
+	textLength: number,
+	matchStartIndex: number,
+	matchLength: number,
+): boolean {
+	return (
+		leftIsWordBounday(
+			wordSeparators,
+			text,
+			textLength,
+			matchStartIndex,
+			matchLength,
+		) &&
+		rightIsWordBounday(
+			wordSeparators,
+			text,
+			textLength,
+			matchStartIndex,
+			matchLength,
+		)
+	);
+}
+
+export class Searcher {
+	public readonly _wordSeparators: WordCharacterClassifier | null;
+
+	private readonly _searchRegex: RegExp;
+
+	private _prevMatchStartIndex: number;
+
+	private _prevMatchLength: number;
+
+	constructor(
+		wordSeparators: WordCharacterClassifier | null,
+		searchRegex: RegExp,
+	) {
+		this._wordSeparators = wordSeparators;
+
+		this._searchRegex = searchRegex;
+
+		this._prevMatchStartIndex = -1;
+
+		this._prevMatchLength = 0;
+	}
+
+	public reset(lastIndex: number): void {
+		this._searchRegex.lastIndex = lastIndex;
+
+		this._prevMatchStartIndex = -1;
+
+		this._prevMatchLength = 0;
+	}
+
+	public next(text: string): RegExpExecArray | null {
+		const textLength = text.length;
+
+		let m: RegExpExecArray | null;
+
+		do {
+			if (
+				this._prevMatchStartIndex + this._prevMatchLength ===
+				textLength
+			) {
+				// Reached the end of the line
+				return null;
+			}
+
+			m = this._searchRegex.exec(text);
+
+			if (!m) {
+				return null;
+			}
+
+			const matchStartIndex = m.index;
+
+			const matchLength = m[0].length;
+
+			if (
+				matchStartIndex === this._prevMatchStartIndex &&
+				matchLength === this._prevMatchLength
+			) {
+				if (matchLength === 0) {
+					// the search result is an empty string and won't advance `regex.lastIndex`, so `regex.exec` will stuck here
+					// we attempt to recover from that by advancing by two if surrogate pair found and by one otherwise
+					if (
+						strings.getNextCodePoint(
+							text,
+							textLength,
+							this._searchRegex.lastIndex,
+						) > 0xffff
+					) {
+						this._searchRegex.lastIndex += 2;
+					} else {
+						this._searchRegex.lastIndex += 1;
+					}
+
+					continue;
+				}
+				// Exit early if the regex matches the same range twice
+				return null;
+			}
+
+			this._prevMatchStartIndex = matchStartIndex;
+
+			this._prevMatchLength = matchLength;
+
+			if (
+				!this._wordSeparators ||
+				isValidMatch(
+					this._wordSeparators,
+					text,
+					textLength,
+					matchStartIndex,
+					matchLength,
+				)
+			) {
+				return m;
+			}
+		} while (m);
+
+		return null;
+	}
+}
@@ -0,0 +1,330 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from "./common/position";
+import { getNextCodePoint } from "./common/strings";
+import {
+	getMapForWordSeparators,
+	USUAL_WORD_SEPARATORS,
+	WordCharacterClass,
+	WordCharacterClassifier,
+} from "./common/wordCharacterClassifier";
+
+/**
+ * Lines to look for words in.
+ */
+export interface IWordSource {
+	getLineCount(): number;
+	/**
+	 * @param lineNumber 1 based
+	 */
+	getLineContent(lineNumber: number): string;
+}
+
+/**
+ * A word and the columns it spans on its line.
+ */
+export interface IWordAtPosition {
+	readonly word: string;
+	readonly startColumn: number;
+	readonly endColumn: number;
+}
+
+const enum WordType {
+	Regular = 0,
+	Separator = 1,
+}
+
+/**
+ * A run of word characters or of separators on a line, as 0 based offsets.
+ */
+interface ILineWord {
+	readonly start: number;
+	readonly end: number;
+	readonly wordType: WordType;
+}
+
+/**
+ * Split `lineContent` into runs of regular characters and runs of separators. Whitespace ends a
+ * run, and a regular character next to a separator starts a new one.
+ */
+function getLineWords(
+	lineContent: string,
+	classifier: WordCharacterClassifier,
+): ILineWord[] {
+	const result: ILineWord[] = [];
+
+	const len = lineContent.length;
+
+	let start = -1;
+
+	let wordType = WordType.Regular;
+
+	for (let i = 0; i < len;) {
+		const codePoint = getNextCodePoint(lineContent, len, i);
+
+		const charClass = classifier.getCodePointClass(codePoint);
+
+		if (start !== -1) {
+			const runEnds =
+				charClass === WordCharacterClass.Whitespace ||
+				(charClass === WordCharacterClass.Regular) !==
+					(wordType === WordType.Regular);
+
+			if (runEnds) {
+				result.push({ start, end: i, wordType });
+
+				start = -1;
+			}
+		}
+
+		if (start === -1 && charClass !== WordCharacterClass.Whitespace) {
+			start = i;
+
+			wordType =
+				charClass === WordCharacterClass.Regular
+					? WordType.Regular
+					: WordType.Separator;
+		}
+
+		i += codePoint >= 0x10000 ? 2 : 1;
+	}
+
+	if (start !== -1) {
+		result.push({ start, end: len, wordType });
+	}
+
+	return result;
+}
+
+function clampColumn(lineContent: string, column: number): number {
+	return Math.min(Math.max(1, column), lineContent.length + 1);
+}
+
+/**
+ * The word that contains or touches `position`, or `null` when there is none.
+ * Runs of separators are not words.
+ */
+export function getWordAtPosition(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): IWordAtPosition | null {
+	const lineContent = source.getLineContent(position.lineNumber);
+
+	const offset = clampColumn(lineContent, position.column) - 1;
+
+	const words = getLineWords(
+		lineContent,
+		getMapForWordSeparators(wordSeparators),
+	);
+
+	for (const word of words) {
+		if (word.start > offset) {
+			break;
+		}
+
+		if (word.wordType === WordType.Regular && offset <= word.end) {
+			return {
+				word: lineContent.substring(word.start, word.end),
+				startColumn: word.start + 1,
+				endColumn: word.end + 1,
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * The part of the word at `position` that comes before it, or an empty word at `position`
+ * when there is none.
+ */
+export function getWordUntilPosition(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): IWordAtPosition {
+	const column = clampColumn(
+		source.getLineContent(position.lineNumber),
+		position.column,
+	);
+
+	const wordAtPosition = getWordAtPosition(
+		source,
+		new Position(position.lineNumber, column),
+		wordSeparators,
+	);
+
+	if (!wordAtPosition) {
+		return {
+			word: "",
+			startColumn: column,
+			endColumn: column,
+		};
+	}
+
+	return {
+		word: wordAtPosition.word.substring(
+			0,
+			column - wordAtPosition.startColumn,
+		),
+		startColumn: wordAtPosition.startColumn,
+		endColumn: column,
+	};
+}
+
+/**
+ * The start of the next word or run of separators after `position`. Without one, this is the end
+ * of the line, and at the end of the line the start of the next one.
+ */
+export function getNextWordStart(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): Position {
+	const lineNumber = position.lineNumber;
+
+	const lineContent = source.getLineContent(lineNumber);
+
+	const offset = clampColumn(lineContent, position.column) - 1;
+
+	const words = getLineWords(
+		lineContent,
+		getMapForWordSeparators(wordSeparators),
+	);
+
+	for (const word of words) {
+		if (word.start > offset) {
+			return new Position(lineNumber, word.start + 1);
+		}
+	}
+
+	if (offset < lineContent.length) {
+		return new Position(lineNumber, lineContent.length + 1);
+	}
+
+	if (lineNumber < source.getLineCount()) {
+		return new Position(lineNumber + 1, 1);
+	}
+
+	return new Position(lineNumber, offset + 1);
+}
+
+/**
+ * The end of the next word or run of separators after `position`, looking on the following
+ * lines when there is none on this one, or the end of the buffer.
+ */
+export function getNextWordEnd(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): Position {
+	const classifier = getMapForWordSeparators(wordSeparators);
+
+	const lineCount = source.getLineCount();
+
+	let lineNumber = position.lineNumber;
+
+	let lineContent = source.getLineContent(lineNumber);
+
+	let offset = clampColumn(lineContent, position.column) - 1;
+
+	while (true) {
+		for (const word of getLineWords(lineContent, classifier)) {
+			if (word.end > offset) {
+				return new Position(lineNumber, word.end + 1);
+			}
+		}
+
+		if (lineNumber >= lineCount) {
+			return new Position(lineNumber, lineContent.length + 1);
+		}
+
+		lineNumber++;
+
+		lineContent = source.getLineContent(lineNumber);
+
+		offset = 0;
+	}
+}
+
+/**
+ * The start of the previous word or run of separators before `position`, looking on the
+ * preceding lines when there is none on this one, or the start of the buffer.
+ */
+export function getPreviousWordStart(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): Position {
+	const classifier = getMapForWordSeparators(wordSeparators);
+
+	let lineNumber = position.lineNumber;
+
+	let lineContent = source.getLineContent(lineNumber);
+
+	let offset = clampColumn(lineContent, position.column) - 1;
+
+	while (true) {
+		const words = getLineWords(lineContent, classifier);
+
+		for (let i = words.length - 1; i >= 0; i--) {
+			if (words[i].start < offset) {
+				return new Position(lineNumber, words[i].start + 1);
+			}
+		}
+
+		if (lineNumber <= 1) {
+			return new Position(1, 1);
+		}
+
+		lineNumber--;
+
+		lineContent = source.getLineContent(lineNumber);
+
+		offset = lineContent.length;
+	}
+}
+
+/**
+ * The end of the previous word or run of separators before `position`. Without one, this is the
+ * start of the line, and at the start of the line the end of the previous one.
+ */
+export function getPreviousWordEnd(
+	source: IWordSource,
+	position: Position,
+	wordSeparators: string = USUAL_WORD_SEPARATORS,
+): Position {
+	const lineNumber = position.lineNumber;
+
+	const lineContent = source.getLineContent(lineNumber);
+
+	const offset = clampColumn(lineContent, position.column) - 1;
+
+	const words = getLineWords(
+		lineContent,
+		getMapForWordSeparators(wordSeparators),
+	);
+
+	for (let i = words.length - 1; i >= 0; i--) {
+		if (words[i].end < offset) {
+			return new Position(lineNumber, words[i].end + 1);
+		}
+	}
+
+	if (offset > 0) {
+		return new Position(lineNumber, 1);
+	}
+
+	if (lineNumber > 1) {
+		return new Position(
+			lineNumber - 1,
+			source.getLineContent(lineNumber - 1).length + 1,
+		);
+	}
+
+	return new Position(1, 1);
+}
@@ -1,4 +1,5 @@
 module.exports = {
 	preset: "ts-jest",
 	testEnvironment: "node",
+	roots: ["<rootDir>/Source"],
 };